@@ -0,0 +1,111 @@
+import { Command } from 'commander';
+import type { AuditEntry } from '../shared/types.js';
+
+const RELATIVE_TIME_PATTERN = /^(\d+)([smhd])$/;
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Accepts a relative age like 30m, 12h or 7d, or anything Date.parse understands.
+ */
+function parseSince(value: string): Date {
+  const relative = value.match(RELATIVE_TIME_PATTERN);
+  if (relative) {
+    return new Date(Date.now() - Number(relative[1]) * UNIT_MS[relative[2]]);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time: ${value} (use e.g. 30m, 12h, 7d or an ISO date)`);
+  }
+  return new Date(time);
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const who = entry.tokenName ?? '-';
+  const outcome = entry.outcome === 'failure' ? 'FAIL' : 'ok';
+  const fields = [
+    entry.timestamp,
+    entry.action.padEnd(15),
+    outcome.padEnd(4),
+    who.padEnd(16),
+    entry.remoteAddress.padEnd(16),
+    entry.sessionId ?? '-',
+    entry.target ?? '',
+    entry.detail ? `(${entry.detail})` : '',
+  ];
+  return fields.join('  ').trimEnd();
+}
+
+interface OutputOptions {
+  json?: boolean;
+}
+
+function printEntry(entry: AuditEntry, opts: OutputOptions): void {
+  console.log(opts.json ? JSON.stringify(entry) : formatEntry(entry));
+}
+
+export function createAuditCommand(): Command {
+  const audit = new Command('audit')
+    .description('Read the server audit log in ~/.ccr/audit');
+
+  audit
+    .command('tail')
+    .description('Show the most recent audit entries')
+    .option('-n, --lines <count>', 'Number of entries to show', '20')
+    .option('-f, --follow', 'Keep printing new entries as they are written')
+    .option('--session <id>', 'Only entries for this session')
+    .option('--action <action>', 'Only this action, or a prefix such as auth or file')
+    .option('--json', 'Print raw JSON lines')
+    .action(async (opts: { lines: string; follow?: boolean; session?: string; action?: string } & OutputOptions) => {
+      const { readRecentAuditEntries, followAuditEntries } = await import('../server/audit-log.js');
+      const filter = { sessionId: opts.session, action: opts.action };
+
+      const count = Number(opts.lines);
+      if (!/^\d+$/.test(opts.lines) || count <= 0) {
+        console.error(`[CCR] -n must be a positive integer, got ${opts.lines}`);
+        process.exit(1);
+      }
+
+      for (const entry of await readRecentAuditEntries(count, filter)) {
+        printEntry(entry, opts);
+      }
+
+      if (opts.follow) {
+        const stop = followAuditEntries(filter, (entry) => printEntry(entry, opts));
+        process.on('SIGINT', () => {
+          stop();
+          process.exit(0);
+        });
+      }
+    });
+
+  audit
+    .command('query')
+    .description('Search the audit log')
+    .option('--session <id>', 'Only entries for this session')
+    .option('--since <time>', 'Only entries after this time (e.g. 30m, 12h, 7d, 2025-01-31)')
+    .option('--action <action>', 'Only this action, or a prefix such as auth or file')
+    .option('--json', 'Print raw JSON lines')
+    .action(async (opts: { session?: string; since?: string; action?: string } & OutputOptions) => {
+      const { readAuditEntries } = await import('../server/audit-log.js');
+
+      let since: Date | undefined;
+      try {
+        since = opts.since ? parseSince(opts.since) : undefined;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[CCR] ${message}`);
+        process.exit(1);
+      }
+
+      let found = 0;
+      for await (const entry of readAuditEntries({ sessionId: opts.session, since, action: opts.action })) {
+        printEntry(entry, opts);
+        found++;
+      }
+      if (found === 0 && !opts.json) {
+        console.error('[CCR] No matching audit entries');
+      }
+    });
+
+  return audit;
+}
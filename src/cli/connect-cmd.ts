@@ -12,11 +12,17 @@ export function createConnectCommand(): Command {
     .option('--token-file <path>', 'Read token from file')
     .option('-s, --session <id>', 'Attach to a specific session')
     .option('--web', 'Open Web IDE in browser instead of raw terminal mode')
+    .option('--observe', 'Attach as a read-only observer')
+    .option('--profile <name>', 'Launch profile for newly created sessions')
+    .option('--cwd <path>', 'Working directory on the server for newly created sessions')
     .action(async (address: string, opts: {
       token?: string;
       tokenFile?: string;
       session?: string;
       web?: boolean;
+      observe?: boolean;
+      profile?: string;
+      cwd?: string;
     }) => {
       // Parse address
       const parts = address.split(':');
@@ -62,6 +68,9 @@ export function createConnectCommand(): Command {
           port,
           token,
           sessionId: opts.session,
+          observe: opts.observe,
+          profile: opts.profile,
+          cwd: opts.cwd,
         });
       }
     });
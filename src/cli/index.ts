@@ -2,6 +2,8 @@ import { Command } from 'commander';
 import { APP_NAME, APP_VERSION } from '../shared/constants.js';
 import { createServerCommand } from './server-cmd.js';
 import { createConnectCommand } from './connect-cmd.js';
+import { createSessionCommand } from './session-cmd.js';
+import { createAuditCommand } from './audit-cmd.js';
 
 const program = new Command()
   .name('ccr')
@@ -10,5 +12,7 @@ const program = new Command()
 
 program.addCommand(createServerCommand());
 program.addCommand(createConnectCommand());
+program.addCommand(createSessionCommand());
+program.addCommand(createAuditCommand());
 
 program.parse(process.argv);
@@ -1,5 +1,26 @@
 import { Command } from 'commander';
-import { DEFAULT_PORT, DEFAULT_HOST } from '../shared/constants.js';
+import { existsSync, statSync } from 'node:fs';
+import { networkInterfaces } from 'node:os';
+import { resolve } from 'node:path';
+import {
+  DEFAULT_PORT,
+  DEFAULT_HOST,
+  JWT_EXPIRY,
+  TOKEN_SCOPES,
+  PAIRING_DEFAULT_SCOPES,
+  PAIRING_CODE_TTL_MS,
+} from '../shared/constants.js';
+
+/**
+ * The address a phone on the same network can reach, for servers bound to all interfaces.
+ */
+function getLanAddress(): string | null {
+  for (const addrs of Object.values(networkInterfaces())) {
+    const addr = addrs?.find((a) => a.family === 'IPv4' && !a.internal);
+    if (addr) return addr.address;
+  }
+  return null;
+}
 
 export function createServerCommand(): Command {
   const server = new Command('server')
@@ -11,14 +32,28 @@ export function createServerCommand(): Command {
     .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_PORT))
     .option('-h, --host <host>', 'Host to bind to', DEFAULT_HOST)
     .option('-t, --token <token>', 'Use a custom access token')
-    .option('--tls', 'Enable TLS (HTTPS/WSS) with auto-generated self-signed certificate')
-    .action(async (opts: { port: string; host: string; token?: string; tls?: boolean }) => {
+    .option('--tls', 'Enable TLS (HTTPS/WSS) with a certificate from the local CA')
+    .option('--cert <path>', 'Serve this PEM certificate (implies --tls)')
+    .option('--key <path>', 'Private key for --cert')
+    .option('--record', 'Record all new sessions to ~/.ccr/recordings')
+    .action(async (opts: {
+      port: string;
+      host: string;
+      token?: string;
+      tls?: boolean;
+      cert?: string;
+      key?: string;
+      record?: boolean;
+    }) => {
       const { startServer } = await import('../server/index.js');
       await startServer({
         port: parseInt(opts.port, 10),
         host: opts.host,
         token: opts.token,
         tls: opts.tls,
+        cert: opts.cert,
+        key: opts.key,
+        record: opts.record,
       });
     });
 
@@ -64,8 +99,214 @@ export function createServerCommand(): Command {
     });
 
   server
+    .command('pair')
+    .description('Print a one-time code and QR code that log a browser in to the Web IDE')
+    .option('-n, --name <name>', 'Name for the issued token (default: generated)')
+    .option('-s, --scope <scopes...>', 'Scopes to grant', [...PAIRING_DEFAULT_SCOPES])
+    .option('-e, --expires <duration>', 'Lifetime of the issued token', JWT_EXPIRY)
+    .option('-u, --url <url>', 'Web IDE URL to encode in the QR code (default: http://<LAN address>:<port>)')
+    .action(async (opts: { name?: string; scope: string[]; expires: string; url?: string }) => {
+      const { loadServerConfig } = await import('../server/config.js');
+      const { parseScopes } = await import('../server/auth.js');
+      const { loadTokenRecords } = await import('../server/token-registry.js');
+      const { createPairingCode } = await import('../server/pairing.js');
+      const QRCode = (await import('qrcode')).default;
+
+      try {
+        const scopes = parseScopes(opts.scope);
+        if (scopes.length === 0) {
+          throw new Error('At least one scope is required');
+        }
+        if (opts.name && loadTokenRecords().some((r) => r.name === opts.name)) {
+          throw new Error(`A token named "${opts.name}" already exists`);
+        }
+
+        const config = loadServerConfig();
+        const host = config.host === '0.0.0.0' ? getLanAddress() ?? 'localhost' : config.host;
+        const url = new URL(opts.url ?? `http://${host}:${config.port}`);
+
+        const { code } = createPairingCode({ name: opts.name, scopes, tokenExpiresIn: opts.expires });
+        url.searchParams.set('pair', code);
+
+        console.log(await QRCode.toString(url.toString(), { type: 'terminal', small: true }));
+        console.log(`[CCR] Pairing code: ${code}`);
+        console.log(`[CCR] Or open: ${url.toString()}`);
+        console.log(`[CCR] Grants ${scopes.join(', ')} for ${opts.expires}. The code works once and expires in ${PAIRING_CODE_TTL_MS / 60_000} minutes.`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[CCR] ${message}`);
+        process.exit(1);
+      }
+    });
+
+  const tls = server
+    .command('tls')
+    .description('Manage the local CA and TLS certificates in ~/.ccr/certs');
+
+  tls
+    .command('ca', { isDefault: true })
+    .description('Show the local CA certificate to install on devices')
+    .action(async () => {
+      const { ensureLocalCa, getCaCertPath, getCaFingerprint } = await import('../server/tls.js');
+      try {
+        ensureLocalCa();
+      } catch (err) {
+        console.error(`[CCR] Failed to create the local CA: ${err instanceof Error ? err.message : String(err)}`);
+        process.exit(1);
+      }
+      console.log(`[CCR] CA certificate: ${getCaCertPath()}`);
+      console.log(`[CCR] SHA-256 fingerprint: ${getCaFingerprint()}`);
+    });
+
+  tls
+    .command('issue')
+    .description('Issue a new server certificate from the local CA (send SIGHUP to a running server to load it)')
+    .option('--san <names...>', 'Extra hostnames or IPs to include, saved to config (e.g. devbox.lan IP:10.0.0.5)')
+    .action(async (opts: { san?: string[] }) => {
+      const { loadServerConfig, saveServerConfig } = await import('../server/config.js');
+      const { issueServerCert, getDefaultSubjectAltNames } = await import('../server/tls.js');
+
+      const config = loadServerConfig();
+      if (opts.san) {
+        config.tlsSubjectAltNames = [...new Set([...config.tlsSubjectAltNames, ...opts.san])];
+        saveServerConfig(config);
+      }
+      if (!issueServerCert(getDefaultSubjectAltNames(config.tlsSubjectAltNames))) {
+        process.exit(1);
+      }
+    });
+
+  tls
+    .command('client <name>')
+    .description('Issue a client certificate that authenticates as the named token (mTLS)')
+    .option('-p, --password <password>', 'Password for the .p12 bundle (default: generated)')
+    .action(async (name: string, opts: { password?: string }) => {
+      const crypto = await import('node:crypto');
+      const { issueClientCert } = await import('../server/tls.js');
+      const { loadTokenRecords } = await import('../server/token-registry.js');
+
+      if (!/^[\w.-]+$/.test(name)) {
+        console.error('[CCR] Name may only contain letters, digits, ".", "_" and "-"');
+        process.exit(1);
+      }
+      if (!loadTokenRecords().some((r) => r.name === name)) {
+        console.error(`[CCR] No token named "${name}"; create it first with: ccr server token create -n ${name} -s <scopes>`);
+        process.exit(1);
+      }
+
+      const password = opts.password ?? crypto.randomBytes(9).toString('base64url');
+      try {
+        const files = issueClientCert(name, password);
+        console.log(`[CCR] Certificate: ${files.cert}`);
+        console.log(`[CCR] Key: ${files.key}`);
+        console.log(`[CCR] Bundle for browsers and phones: ${files.p12}`);
+        if (!opts.password) console.log(`[CCR] Bundle password: ${password}`);
+        console.log('[CCR] Set "tlsClientAuth" to "optional" or "required" in config to accept it.');
+      } catch (err) {
+        console.error(`[CCR] Failed to issue certificate: ${err instanceof Error ? err.message : String(err)}`);
+        process.exit(1);
+      }
+    });
+
+  const bans = server
+    .command('bans')
+    .description('Manage lockouts after failed authentication attempts');
+
+  bans
+    .command('list', { isDefault: true })
+    .description('List addresses with failed attempts or lockouts')
+    .action(async () => {
+      const { loadBans, isLocked } = await import('../server/auth-guard.js');
+      const records = loadBans();
+
+      if (records.length === 0) {
+        console.log('[CCR] No failed authentication attempts recorded');
+        return;
+      }
+
+      for (const record of records) {
+        const status = isLocked(record) ? `locked until ${record.lockedUntil}` : `last failure ${record.lastFailureAt}`;
+        console.log(`${record.address.padEnd(40)} ${String(record.failures).padStart(4)} failures  ${status}`);
+      }
+    });
+
+  bans
+    .command('clear [address]')
+    .description('Clear the lockout for an address, or all lockouts')
+    .action(async (address?: string) => {
+      const { clearBans } = await import('../server/auth-guard.js');
+      const removed = clearBans(address);
+
+      if (address && removed === 0) {
+        console.error(`[CCR] No record for ${address}`);
+        process.exit(1);
+      }
+      console.log(`[CCR] Cleared ${removed} record(s)`);
+    });
+
+  const workspaces = server
+    .command('workspaces')
+    .description('Manage the folders clients may start sessions in (workspaceRoots in config.json)');
+
+  workspaces
+    .command('list', { isDefault: true })
+    .description('List the workspace roots')
+    .action(async () => {
+      const { loadServerConfig } = await import('../server/config.js');
+      const { workspaceRoots } = loadServerConfig();
+
+      if (workspaceRoots.length === 0) {
+        console.log('[CCR] No workspace roots: sessions can only start in their own folder');
+        return;
+      }
+      for (const root of workspaceRoots) {
+        console.log(root);
+      }
+    });
+
+  workspaces
+    .command('add <dir>')
+    .description('Allow sessions to start in a folder or anywhere below it')
+    .action(async (dir: string) => {
+      const { loadServerConfig, saveServerConfig } = await import('../server/config.js');
+      const root = resolve(dir);
+      if (!existsSync(root) || !statSync(root).isDirectory()) {
+        console.error(`[CCR] ${root} is not a directory`);
+        process.exit(1);
+      }
+
+      const config = loadServerConfig();
+      if (!config.workspaceRoots.includes(root)) {
+        config.workspaceRoots.push(root);
+        saveServerConfig(config);
+      }
+      console.log(`[CCR] Sessions may now start in ${root} or below it`);
+    });
+
+  workspaces
+    .command('remove <dir>')
+    .description('Stop allowing sessions to start in a folder')
+    .action(async (dir: string) => {
+      const { loadServerConfig, saveServerConfig } = await import('../server/config.js');
+      const config = loadServerConfig();
+      const index = config.workspaceRoots.findIndex((root) => root === dir || root === resolve(dir));
+
+      if (index === -1) {
+        console.error(`[CCR] ${dir} is not a workspace root`);
+        process.exit(1);
+      }
+      const [removed] = config.workspaceRoots.splice(index, 1);
+      saveServerConfig(config);
+      console.log(`[CCR] Removed workspace root ${removed}`);
+    });
+
+  const token = server
     .command('token')
-    .description('Show or regenerate the access token')
+    .description('Manage access tokens');
+
+  token
+    .command('show', { isDefault: true })
+    .description('Show or regenerate the server access token')
     .option('-r, --regenerate', 'Generate a new token')
     .action(async (opts: { regenerate?: boolean }) => {
       const { loadServerConfig, saveToken } = await import('../server/config.js');
@@ -89,5 +330,91 @@ export function createServerCommand(): Command {
       }
     });
 
+  token
+    .command('create')
+    .description('Issue a named token with limited scopes')
+    .requiredOption('-n, --name <name>', 'Token name (e.g. phone)')
+    .requiredOption('-s, --scope <scopes...>', `Scopes to grant: ${TOKEN_SCOPES.join(', ')}`)
+    .option('-e, --expires <duration>', 'Lifetime such as 24h or 30d', JWT_EXPIRY)
+    .action(async (opts: { name: string; scope: string[]; expires: string }) => {
+      const { loadServerConfig } = await import('../server/config.js');
+      const { issueNamedToken, parseScopes } = await import('../server/auth.js');
+
+      try {
+        const scopes = parseScopes(opts.scope);
+        if (scopes.length === 0) {
+          throw new Error('At least one scope is required');
+        }
+
+        const config = loadServerConfig();
+        const { token: newToken, record } = issueNamedToken(config, { name: opts.name, scopes, expiresIn: opts.expires });
+
+        console.log(`[CCR] Token "${opts.name}" (${scopes.join(', ')}), expires ${new Date(record.expiresAt).toLocaleString()}:`);
+        console.log(newToken);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[CCR] ${message}`);
+        process.exit(1);
+      }
+    });
+
+  token
+    .command('list')
+    .description('List named tokens')
+    .action(async () => {
+      const { loadTokenRecords, isTokenRevoked } = await import('../server/token-registry.js');
+      const records = loadTokenRecords();
+
+      if (records.length === 0) {
+        console.log('[CCR] No named tokens');
+        return;
+      }
+
+      for (const record of records) {
+        const status = isTokenRevoked(record.id)
+          ? ' (revoked)'
+          : new Date(record.expiresAt).getTime() < Date.now() ? ' (expired)' : '';
+        console.log(
+          `${record.name.padEnd(16)} ${record.id}  ${record.scopes.join(',').padEnd(40)} expires ${record.expiresAt}${status}`,
+        );
+      }
+    });
+
+  token
+    .command('revoke <idOrName>')
+    .description('Revoke a token by name or id; a running server disconnects its clients')
+    .action(async (idOrName: string) => {
+      const { revokeToken } = await import('../server/token-registry.js');
+      const { loadToken } = await import('../server/config.js');
+      const { getTokenId } = await import('../server/auth.js');
+
+      try {
+        // The server's own token isn't in the registry
+        const serverToken = loadToken();
+        const serverTokenId = serverToken ? getTokenId(serverToken) : undefined;
+        const entry = revokeToken(idOrName, serverTokenId ? [serverTokenId] : []);
+        console.log(`[CCR] Revoked token ${entry.name ? `"${entry.name}" ` : ''}(${entry.id})`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[CCR] ${message}`);
+        process.exit(1);
+      }
+    });
+
+  token
+    .command('rotate')
+    .description('Replace the signing secret; existing tokens stay valid for the grace period')
+    .action(async () => {
+      const { loadServerConfig, rotateJwtSecret, saveToken } = await import('../server/config.js');
+      const { createAccessToken } = await import('../server/auth.js');
+
+      const config = rotateJwtSecret(loadServerConfig());
+      const newToken = createAccessToken(config);
+      saveToken(newToken);
+
+      console.log(`[CCR] Signing secret rotated. Tokens signed with the old secret stay valid for ${config.jwtRotationGraceHours}h.`);
+      console.log(`[CCR] New token: ${newToken}`);
+    });
+
   return server;
 }
@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+
+export function createSessionCommand(): Command {
+  const session = new Command('session')
+    .description('Inspect CCR sessions');
+
+  session
+    .command('export')
+    .description('Export a session recording in asciinema v2 (.cast) format')
+    .argument('<id>', 'Session ID')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .action(async (id: string, opts: { output?: string }) => {
+      const { hasRecording, readAsciicast } = await import('../server/recorder.js');
+
+      if (!hasRecording(id)) {
+        console.error(`[CCR] No recording found for session ${id}`);
+        process.exit(1);
+      }
+
+      const out = opts.output ? createWriteStream(opts.output) : process.stdout;
+      for await (const line of readAsciicast(id)) {
+        if (!out.write(line)) {
+          await once(out, 'drain');
+        }
+      }
+
+      if (opts.output) {
+        out.end();
+        await once(out, 'finish');
+        console.error(`[CCR] Recording written to ${opts.output}`);
+      }
+    });
+
+  return session;
+}
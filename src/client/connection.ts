@@ -15,12 +15,18 @@ import {
   SessionAction,
   type ErrorPayload,
   type SessionInfo,
+  type ClientRole,
+  type AuthOkPayload,
+  type SessionExitedPayload,
+  type OutputGapPayload,
+  type TokenScope,
 } from '../shared/types.js';
 import {
   RECONNECT_BASE_DELAY_MS,
   RECONNECT_MAX_DELAY_MS,
   RECONNECT_MAX_ATTEMPTS,
   HEARTBEAT_INTERVAL_MS,
+  ACCEPT_ENCODING_HEADER,
 } from '../shared/constants.js';
 
 export interface ConnectionOptions {
@@ -28,6 +34,10 @@ export interface ConnectionOptions {
   port: number;
   token: string;
   autoReconnect?: boolean;
+  /** Role to attach sessions with; defaults to 'controller' */
+  role?: ClientRole;
+  /** Launch profile for sessions created by this connection; defaults to the server's default */
+  profile?: string;
 }
 
 export class Connection extends EventEmitter {
@@ -39,6 +49,10 @@ export class Connection extends EventEmitter {
   private _connected = false;
   private _authenticated = false;
   private _lastSessionId: string | null = null;
+  /** Output stream offset just past the last byte received for _lastSessionId */
+  private _lastOffset: number | null = null;
+  private _profiles: string[] = [];
+  private _scopes: TokenScope[] = [];
 
   constructor(opts: ConnectionOptions) {
     super();
@@ -51,6 +65,8 @@ export class Connection extends EventEmitter {
     this.ws = new WebSocket(url, {
       headers: {
         'Authorization': `Bearer ${this.opts.token}`,
+        // SESSION_OUTPUT payloads may be deflated; decodeSessionOutput inflates them
+        [ACCEPT_ENCODING_HEADER]: 'deflate',
       },
     });
 
@@ -86,15 +102,19 @@ export class Connection extends EventEmitter {
       const msg = decodeMessage(buf);
 
       switch (msg.type) {
-        case MessageType.AUTH_OK:
+        case MessageType.AUTH_OK: {
+          const info = decodeJsonPayload<AuthOkPayload>(msg.payload);
           this._authenticated = true;
+          this._profiles = info.profiles ?? [];
+          this._scopes = info.scopes ?? [];
           this.emit('authenticated');
 
-          // If we had a previous session, try to reattach
+          // If we had a previous session, reattach and only fetch the output we missed
           if (this._lastSessionId) {
-            this.attachSession(this._lastSessionId);
+            this.sendAttach(this._lastSessionId, this._lastOffset ?? undefined);
           }
           break;
+        }
 
         case MessageType.TERMINAL_DATA:
           this.emit('data', msg.payload);
@@ -102,17 +122,33 @@ export class Connection extends EventEmitter {
 
         case MessageType.SESSION_OUTPUT: {
           const output = decodeSessionOutput(msg.payload);
+          this._lastSessionId = output.sessionId;
+          this._lastOffset = output.offset + output.data.length;
           this.emit('data', output.data);
           this.emit('session-output', output.sessionId, output.data);
           break;
         }
 
+        case MessageType.OUTPUT_GAP: {
+          // The missed output was evicted; a full screen snapshot follows as TERMINAL_DATA
+          const gap = decodeJsonPayload<OutputGapPayload>(msg.payload);
+          this._lastOffset = gap.offset;
+          this.emit('output-gap', gap);
+          break;
+        }
+
         case MessageType.SESSION_LIST: {
           const sessions = decodeJsonPayload<SessionInfo[]>(msg.payload);
           this.emit('sessions', sessions);
           break;
         }
 
+        case MessageType.SESSION_EXITED: {
+          const exited = decodeJsonPayload<SessionExitedPayload>(msg.payload);
+          this.emit('session-exited', exited);
+          break;
+        }
+
         case MessageType.ERROR: {
           const error = decodeJsonPayload<ErrorPayload>(msg.payload);
           this.emit('server-error', error);
@@ -143,25 +179,49 @@ export class Connection extends EventEmitter {
 
   createSession(name?: string, cwd?: string, cols?: number, rows?: number): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-    this.ws.send(encodeSessionControl(SessionAction.CREATE, undefined, { name, cwd, cols, rows }));
+    this.ws.send(encodeSessionControl(SessionAction.CREATE, undefined, {
+      name,
+      cwd,
+      cols,
+      rows,
+      role: this.opts.role,
+      profile: this.opts.profile,
+    }));
   }
 
   attachSession(sessionId: string): void {
+    // An explicit attach starts from a fresh screen snapshot
+    this.sendAttach(sessionId);
+  }
+
+  private sendAttach(sessionId: string, fromOffset?: number): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
     this._lastSessionId = sessionId;
-    this.ws.send(encodeSessionControl(SessionAction.ATTACH, sessionId));
+    this._lastOffset = fromOffset ?? null;
+    this.ws.send(encodeSessionControl(SessionAction.ATTACH, sessionId, { role: this.opts.role, fromOffset }));
   }
 
   detachSession(): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this._lastSessionId = null;
+    this._lastOffset = null;
     this.ws.send(encodeSessionControl(SessionAction.DETACH));
   }
 
   destroySession(sessionId: string): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    if (sessionId === this._lastSessionId) {
+      this._lastSessionId = null;
+      this._lastOffset = null;
+    }
     this.ws.send(encodeSessionControl(SessionAction.DESTROY, sessionId));
   }
 
+  restartSession(sessionId: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(encodeSessionControl(SessionAction.RESTART, sessionId));
+  }
+
   listSessions(): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
     this.ws.send(encodeSessionControl(SessionAction.LIST));
@@ -228,4 +288,19 @@ export class Connection extends EventEmitter {
   get authenticated(): boolean {
     return this._authenticated;
   }
+
+  /** Launch profile names advertised by the server on authentication. */
+  get profiles(): string[] {
+    return this._profiles;
+  }
+
+  /** Scopes granted to this connection's token. */
+  get scopes(): TokenScope[] {
+    return this._scopes;
+  }
+
+  /** False when the token has no terminal:input scope; the server attaches such clients as observers. */
+  get canSendInput(): boolean {
+    return this._scopes.includes('admin') || this._scopes.includes('terminal:input');
+  }
 }
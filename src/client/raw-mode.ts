@@ -1,12 +1,18 @@
 import { Connection } from './connection.js';
 import { RawSessionManager } from './raw-session-manager.js';
-import type { ErrorPayload, SessionInfo } from '../shared/types.js';
+import type { ErrorPayload, SessionInfo, SessionExitedPayload } from '../shared/types.js';
 
 export interface RawModeOptions {
   host: string;
   port: number;
   token: string;
   sessionId?: string;
+  /** Attach as a read-only observer */
+  observe?: boolean;
+  /** Launch profile for newly created sessions */
+  profile?: string;
+  /** Working directory on the server for newly created sessions */
+  cwd?: string;
 }
 
 /**
@@ -21,9 +27,11 @@ export function startRawMode(opts: RawModeOptions): void {
     port: opts.port,
     token: opts.token,
     autoReconnect: true,
+    role: opts.observe ? 'observer' : 'controller',
+    profile: opts.profile,
   });
 
-  const sessionMgr = new RawSessionManager(conn);
+  const sessionMgr = new RawSessionManager(conn, opts.cwd);
   let sessionAttached = false;
   let outputPaused = false;
   let outputBuffer: Buffer[] = [];
@@ -36,10 +44,17 @@ export function startRawMode(opts: RawModeOptions): void {
 
   conn.on('connected', () => {
     process.stderr.write('[CCR] Connected (Ctrl+B ? for help)\r\n');
+    if (opts.observe) {
+      process.stderr.write('[CCR] Observer mode: input is not forwarded\r\n');
+    }
   });
 
   conn.on('authenticated', () => {
     process.stderr.write('[CCR] Authenticated\r\n');
+    if (!opts.observe && !conn.canSendInput) {
+      opts.observe = true;
+      process.stderr.write('[CCR] Token has no terminal:input scope: input is not forwarded\r\n');
+    }
 
     if (opts.sessionId) {
       conn.attachSession(opts.sessionId);
@@ -53,7 +68,7 @@ export function startRawMode(opts: RawModeOptions): void {
     if (sessionAttached) return;
 
     if (sessions.length > 0 && !opts.sessionId) {
-      const target = sessions.find(s => !s.connected) ?? sessions[0];
+      const target = sessions.find(s => s.clients.length === 0) ?? sessions[0];
       process.stderr.write(`[CCR] Attaching to session: ${target.name} (${target.id})\r\n`);
       conn.attachSession(target.id);
       sessionMgr.currentSession = target.id;
@@ -62,7 +77,7 @@ export function startRawMode(opts: RawModeOptions): void {
       process.stderr.write('[CCR] No sessions found, creating new session...\r\n');
       const cols = process.stdout.columns || 80;
       const rows = process.stdout.rows || 24;
-      conn.createSession(undefined, undefined, cols, rows);
+      conn.createSession(undefined, opts.cwd, cols, rows);
       sessionAttached = true;
     }
   });
@@ -82,8 +97,24 @@ export function startRawMode(opts: RawModeOptions): void {
     }
   });
 
+  conn.on('session-exited', (exited: SessionExitedPayload) => {
+    if (exited.sessionId !== sessionMgr.currentSession) return;
+    if (exited.destroyed) {
+      sessionMgr.currentSession = null;
+      process.stderr.write('\r\n[CCR] Session was closed\r\n');
+      return;
+    }
+    const reason = exited.signal ? `signal ${exited.signal}` : `code ${exited.exitCode}`;
+    process.stderr.write(`\r\n[CCR] Session exited with ${reason} (Ctrl+B r to restart)\r\n`);
+  });
+
   conn.on('server-error', (err: ErrorPayload) => {
     process.stderr.write(`[CCR Error] ${err.code}: ${err.message}\r\n`);
+    // Reconnecting with a revoked token can never succeed
+    if (err.code === 'AUTH_REVOKED') {
+      cleanup();
+      process.exit(1);
+    }
   });
 
   conn.on('disconnected', () => {
@@ -108,18 +139,20 @@ export function startRawMode(opts: RawModeOptions): void {
   // Forward stdin through session manager (handles Ctrl+B prefix)
   process.stdin.on('data', (data: Buffer) => {
     const forwarded = sessionMgr.handleInput(data);
-    if (forwarded !== null) {
+    if (forwarded !== null && !opts.observe) {
       conn.sendInput(forwarded);
     }
   });
 
-  // Forward terminal resize
-  if (process.stdout.isTTY) {
+  // Forward terminal resize (observers follow the controller's size)
+  if (process.stdout.isTTY && !opts.observe) {
     process.stdout.on('resize', () => {
+      if (opts.observe) return;
       conn.sendResize(process.stdout.columns, process.stdout.rows);
     });
 
     conn.on('authenticated', () => {
+      if (opts.observe) return;
       conn.sendResize(process.stdout.columns, process.stdout.rows);
     });
   }
@@ -11,9 +11,12 @@ export class RawSessionManager {
   private sessions: SessionInfo[] = [];
   private currentSessionId: string | null = null;
   private prefixTimeout: ReturnType<typeof setTimeout> | null = null;
+  /** Working directory on the server for sessions created with Ctrl+B c */
+  private cwd: string | undefined;
 
-  constructor(conn: Connection) {
+  constructor(conn: Connection, cwd?: string) {
     this.conn = conn;
+    this.cwd = cwd;
 
     this.conn.on('sessions', (sessions: SessionInfo[]) => {
       this.sessions = sessions;
@@ -109,6 +112,10 @@ export class RawSessionManager {
         this.detachSession();
         return null;
 
+      case 'r': // Restart
+        this.restartSession();
+        return null;
+
       case '?': // Help
         this.showHelp();
         return null;
@@ -147,9 +154,9 @@ export class RawSessionManager {
       return;
     }
 
-    // Enter to select first unconnected
+    // Enter to select first session with no attached clients
     if (key === 0x0d) { // Enter
-      const target = this.sessions.find(s => !s.connected) ?? this.sessions[0];
+      const target = this.sessions.find(s => s.clients.length === 0) ?? this.sessions[0];
       if (target) {
         this.state = 'normal';
         this.switchToSession(target.id);
@@ -162,7 +169,7 @@ export class RawSessionManager {
     const cols = process.stdout.columns || 80;
     const rows = process.stdout.rows || 24;
     process.stderr.write('\r\n[CCR] Creating new session...\r\n');
-    this.conn.createSession(undefined, undefined, cols, rows);
+    this.conn.createSession(undefined, this.cwd, cols, rows);
   }
 
   private switchSession(direction: number): void {
@@ -206,13 +213,23 @@ export class RawSessionManager {
     this.currentSessionId = null;
   }
 
+  private restartSession(): void {
+    if (!this.currentSessionId) {
+      this.showStatus('No session attached');
+      return;
+    }
+    process.stderr.write('\r\n[CCR] Restarting session...\r\n');
+    this.conn.restartSession(this.currentSessionId);
+  }
+
   private showSessionList(): void {
     this.state = 'list';
     process.stderr.write('\r\n[CCR] Sessions:\r\n');
     this.sessions.forEach((s, i) => {
       const active = s.id === this.currentSessionId ? '>' : ' ';
-      const status = s.connected ? '*' : ' ';
-      process.stderr.write(`  ${active}${i} ${status} ${s.name} (${s.id})\r\n`);
+      const status = s.exited ? 'x' : (s.clients.length > 0 ? '*' : ' ');
+      const clients = s.clients.length > 1 ? ` [${s.clients.length} clients]` : '';
+      process.stderr.write(`  ${active}${i} ${status} ${s.name} (${s.id})${clients}\r\n`);
     });
     process.stderr.write('[CCR] Press 0-9 to select, q/ESC to cancel\r\n');
   }
@@ -224,6 +241,7 @@ export class RawSessionManager {
     process.stderr.write('  p   Previous session\r\n');
     process.stderr.write('  l   List sessions\r\n');
     process.stderr.write('  d   Detach session\r\n');
+    process.stderr.write('  r   Restart session\r\n');
     process.stderr.write('  0-9 Switch to session #\r\n');
     process.stderr.write('  ?   Show this help\r\n');
   }
@@ -0,0 +1,219 @@
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  closeSync,
+  readdirSync,
+  statSync,
+  type WriteStream,
+} from 'node:fs';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { getConfigDir } from './config.js';
+import { AUDIT_DIR } from '../shared/constants.js';
+import type { AuditEntry } from '../shared/types.js';
+import type { TokenPayload } from './auth.js';
+
+const AUDIT_FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/** Who performed an action: the token (if one was verified) and where it came from */
+export interface AuditActor {
+  token?: Pick<TokenPayload, 'sub' | 'jti'> | null;
+  remoteAddress: string;
+}
+
+export type AuditEvent = Pick<AuditEntry, 'action' | 'sessionId' | 'target' | 'detail'> & {
+  /** Defaults to 'success' */
+  outcome?: AuditEntry['outcome'];
+};
+
+export interface AuditFilter {
+  since?: Date;
+  sessionId?: string;
+  action?: string;
+}
+
+export function getAuditDir(): string {
+  return join(getConfigDir(), AUDIT_DIR);
+}
+
+function getAuditPath(day: string): string {
+  return join(getAuditDir(), `audit-${day}.jsonl`);
+}
+
+/**
+ * Audit files, oldest first, with the UTC day each one covers.
+ */
+function listAuditFiles(): { day: string; path: string }[] {
+  const dir = getAuditDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((name) => ({ name, match: name.match(AUDIT_FILE_PATTERN) }))
+    .filter((f) => f.match)
+    .map((f) => ({ day: f.match![1], path: join(dir, f.name) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.since && Date.parse(entry.timestamp) < filter.since.getTime()) return false;
+  if (filter.sessionId && entry.sessionId !== filter.sessionId) return false;
+  if (filter.action && entry.action !== filter.action && !entry.action.startsWith(`${filter.action}.`)) return false;
+  return true;
+}
+
+function parseEntry(line: string): AuditEntry | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line) as AuditEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Appends security-relevant actions to ~/.ccr/audit/audit-YYYY-MM-DD.jsonl, one JSON
+ * object per line, starting a new file at each UTC midnight. Entries are never rewritten.
+ */
+export class AuditLog {
+  private stream: WriteStream | null = null;
+  private day = '';
+
+  record(actor: AuditActor, event: AuditEvent): void {
+    const timestamp = new Date().toISOString();
+    const entry: AuditEntry = {
+      timestamp,
+      action: event.action,
+      tokenName: actor.token?.sub,
+      tokenId: actor.token?.jti,
+      remoteAddress: actor.remoteAddress,
+      sessionId: event.sessionId,
+      target: event.target,
+      outcome: event.outcome ?? 'success',
+      detail: event.detail,
+    };
+    this.getStream(timestamp.slice(0, 10)).write(JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * Resolves once the entries written so far are flushed to disk.
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) return Promise.resolve();
+    return new Promise((resolve) => stream.end(() => resolve()));
+  }
+
+  private getStream(day: string): WriteStream {
+    if (this.stream && day === this.day) return this.stream;
+
+    this.stream?.end();
+    mkdirSync(getAuditDir(), { recursive: true, mode: 0o700 });
+    this.day = day;
+    this.stream = createWriteStream(getAuditPath(day), { flags: 'a', mode: 0o600 });
+    this.stream.on('error', (err) => {
+      console.error(`[CCR Server] Audit log write failed: ${err.message}`);
+    });
+    return this.stream;
+  }
+}
+
+/**
+ * Streams matching entries, oldest first. Files from days before `since` are skipped unread.
+ */
+export async function* readAuditEntries(filter: AuditFilter = {}): AsyncGenerator<AuditEntry> {
+  const sinceDay = filter.since?.toISOString().slice(0, 10);
+
+  for (const file of listAuditFiles()) {
+    if (sinceDay && file.day < sinceDay) continue;
+
+    const lines = createInterface({
+      input: createReadStream(file.path, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      const entry = parseEntry(line);
+      if (entry && matchesFilter(entry, filter)) {
+        yield entry;
+      }
+    }
+  }
+}
+
+/**
+ * The last `count` matching entries, oldest first. Reads daily files newest first and
+ * stops as soon as enough entries have been found.
+ */
+export async function readRecentAuditEntries(count: number, filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const recent: AuditEntry[] = [];
+  if (count <= 0) return recent;
+
+  for (const file of listAuditFiles().reverse()) {
+    const fromFile: AuditEntry[] = [];
+    const lines = createInterface({
+      input: createReadStream(file.path, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      const entry = parseEntry(line);
+      if (entry && matchesFilter(entry, filter)) {
+        fromFile.push(entry);
+        if (fromFile.length > count) fromFile.shift();
+      }
+    }
+
+    recent.unshift(...fromFile.slice(-(count - recent.length)));
+    if (recent.length >= count) break;
+  }
+  return recent;
+}
+
+/**
+ * Polls the current day's file and calls onEntry for each matching entry appended after
+ * the call, following into the next file at midnight. Returns a function that stops following.
+ */
+export function followAuditEntries(
+  filter: AuditFilter,
+  onEntry: (entry: AuditEntry) => void,
+  intervalMs = 1000,
+): () => void {
+  let day = new Date().toISOString().slice(0, 10);
+  let position = existsSync(getAuditPath(day)) ? statSync(getAuditPath(day)).size : 0;
+  let partial = '';
+
+  const poll = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== day) {
+      day = today;
+      position = 0;
+      partial = '';
+    }
+
+    const path = getAuditPath(day);
+    if (!existsSync(path)) return;
+    const size = statSync(path).size;
+    if (size <= position) return;
+
+    const buf = Buffer.alloc(size - position);
+    const fd = openSync(path, 'r');
+    try {
+      readSync(fd, buf, 0, buf.length, position);
+    } finally {
+      closeSync(fd);
+    }
+    position = size;
+
+    const lines = (partial + buf.toString('utf-8')).split('\n');
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      const entry = parseEntry(line);
+      if (entry && matchesFilter(entry, filter)) onEntry(entry);
+    }
+  };
+
+  const timer = setInterval(poll, intervalMs);
+  return () => clearInterval(timer);
+}
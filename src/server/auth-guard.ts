@@ -0,0 +1,167 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ensureConfigDir, getConfigDir } from './config.js';
+import { logger } from './logger.js';
+import {
+  BANS_FILE_NAME,
+  AUTH_MAX_FAILURES,
+  AUTH_LOCKOUT_BASE_MS,
+  AUTH_LOCKOUT_MAX_MS,
+  AUTH_FAILURE_WINDOW_MS,
+} from '../shared/constants.js';
+
+/**
+ * Failed authentication attempts from one remote address, persisted so
+ * lockouts survive restarts and `ccr server bans` can see them.
+ */
+export interface BanRecord {
+  address: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string;
+}
+
+/** How a failed attempt presented its credentials, for the log */
+export type AuthMethod = 'header' | 'query' | 'cookie' | 'message' | 'http' | 'pair' | 'login';
+
+/**
+ * Folds IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) into plain IPv4, so a client
+ * is tracked under one address whichever way the socket reports it.
+ */
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') ? address.slice(7) : address;
+}
+
+export function getBansPath(): string {
+  return join(getConfigDir(), BANS_FILE_NAME);
+}
+
+export function loadBans(): BanRecord[] {
+  const bansPath = getBansPath();
+  if (!existsSync(bansPath)) return [];
+  return JSON.parse(readFileSync(bansPath, 'utf-8')) as BanRecord[];
+}
+
+function saveBans(records: BanRecord[]): void {
+  ensureConfigDir();
+  writeFileSync(getBansPath(), JSON.stringify(records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Removes the record for one address, or every record. Returns how many were removed.
+ */
+export function clearBans(address?: string): number {
+  const records = loadBans();
+  const kept = address ? records.filter((r) => r.address !== normalizeAddress(address)) : [];
+  saveBans(kept);
+  return records.length - kept.length;
+}
+
+export function isLocked(record: BanRecord, now = Date.now()): boolean {
+  return record.lockedUntil !== undefined && Date.parse(record.lockedUntil) > now;
+}
+
+/**
+ * Counts failed authentication attempts per remote address. After AUTH_MAX_FAILURES
+ * the address is locked out, for twice as long with each further failure.
+ */
+export class AuthGuard {
+  private records = new Map<string, BanRecord>();
+
+  constructor() {
+    this.reload();
+  }
+
+  /**
+   * Milliseconds until the address may try again, or 0 if it isn't locked out.
+   */
+  getLockout(address: string): number {
+    const record = this.records.get(normalizeAddress(address));
+    if (!record?.lockedUntil) return 0;
+    return Math.max(0, Date.parse(record.lockedUntil) - Date.now());
+  }
+
+  recordFailure(remoteAddress: string, method: AuthMethod): void {
+    const address = normalizeAddress(remoteAddress);
+    const now = Date.now();
+    let record = this.records.get(address);
+    if (!record || this.isStale(record, now)) {
+      record = { address, failures: 0, lastFailureAt: '' };
+      this.records.set(address, record);
+    }
+
+    record.failures++;
+    record.lastFailureAt = new Date(now).toISOString();
+
+    let lockMs = 0;
+    if (record.failures >= AUTH_MAX_FAILURES) {
+      lockMs = Math.min(AUTH_LOCKOUT_BASE_MS * 2 ** (record.failures - AUTH_MAX_FAILURES), AUTH_LOCKOUT_MAX_MS);
+      record.lockedUntil = new Date(now + lockMs).toISOString();
+    }
+
+    logger.warn('Authentication failed', {
+      address,
+      method,
+      failures: record.failures,
+      ...(lockMs > 0 ? { lockedForMs: lockMs } : {}),
+    });
+    this.persist();
+  }
+
+  recordSuccess(address: string): void {
+    if (this.records.delete(normalizeAddress(address))) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Re-reads the bans file, e.g. after `ccr server bans clear`.
+   */
+  reload(): void {
+    let records: BanRecord[];
+    try {
+      records = loadBans();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error('Failed to load bans', { error: message });
+      return;
+    }
+    this.records = new Map(records.map((r) => [r.address, r]));
+  }
+
+  /**
+   * Forgets addresses whose failures have aged out.
+   */
+  cleanup(): void {
+    const now = Date.now();
+    let removed = false;
+    for (const [address, record] of this.records) {
+      if (this.isStale(record, now)) {
+        this.records.delete(address);
+        removed = true;
+      }
+    }
+    if (removed) this.persist();
+  }
+
+  /**
+   * Failures are forgotten AUTH_FAILURE_WINDOW_MS after the last one, or after the
+   * lockout ends if that is later, so repeat offenders keep escalating.
+   */
+  private isStale(record: BanRecord, now: number): boolean {
+    const lastActivity = Math.max(
+      Date.parse(record.lastFailureAt),
+      record.lockedUntil ? Date.parse(record.lockedUntil) : 0,
+    );
+    return now - lastActivity > AUTH_FAILURE_WINDOW_MS;
+  }
+
+  private persist(): void {
+    try {
+      saveBans([...this.records.values()]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error('Failed to save bans', { error: message });
+    }
+  }
+}
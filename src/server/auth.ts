@@ -1,32 +1,178 @@
 import jwt from 'jsonwebtoken';
-import { JWT_EXPIRY } from '../shared/constants.js';
-import type { ServerConfig } from '../shared/types.js';
+import crypto from 'node:crypto';
+import { JWT_EXPIRY, TOKEN_SCOPES } from '../shared/constants.js';
+import type { ServerConfig, TokenScope } from '../shared/types.js';
+import { addTokenRecord, isTokenRevoked, type TokenRecord } from './token-registry.js';
 
 export interface TokenPayload {
   sub: string;
+  /** Granted scopes; tokens minted before scopes existed have none and are treated as admin */
+  scopes?: TokenScope[];
+  /** Unique token id used for revocation; missing on tokens minted before it was added */
+  jti?: string;
   iat: number;
   exp: number;
 }
 
-export function createAccessToken(config: ServerConfig): string {
+export interface AccessTokenOptions {
+  /** Token name, stored as the JWT subject; defaults to 'ccr-client' */
+  name?: string;
+  /** Defaults to ['admin'] */
+  scopes?: TokenScope[];
+  /** jsonwebtoken duration such as '24h' or '30d'; defaults to JWT_EXPIRY */
+  expiresIn?: string;
+}
+
+/**
+ * Short identifier of a signing secret, sent as the JWT `kid` header so tokens
+ * signed before a rotation can be matched to the retired secret.
+ */
+export function getKeyId(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 12);
+}
+
+export function createAccessToken(config: ServerConfig, opts: AccessTokenOptions = {}): string {
   return jwt.sign(
-    { sub: 'ccr-client' },
+    { sub: opts.name ?? 'ccr-client', scopes: opts.scopes ?? ['admin'] },
     config.jwtSecret,
-    { expiresIn: JWT_EXPIRY, algorithm: 'HS256' }
+    {
+      expiresIn: opts.expiresIn ?? JWT_EXPIRY,
+      algorithm: 'HS256',
+      jwtid: crypto.randomUUID(),
+      keyid: getKeyId(config.jwtSecret),
+    } as jwt.SignOptions
   );
 }
 
+/**
+ * Picks the secret a token was signed with. Tokens without a kid predate rotation
+ * and are checked against the current secret; retired secrets only count within the grace period.
+ */
+function findVerificationSecret(kid: string | undefined, config: ServerConfig): string | null {
+  if (!kid || kid === getKeyId(config.jwtSecret)) return config.jwtSecret;
+
+  const graceMs = config.jwtRotationGraceHours * 60 * 60 * 1000;
+  const retired = config.previousJwtSecrets.find((s) => getKeyId(s.secret) === kid);
+  if (!retired || Date.now() - Date.parse(retired.retiredAt) >= graceMs) return null;
+  return retired.secret;
+}
+
+/**
+ * Why a token was turned away. 'invalid' covers malformed tokens and bad signatures, the
+ * ones worth counting as guesses; the others were genuine once.
+ */
+export type TokenRejection = 'invalid' | 'expired' | 'revoked';
+
+/**
+ * verifyAccessToken that says why a token was rejected. A token signed with a secret
+ * retired past its grace period counts as expired.
+ */
+export function checkAccessToken(
+  token: string,
+  config: ServerConfig,
+): { payload: TokenPayload } | { rejection: TokenRejection } {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload !== 'object') return { rejection: 'invalid' };
+
+  const kid = decoded.header.kid;
+  const secret = findVerificationSecret(kid, config);
+  if (!secret) {
+    // Only a genuine signature makes it an expired token rather than a forged one
+    const retired = config.previousJwtSecrets.find((s) => getKeyId(s.secret) === kid);
+    if (!retired) return { rejection: 'invalid' };
+    try {
+      jwt.verify(token, retired.secret, { algorithms: ['HS256'], ignoreExpiration: true });
+      return { rejection: 'expired' };
+    } catch {
+      return { rejection: 'invalid' };
+    }
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = jwt.verify(token, secret, { algorithms: ['HS256'] }) as TokenPayload;
+  } catch (err) {
+    // jsonwebtoken checks the signature before the expiry
+    return { rejection: err instanceof jwt.TokenExpiredError ? 'expired' : 'invalid' };
+  }
+  if (payload.jti && isTokenRevoked(payload.jti)) return { rejection: 'revoked' };
+  return { payload };
+}
+
 export function verifyAccessToken(token: string, config: ServerConfig): TokenPayload | null {
+  const result = checkAccessToken(token, config);
+  return 'payload' in result ? result.payload : null;
+}
+
+/**
+ * Throws unless jsonwebtoken accepts the duration as a token lifetime, e.g. '24h' or '30d'.
+ */
+export function assertTokenLifetime(expiresIn: string): void {
   try {
-    const payload = jwt.verify(token, config.jwtSecret, {
-      algorithms: ['HS256'],
-    }) as TokenPayload;
-    return payload;
+    jwt.sign({}, 'lifetime-check', { expiresIn } as jwt.SignOptions);
   } catch {
-    return null;
+    throw new Error(`Invalid token lifetime: ${expiresIn} (expected a duration such as 24h or 30d)`);
   }
 }
 
+/**
+ * Mints a named token and adds it to the registry so it can be listed and revoked.
+ */
+export function issueNamedToken(
+  config: ServerConfig,
+  opts: AccessTokenOptions & { name: string; scopes: TokenScope[] },
+): { token: string; record: TokenRecord } {
+  const token = createAccessToken(config, opts);
+  const payload = jwt.decode(token) as TokenPayload;
+  const record: TokenRecord = {
+    id: payload.jti!,
+    name: opts.name,
+    scopes: opts.scopes,
+    createdAt: new Date(payload.iat * 1000).toISOString(),
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+  addTokenRecord(record);
+  return { token, record };
+}
+
+/**
+ * The id (jti) of a token, read without verifying it.
+ */
+export function getTokenId(token: string): string | undefined {
+  const payload = jwt.decode(token);
+  return payload && typeof payload === 'object' ? payload.jti : undefined;
+}
+
 export function createSimpleToken(config: ServerConfig): string {
   return createAccessToken(config);
 }
+
+/**
+ * Validates scope names (e.g. from the CLI), throwing on unknown ones.
+ */
+export function parseScopes(values: string[]): TokenScope[] {
+  const scopes = new Set<TokenScope>();
+  for (const value of values.flatMap((v) => v.split(','))) {
+    const scope = value.trim();
+    if (!scope) continue;
+    if (!(TOKEN_SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(`Unknown scope: ${scope} (expected one of ${TOKEN_SCOPES.join(', ')})`);
+    }
+    scopes.add(scope as TokenScope);
+  }
+  return [...scopes];
+}
+
+export function getTokenScopes(payload: TokenPayload): TokenScope[] {
+  return payload.scopes ?? ['admin'];
+}
+
+/**
+ * True if the token grants the scope, directly or through 'admin' or the matching ':write' scope.
+ */
+export function hasScope(payload: TokenPayload | null, scope: TokenScope): boolean {
+  if (!payload) return false;
+  const granted = getTokenScopes(payload);
+  if (granted.includes('admin') || granted.includes(scope)) return true;
+  return scope.endsWith(':read') && granted.includes(scope.replace(':read', ':write') as TokenScope);
+}
@@ -1,5 +1,5 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from 'node:fs';
-import { homedir } from 'node:os';
+import { homedir, platform } from 'node:os';
 import { join } from 'node:path';
 import crypto from 'node:crypto';
 import {
@@ -9,14 +9,35 @@ import {
   PID_FILE_NAME,
   DEFAULT_PORT,
   DEFAULT_HOST,
+  DEFAULT_PROFILE_NAME,
+  DEFAULT_OUTPUT_COALESCE_MS,
+  DEFAULT_OUTPUT_COALESCE_MAX_BYTES,
+  DEFAULT_JWT_ROTATION_GRACE_HOURS,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_TRANSFER_SIZE,
+  DEFAULT_FILE_DENY_GLOBS,
 } from '../shared/constants.js';
-import type { ServerConfig } from '../shared/types.js';
+import type { ServerConfig, LaunchProfile } from '../shared/types.js';
 
-function getConfigDir(): string {
+function getDefaultProfiles(): Record<string, LaunchProfile> {
+  const shell = platform() === 'win32'
+    ? 'powershell.exe'
+    : process.env.SHELL ?? 'bash';
+
+  return {
+    // No command: resolved to the claude binary by findClaudePath()
+    [DEFAULT_PROFILE_NAME]: {},
+    'claude-continue': { args: ['--continue'] },
+    'claude-resume': { args: ['--resume'] },
+    shell: { command: shell },
+  };
+}
+
+export function getConfigDir(): string {
   return join(homedir(), CONFIG_DIR_NAME);
 }
 
-function ensureConfigDir(): string {
+export function ensureConfigDir(): string {
   const dir = getConfigDir();
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -35,6 +56,28 @@ export function loadServerConfig(): ServerConfig {
       port: parsed.port ?? DEFAULT_PORT,
       host: parsed.host ?? DEFAULT_HOST,
       jwtSecret: parsed.jwtSecret ?? generateSecret(),
+      previousJwtSecrets: parsed.previousJwtSecrets ?? [],
+      jwtRotationGraceHours: parsed.jwtRotationGraceHours ?? DEFAULT_JWT_ROTATION_GRACE_HOURS,
+      profiles: parsed.profiles ?? getDefaultProfiles(),
+      defaultProfile: parsed.defaultProfile ?? DEFAULT_PROFILE_NAME,
+      recordSessions: parsed.recordSessions ?? false,
+      outputCoalesceMs: parsed.outputCoalesceMs ?? DEFAULT_OUTPUT_COALESCE_MS,
+      outputCoalesceMaxBytes: parsed.outputCoalesceMaxBytes ?? DEFAULT_OUTPUT_COALESCE_MAX_BYTES,
+      perMessageDeflate: parsed.perMessageDeflate ?? true,
+      payloadCompression: parsed.payloadCompression ?? true,
+      allowedOrigins: parsed.allowedOrigins ?? [],
+      allowQueryTokenAuth: parsed.allowQueryTokenAuth ?? false,
+      tlsCertPath: parsed.tlsCertPath,
+      tlsKeyPath: parsed.tlsKeyPath,
+      tlsSubjectAltNames: parsed.tlsSubjectAltNames ?? [],
+      tlsClientAuth: parsed.tlsClientAuth ?? 'off',
+      filePolicy: {
+        deny: parsed.filePolicy?.deny ?? [...DEFAULT_FILE_DENY_GLOBS],
+        readOnly: parsed.filePolicy?.readOnly ?? [],
+        maxFileSize: parsed.filePolicy?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+        maxTransferSize: parsed.filePolicy?.maxTransferSize ?? DEFAULT_MAX_TRANSFER_SIZE,
+      },
+      workspaceRoots: parsed.workspaceRoots ?? [],
     };
   }
 
@@ -42,6 +85,26 @@ export function loadServerConfig(): ServerConfig {
     port: DEFAULT_PORT,
     host: DEFAULT_HOST,
     jwtSecret: generateSecret(),
+    previousJwtSecrets: [],
+    jwtRotationGraceHours: DEFAULT_JWT_ROTATION_GRACE_HOURS,
+    profiles: getDefaultProfiles(),
+    defaultProfile: DEFAULT_PROFILE_NAME,
+    recordSessions: false,
+    outputCoalesceMs: DEFAULT_OUTPUT_COALESCE_MS,
+    outputCoalesceMaxBytes: DEFAULT_OUTPUT_COALESCE_MAX_BYTES,
+    perMessageDeflate: true,
+    payloadCompression: true,
+    allowedOrigins: [],
+    allowQueryTokenAuth: false,
+    tlsSubjectAltNames: [],
+    tlsClientAuth: 'off',
+    filePolicy: {
+      deny: [...DEFAULT_FILE_DENY_GLOBS],
+      readOnly: [],
+      maxFileSize: DEFAULT_MAX_FILE_SIZE,
+      maxTransferSize: DEFAULT_MAX_TRANSFER_SIZE,
+    },
+    workspaceRoots: [],
   };
   saveServerConfig(config);
   return config;
@@ -53,6 +116,26 @@ export function saveServerConfig(config: ServerConfig): void {
   writeFileSync(configPath, JSON.stringify(config, null, 2), 'utf-8');
 }
 
+export function getConfigPath(): string {
+  return join(getConfigDir(), CONFIG_FILE_NAME);
+}
+
+/**
+ * Replaces the JWT signing secret. The old secret is kept so its tokens remain valid
+ * for the grace period; secrets whose grace period has passed are dropped.
+ */
+export function rotateJwtSecret(config: ServerConfig): ServerConfig {
+  const now = Date.now();
+  const graceMs = config.jwtRotationGraceHours * 60 * 60 * 1000;
+  const previous = config.previousJwtSecrets
+    .filter((s) => now - Date.parse(s.retiredAt) < graceMs);
+  previous.push({ secret: config.jwtSecret, retiredAt: new Date(now).toISOString() });
+
+  const rotated: ServerConfig = { ...config, jwtSecret: generateSecret(), previousJwtSecrets: previous };
+  saveServerConfig(rotated);
+  return rotated;
+}
+
 function generateSecret(): string {
   return crypto.randomBytes(32).toString('hex');
 }
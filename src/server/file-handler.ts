@@ -1,6 +1,29 @@
-import { readdirSync, readFileSync, writeFileSync, statSync, mkdirSync } from 'node:fs';
-import { join, resolve, extname, dirname } from 'node:path';
-import type { FileEntry } from '../shared/types.js';
+import {
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+  statSync,
+  lstatSync,
+  mkdirSync,
+  existsSync,
+  realpathSync,
+  rmSync,
+  renameSync,
+  cpSync,
+} from 'node:fs';
+import { readdir, realpath, stat } from 'node:fs/promises';
+import { join, resolve, relative, extname, dirname, basename, sep } from 'node:path';
+import crypto from 'node:crypto';
+import { FileAccessError, mergeFilePolicy, isDenied, isReadOnly } from './file-policy.js';
+import { merge3 } from './merge.js';
+import type { FileEntry, FilePolicy, FileStatPayload, FileConflictDetails } from '../shared/types.js';
+import {
+  FILE_VERSION_CACHE_BYTES,
+  FILE_LIST_PAGE_SIZE,
+  FILE_LIST_MAX_DEPTH,
+  FILE_LIST_MAX_ENTRIES,
+  FILE_WATCH_IGNORED_NAMES,
+} from '../shared/constants.js';
 
 const LANGUAGE_MAP: Record<string, string> = {
   '.ts': 'typescript',
@@ -41,75 +64,527 @@ const LANGUAGE_MAP: Record<string, string> = {
   '.cs': 'csharp',
 };
 
+export interface FileHandlerOptions {
+  /** The directory a session's file operations are confined to: its working directory */
+  getRoot: (sessionId: string) => string | undefined;
+  policy: FilePolicy;
+  /** Extra policy for a session, from the launch profile it was created with */
+  sessionPolicy?: (sessionId: string) => Partial<FilePolicy> | undefined;
+}
+
+export interface WriteOptions {
+  /** Version the edit was based on; the write fails with FILE_CONFLICT if the file has moved on */
+  ifMatch?: string;
+  /** Include a three-way merge in the FILE_CONFLICT details */
+  merge?: boolean;
+}
+
+export interface ListOptions {
+  /** Levels to descend; 1 lists only the directory's own entries */
+  depth?: number;
+  /** Index of the first entry to return */
+  offset?: number;
+  /** Entries to return, capped by FILE_LIST_PAGE_SIZE */
+  limit?: number;
+}
+
+export interface FileListing {
+  files: FileEntry[];
+  offset: number;
+  /** Entries in the whole listing */
+  total: number;
+  /** The listing stopped at FILE_LIST_MAX_ENTRIES */
+  truncated: boolean;
+}
+
+interface ResolvedPath {
+  /** The session directory, after resolving symlinks */
+  root: string;
+  fullPath: string;
+  /** Path relative to the session root with '/' separators, after resolving symlinks */
+  relativePath: string;
+  /** The same as requested, before resolving symlinks */
+  requestedRelativePath: string;
+  policy: FilePolicy;
+}
+
+interface ResolvedEntry extends ResolvedPath {
+  /**
+   * The path itself with only its parent directories resolved, so deleting or renaming
+   * a symlink acts on the link rather than on what it points to
+   */
+  entryPath: string;
+  entryRelativePath: string;
+}
+
 export class FileHandler {
-  private sessionsDir: string;
+  private getRoot: (sessionId: string) => string | undefined;
+  private policy: FilePolicy;
+  private sessionPolicy?: (sessionId: string) => Partial<FilePolicy> | undefined;
+  /**
+   * Contents recently read or written, by session, path and etag, so a conflicting write
+   * can be merged against the version it started from. Oldest first; capped at
+   * FILE_VERSION_CACHE_BYTES.
+   */
+  private versions = new Map<string, string>();
+  private versionBytes = 0;
 
-  constructor(sessionsDir: string) {
-    this.sessionsDir = resolve(sessionsDir);
+  constructor(opts: FileHandlerOptions) {
+    this.getRoot = opts.getRoot;
+    this.policy = opts.policy;
+    this.sessionPolicy = opts.sessionPolicy;
   }
 
   /**
-   * Resolve a path within a session directory, preventing path traversal.
+   * Resolve a path within a session's working directory. Symlinks are resolved with realpath, so
+   * neither '..' nor a link can reach outside the root, and the deny list is checked
+   * against both the requested and the resolved path.
    */
-  private resolvePath(sessionId: string, relativePath: string): string {
-    const sessionDir = resolve(this.sessionsDir, sessionId);
-    const fullPath = resolve(sessionDir, relativePath);
+  private resolvePath(sessionId: string, requestedPath: string): ResolvedPath {
+    const policy = mergeFilePolicy(this.policy, this.sessionPolicy?.(sessionId));
+    const sessionRoot = this.getRoot(sessionId);
+    if (!sessionRoot) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const root = realpathSync(sessionRoot);
+
+    const requested = resolve(root, requestedPath);
+    if (!isWithin(root, requested)) {
+      throw new FileAccessError('PATH_OUTSIDE_ROOT', `${requestedPath} is outside the session's working directory`);
+    }
+    const fullPath = realpathAllowMissing(requested);
+    if (!isWithin(root, fullPath)) {
+      throw new FileAccessError('PATH_OUTSIDE_ROOT', `${requestedPath} links outside the session's working directory`);
+    }
+
+    const relativePath = toPolicyPath(relative(root, fullPath));
+    const requestedRelativePath = toPolicyPath(relative(root, requested));
+    for (const candidate of new Set([requestedRelativePath, relativePath])) {
+      if (candidate && isDenied(policy, candidate)) {
+        throw new FileAccessError('FILE_DENIED', `Access to ${requestedPath} is denied by policy`);
+      }
+    }
+
+    return { root, fullPath, relativePath, requestedRelativePath, policy };
+  }
 
-    // Prevent path traversal
-    if (!fullPath.startsWith(sessionDir)) {
-      throw new Error('Path traversal detected: access denied');
+  /**
+   * resolvePath for operations that change the directory entry itself. The session root
+   * can't be the target.
+   */
+  private resolveEntry(sessionId: string, requestedPath: string): ResolvedEntry {
+    const resolved = this.resolvePath(sessionId, requestedPath);
+    const requested = resolve(resolved.root, requestedPath);
+    const entryPath = join(realpathAllowMissing(dirname(requested)), basename(requested));
+    const entryRelativePath = toPolicyPath(relative(resolved.root, entryPath));
+
+    if (!entryRelativePath || !isWithin(resolved.root, entryPath)) {
+      throw new FileAccessError('FILE_DENIED', "The session's working directory itself can't be changed");
+    }
+    return { ...resolved, entryPath, entryRelativePath };
+  }
+
+  /**
+   * Throws unless the entry, and everything below it if it is a directory, may be removed
+   * from where it is.
+   */
+  private assertRemovable(entry: ResolvedEntry): void {
+    if (isAnyReadOnly(entry.policy, [entry.requestedRelativePath, entry.entryRelativePath, entry.relativePath])) {
+      throw new FileAccessError('FILE_READ_ONLY', `${entry.entryRelativePath} is read-only`);
     }
+    if (!lstatSync(entry.entryPath).isDirectory()) return;
 
+    walkTree(entry.entryPath, (fullPath) => {
+      const rel = toPolicyPath(relative(entry.root, fullPath));
+      if (isDenied(entry.policy, rel)) {
+        throw new FileAccessError('FILE_DENIED', `${entry.entryRelativePath} contains a path denied by policy`);
+      }
+      const below = toPolicyPath(relative(entry.entryPath, fullPath));
+      if (isAnyReadOnly(entry.policy, [rel, `${entry.requestedRelativePath}/${below}`])) {
+        throw new FileAccessError('FILE_READ_ONLY', `${entry.entryRelativePath} contains read-only ${rel}`);
+      }
+    });
+  }
+
+  /**
+   * Throws unless a file or directory tree may be created at dest. `source` is the
+   * directory being moved or copied there, if any; each entry below it is checked at
+   * the path it would end up at.
+   */
+  private assertCreatable(dest: ResolvedEntry, overwrite: boolean, source?: string): void {
+    if (isAnyReadOnly(dest.policy, [dest.requestedRelativePath, dest.entryRelativePath, dest.relativePath])) {
+      throw new FileAccessError('FILE_READ_ONLY', `${dest.entryRelativePath} is read-only`);
+    }
+    if (!overwrite && existsSync(dest.entryPath)) {
+      throw new FileAccessError('FILE_EXISTS', `${dest.entryRelativePath} already exists`);
+    }
+    if (!source || !statSync(source).isDirectory()) return;
+
+    walkTree(source, (fullPath) => {
+      // Denied entries are left behind by copyPath
+      if (isDenied(dest.policy, toPolicyPath(relative(dest.root, fullPath)))) return false;
+      const below = toPolicyPath(relative(source, fullPath));
+      const rel = `${dest.entryRelativePath}/${below}`;
+      if (isDenied(dest.policy, rel)) {
+        throw new FileAccessError('FILE_DENIED', `${rel} would be denied by policy`);
+      }
+      if (isAnyReadOnly(dest.policy, [rel, `${dest.requestedRelativePath}/${below}`])) {
+        throw new FileAccessError('FILE_READ_ONLY', `${rel} is read-only`);
+      }
+    });
+  }
+
+  /**
+   * Resolves a directory to watch. Returns its real path and its path relative to the
+   * session root ('' for the root).
+   */
+  resolveDirectory(sessionId: string, relativePath: string): { fullPath: string; relativePath: string } {
+    const resolved = this.resolvePath(sessionId, relativePath);
+    if (!statSync(resolved.fullPath).isDirectory()) {
+      throw new Error(`${relativePath} is not a directory`);
+    }
+    return { fullPath: resolved.fullPath, relativePath: resolved.relativePath };
+  }
+
+  /**
+   * Resolves a file to send with a chunked transfer. Unlike readFile, any size is allowed.
+   */
+  resolveDownload(sessionId: string, relativePath: string): string {
+    const { fullPath } = this.resolvePath(sessionId, relativePath);
+    if (!statSync(fullPath).isFile()) {
+      throw new Error(`${relativePath} is not a file`);
+    }
     return fullPath;
   }
 
-  private getSessionDir(sessionId: string): string {
-    return resolve(this.sessionsDir, sessionId);
+  /**
+   * Checks that a file of the given size may be uploaded to relativePath and returns
+   * where to put it. Missing parent directories are created.
+   */
+  resolveUpload(sessionId: string, relativePath: string, size: number, overwrite: boolean): string {
+    const entry = this.resolveEntry(sessionId, relativePath);
+    this.assertCreatable(entry, overwrite);
+    if (size > entry.policy.maxTransferSize) {
+      throw new FileAccessError('FILE_TOO_LARGE', `File too large (max ${formatSize(entry.policy.maxTransferSize)})`);
+    }
+    if (existsSync(entry.entryPath) && statSync(entry.entryPath).isDirectory()) {
+      throw new Error(`${relativePath} is a directory`);
+    }
+
+    mkdirSync(dirname(entry.entryPath), { recursive: true });
+    return entry.entryPath;
   }
 
-  listFiles(sessionId: string, relativePath: string = '.'): FileEntry[] {
-    const dirPath = this.resolvePath(sessionId, relativePath);
-    const entries = readdirSync(dirPath, { withFileTypes: true });
+  /**
+   * Whether a path relative to the session root may be shown to clients at all.
+   */
+  isVisible(sessionId: string, relativePath: string): boolean {
+    const policy = mergeFilePolicy(this.policy, this.sessionPolicy?.(sessionId));
+    return !isDenied(policy, relativePath);
+  }
+
+  /**
+   * Lists a directory, down to `depth` levels, and returns one page of the flattened
+   * listing. Dot files, denied paths, broken symlinks and links leading outside the root
+   * are left out. Symlinked directories and FILE_WATCH_IGNORED_NAMES are listed but not
+   * descended into.
+   */
+  async listFiles(sessionId: string, relativePath: string = '.', opts: ListOptions = {}): Promise<FileListing> {
+    const { root, fullPath: dirPath, relativePath: dirRelative, policy } = this.resolvePath(sessionId, relativePath);
+    // The options come from clients: anything but a finite number gets the default
+    const depth = Math.min(Math.max(Number.isFinite(opts.depth) ? Math.floor(opts.depth!) : 1, 1), FILE_LIST_MAX_DEPTH);
+    const offset = Math.max(Number.isFinite(opts.offset) ? Math.floor(opts.offset!) : 0, 0);
+    const limit = Math.min(
+      Math.max(Number.isFinite(opts.limit) ? Math.floor(opts.limit!) : FILE_LIST_PAGE_SIZE, 1),
+      FILE_LIST_PAGE_SIZE,
+    );
 
-    return entries
-      .filter(e => !e.name.startsWith('.'))
-      .map(entry => {
-        const stat = statSync(join(dirPath, entry.name));
-        return {
-          name: entry.name,
-          type: entry.isDirectory() ? 'directory' as const : 'file' as const,
-          size: stat.size,
-        };
-      })
-      .sort((a, b) => {
-        // Directories first, then alphabetical
-        if (a.type !== b.type) return a.type === 'directory' ? -1 : 1;
-        return a.name.localeCompare(b.name);
-      });
+    const files: FileEntry[] = [];
+    let total = 0;
+    let truncated = false;
+    const visit = async (fullDir: string, relativeDir: string, listedDir: string, level: number): Promise<void> => {
+      for (const { entry, descend } of await readEntries(root, fullDir, relativeDir, policy)) {
+        if (total >= FILE_LIST_MAX_ENTRIES) {
+          truncated = true;
+          return;
+        }
+        const listedPath = listedDir ? `${listedDir}/${entry.name}` : entry.name;
+        if (total >= offset && files.length < limit) {
+          files.push(depth > 1 ? { ...entry, path: listedPath } : entry);
+        }
+        total++;
+
+        if (descend && level < depth) {
+          const childRelative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+          await visit(join(fullDir, entry.name), childRelative, listedPath, level + 1);
+        }
+      }
+    };
+    await visit(dirPath, dirRelative, '', 1);
+
+    return { files, offset, total, truncated };
   }
 
-  readFile(sessionId: string, relativePath: string): { content: string; language: string } {
-    const filePath = this.resolvePath(sessionId, relativePath);
+  readFile(sessionId: string, relativePath: string): { content: string; language: string; etag: string } {
+    const { fullPath: filePath, relativePath: policyPath, policy } = this.resolvePath(sessionId, relativePath);
     const stat = statSync(filePath);
 
-    // Limit file size to 5MB
-    if (stat.size > 5 * 1024 * 1024) {
-      throw new Error('File too large (max 5MB)');
+    if (stat.size > policy.maxFileSize) {
+      throw new FileAccessError('FILE_TOO_LARGE', `File too large (max ${formatSize(policy.maxFileSize)})`);
     }
 
-    const content = readFileSync(filePath, 'utf-8');
+    const data = readFileSync(filePath);
+    const content = data.toString('utf-8');
+    const etag = computeEtag(data);
     const ext = extname(filePath).toLowerCase();
     const language = LANGUAGE_MAP[ext] ?? 'plaintext';
 
-    return { content, language };
+    this.rememberVersion(sessionId, policyPath, etag, content);
+    return { content, language, etag };
   }
 
-  writeFile(sessionId: string, relativePath: string, content: string): void {
-    const filePath = this.resolvePath(sessionId, relativePath);
+  /**
+   * Writes a text file and returns its new etag. With ifMatch, the write only happens if
+   * the file is still at that version (or still missing, for an ifMatch of '').
+   */
+  writeFile(sessionId: string, relativePath: string, content: string, opts: WriteOptions = {}): string {
+    const { fullPath: filePath, relativePath: policyPath, requestedRelativePath, policy } = this.resolvePath(sessionId, relativePath);
+
+    if (isAnyReadOnly(policy, [requestedRelativePath, policyPath])) {
+      throw new FileAccessError('FILE_READ_ONLY', `${relativePath} is read-only`);
+    }
+    if (Buffer.byteLength(content, 'utf-8') > policy.maxFileSize) {
+      throw new FileAccessError('FILE_TOO_LARGE', `File too large (max ${formatSize(policy.maxFileSize)})`);
+    }
+    if (opts.ifMatch !== undefined) {
+      this.assertVersion(sessionId, relativePath, filePath, policyPath, content, opts);
+    }
 
     // Ensure parent directory exists
     mkdirSync(dirname(filePath), { recursive: true });
 
     writeFileSync(filePath, content, 'utf-8');
+    const etag = computeEtag(Buffer.from(content, 'utf-8'));
+    this.rememberVersion(sessionId, policyPath, etag, content);
+    return etag;
+  }
+
+  /**
+   * Throws FILE_CONFLICT, with the current content, unless the file is at opts.ifMatch.
+   */
+  private assertVersion(
+    sessionId: string,
+    relativePath: string,
+    filePath: string,
+    policyPath: string,
+    content: string,
+    opts: WriteOptions,
+  ): void {
+    const data = existsSync(filePath) ? readFileSync(filePath) : null;
+    const etag = data ? computeEtag(data) : '';
+    if (etag === opts.ifMatch) return;
+
+    const current = data ? data.toString('utf-8') : '';
+    const details: FileConflictDetails = { path: relativePath, etag, content: current };
+    const base = this.versions.get(versionKey(sessionId, policyPath, opts.ifMatch!));
+    if (opts.merge && data && base !== undefined) {
+      details.merge = merge3(base, content, current, { ours: 'your changes', theirs: 'on disk' });
+    }
+    this.rememberVersion(sessionId, policyPath, etag, current);
+    throw new FileAccessError('FILE_CONFLICT', `${relativePath} has changed since it was read`, details);
+  }
+
+  private rememberVersion(sessionId: string, policyPath: string, etag: string, content: string): void {
+    const size = content.length;
+    if (size > FILE_VERSION_CACHE_BYTES / 4) return;
+    const key = versionKey(sessionId, policyPath, etag);
+    const existing = this.versions.get(key);
+    if (existing !== undefined) {
+      // Move to the newest end
+      this.versions.delete(key);
+      this.versionBytes -= existing.length;
+    }
+    this.versions.set(key, content);
+    this.versionBytes += size;
+
+    for (const [oldKey, oldContent] of this.versions) {
+      if (this.versionBytes <= FILE_VERSION_CACHE_BYTES) break;
+      this.versions.delete(oldKey);
+      this.versionBytes -= oldContent.length;
+    }
+  }
+
+  /**
+   * Deletes a file, symlink or empty directory; non-empty directories need `recursive`.
+   */
+  deletePath(sessionId: string, relativePath: string, recursive = false): void {
+    const entry = this.resolveEntry(sessionId, relativePath);
+    this.assertRemovable(entry);
+
+    if (lstatSync(entry.entryPath).isDirectory()) {
+      if (!recursive && readdirSync(entry.entryPath).length > 0) {
+        throw new Error(`${relativePath} is not empty`);
+      }
+      rmSync(entry.entryPath, { recursive: true });
+    } else {
+      rmSync(entry.entryPath);
+    }
+  }
+
+  /**
+   * Renames or moves a file or directory, creating missing parent directories of newPath.
+   */
+  renamePath(sessionId: string, relativePath: string, newPath: string, overwrite = false): void {
+    const source = this.resolveEntry(sessionId, relativePath);
+    const dest = this.resolveEntry(sessionId, newPath);
+    this.assertRemovable(source);
+    this.assertCreatable(dest, overwrite, lstatSync(source.entryPath).isDirectory() ? source.entryPath : undefined);
+
+    mkdirSync(dirname(dest.entryPath), { recursive: true });
+    renameSync(source.entryPath, dest.entryPath);
+  }
+
+  /**
+   * Creates a directory; with `recursive`, missing parents are created too and an
+   * existing directory is not an error, like mkdir -p.
+   */
+  makeDirectory(sessionId: string, relativePath: string, recursive = false): void {
+    const entry = this.resolveEntry(sessionId, relativePath);
+    this.assertCreatable(entry, recursive);
+    mkdirSync(entry.entryPath, { recursive });
   }
+
+  /**
+   * Copies a file or directory tree. Entries the policy denies are left out of the copy.
+   */
+  copyPath(sessionId: string, relativePath: string, newPath: string, overwrite = false): void {
+    const source = this.resolvePath(sessionId, relativePath);
+    const dest = this.resolveEntry(sessionId, newPath);
+    this.assertCreatable(dest, overwrite, source.fullPath);
+
+    mkdirSync(dirname(dest.entryPath), { recursive: true });
+    cpSync(source.fullPath, dest.entryPath, {
+      recursive: true,
+      force: overwrite,
+      errorOnExist: !overwrite,
+      filter: (src) => !isDenied(source.policy, toPolicyPath(relative(source.root, src))),
+    });
+  }
+
+  stat(sessionId: string, relativePath: string): FileStatPayload {
+    const { fullPath, relativePath: policyPath, requestedRelativePath, policy } = this.resolvePath(sessionId, relativePath);
+    const stat = statSync(fullPath);
+    return {
+      path: relativePath,
+      type: stat.isDirectory() ? 'directory' : 'file',
+      size: stat.size,
+      mtime: stat.mtime.toISOString(),
+      mode: stat.mode & 0o7777,
+      readOnly: isAnyReadOnly(policy, [requestedRelativePath, policyPath]),
+    };
+  }
+}
+
+/**
+ * Calls visit for every entry below dir, without following symlinks. Returning false
+ * from visit skips a directory's contents.
+ */
+function walkTree(dir: string, visit: (fullPath: string) => boolean | void): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name);
+    if (visit(fullPath) === false) continue;
+    if (entry.isDirectory()) walkTree(fullPath, visit);
+  }
+}
+
+/**
+ * The visible entries of one directory, directories first, each with whether a recursive
+ * listing may descend into it.
+ */
+async function readEntries(
+  root: string,
+  fullDir: string,
+  relativeDir: string,
+  policy: FilePolicy,
+): Promise<{ entry: FileEntry; descend: boolean }[]> {
+  const dirents = (await readdir(fullDir, { withFileTypes: true }))
+    .filter(e => !e.name.startsWith('.'))
+    .filter(e => !isDenied(policy, relativeDir ? `${relativeDir}/${e.name}` : e.name));
+
+  const entries = await Promise.all(dirents.map(async (dirent) => {
+    // Hide broken symlinks and links that lead outside the root or to a denied path
+    let realPath;
+    let stats;
+    try {
+      realPath = await realpath(join(fullDir, dirent.name));
+      stats = await stat(realPath);
+    } catch {
+      return null;
+    }
+    if (!isWithin(root, realPath) || isDenied(policy, toPolicyPath(relative(root, realPath)))) {
+      return null;
+    }
+    const type = stats.isDirectory() ? 'directory' as const : 'file' as const;
+    return {
+      entry: { name: dirent.name, type, size: stats.size },
+      descend: type === 'directory' && !dirent.isSymbolicLink() && !FILE_WATCH_IGNORED_NAMES.includes(dirent.name),
+    };
+  }));
+
+  return entries
+    .filter((e): e is NonNullable<typeof e> => e !== null)
+    .sort((a, b) => {
+      // Directories first, then alphabetical
+      if (a.entry.type !== b.entry.type) return a.entry.type === 'directory' ? -1 : 1;
+      return a.entry.name.localeCompare(b.entry.name);
+    });
+}
+
+/**
+ * Version identifier of a file's content, compared against FILE_WRITE's ifMatch.
+ */
+function computeEtag(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex').slice(0, 32);
+}
+
+function versionKey(sessionId: string, policyPath: string, etag: string): string {
+  return `${sessionId}\0${policyPath}\0${etag}`;
+}
+
+/**
+ * isReadOnly for several spellings of one path, e.g. as requested and after resolving
+ * symlinks, so a link can't be used to write around a read-only rule.
+ */
+function isAnyReadOnly(policy: FilePolicy, paths: string[]): boolean {
+  return paths.some((path) => path !== '' && isReadOnly(policy, path));
+}
+
+function isWithin(root: string, fullPath: string): boolean {
+  return fullPath === root || fullPath.startsWith(root + sep);
+}
+
+function toPolicyPath(relativePath: string): string {
+  return relativePath.split(sep).join('/');
+}
+
+/**
+ * realpath for paths that may not exist yet (a file about to be written): resolves the
+ * nearest existing ancestor and appends the rest.
+ */
+function realpathAllowMissing(fullPath: string): string {
+  const missing: string[] = [];
+  let current = fullPath;
+  while (!existsSync(current)) {
+    const parent = dirname(current);
+    if (parent === current) break;
+    missing.unshift(basename(current));
+    current = parent;
+  }
+  return join(realpathSync(current), ...missing);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round(bytes / (1024 * 1024))}MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${bytes} bytes`;
 }
@@ -0,0 +1,173 @@
+import type { FileHandler } from './file-handler.js';
+import { fuzzyHasMatch, fuzzyScore, fuzzyPositions } from './fuzzy.js';
+import { walkWorkspace } from './workspace-walk.js';
+import type { FileFindResultsPayload } from '../shared/types.js';
+import {
+  FILE_INDEX_MAX_FILES,
+  FILE_INDEX_MAX_AGE_MS,
+  FILE_INDEX_IDLE_MS,
+  FILE_FIND_MAX_RESULTS,
+} from '../shared/constants.js';
+
+export interface FileIndexOptions {
+  fileHandler: FileHandler;
+}
+
+interface SessionIndex {
+  /** Paths relative to the session root, in walk order */
+  files: string[];
+  /** The same paths in lower case, for the match prefilter */
+  lowerFiles: string[];
+  truncated: boolean;
+  builtAt: number;
+  lastUsed: number;
+  /** Paths were added or removed since the last scan started */
+  dirty: boolean;
+  scan: Promise<void> | null;
+}
+
+interface RankedFile {
+  path: string;
+  score: number;
+}
+
+/**
+ * Per-session list of file paths for quick-open lookups, built lazily on the first
+ * query. Files are picked by walkWorkspace, so .gitignore is honoured. invalidate() makes
+ * the next query rescan first; an index that is merely old is answered from as it is
+ * and rescanned in the background.
+ */
+export class FileIndex {
+  private indexes = new Map<string, SessionIndex>();
+  private opts: FileIndexOptions;
+
+  constructor(opts: FileIndexOptions) {
+    this.opts = opts;
+  }
+
+  /**
+   * Ranks the session's files against a fuzzy query, best first. Rejects if the session
+   * is gone.
+   */
+  async find(sessionId: string, query: string, limit = FILE_FIND_MAX_RESULTS): Promise<FileFindResultsPayload> {
+    const index = await this.get(sessionId);
+    const needle = query.replace(/\s+/g, '');
+    const lowerNeedle = needle.toLowerCase();
+    // A client-supplied limit that isn't a finite number gets the default
+    const count = Math.max(1, Math.min(Number.isFinite(limit) ? Math.floor(limit) : FILE_FIND_MAX_RESULTS, FILE_FIND_MAX_RESULTS));
+
+    // The best `count` so far, kept sorted
+    const best: RankedFile[] = [];
+    let total = 0;
+    for (let i = 0; i < index.files.length; i++) {
+      if (!fuzzyHasMatch(lowerNeedle, index.lowerFiles[i])) continue;
+      total++;
+      const path = index.files[i];
+      const ranked = { path, score: needle ? fuzzyScore(needle, path) : 0 };
+      if (best.length === count && compareRanked(ranked, best[count - 1]) >= 0) continue;
+
+      let at = best.length;
+      while (at > 0 && compareRanked(ranked, best[at - 1]) < 0) at--;
+      best.splice(at, 0, ranked);
+      if (best.length > count) best.pop();
+    }
+
+    return {
+      query,
+      results: best.map(({ path, score }) => ({
+        path,
+        score,
+        positions: needle ? fuzzyPositions(needle, path) : [],
+      })),
+      total,
+      indexed: index.files.length,
+      truncated: index.truncated || undefined,
+    };
+  }
+
+  /**
+   * Marks a session's index out of date, e.g. after files were created, deleted or
+   * renamed. The next find() rescans before answering.
+   */
+  invalidate(sessionId: string): void {
+    const index = this.indexes.get(sessionId);
+    if (index) index.dirty = true;
+  }
+
+  /**
+   * Drops the indexes of sessions that no longer exist and of ones nobody has queried for
+   * FILE_INDEX_IDLE_MS. Returns how many were dropped.
+   */
+  prune(sessionExists: (sessionId: string) => boolean): number {
+    const now = Date.now();
+    let dropped = 0;
+    for (const [sessionId, index] of this.indexes) {
+      if (!sessionExists(sessionId) || now - index.lastUsed > FILE_INDEX_IDLE_MS) {
+        this.indexes.delete(sessionId);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  private async get(sessionId: string): Promise<SessionIndex> {
+    let index = this.indexes.get(sessionId);
+    if (!index) {
+      index = { files: [], lowerFiles: [], truncated: false, builtAt: 0, lastUsed: 0, dirty: true, scan: null };
+      this.indexes.set(sessionId, index);
+    }
+    index.lastUsed = Date.now();
+
+    // A change during a running scan may have been missed, so wait for a second one too
+    for (let attempt = 0; attempt < 2 && index.dirty; attempt++) {
+      await this.rescan(sessionId, index);
+    }
+    if (Date.now() - index.builtAt > FILE_INDEX_MAX_AGE_MS) {
+      this.rescan(sessionId, index).catch((err: unknown) => {
+        console.error(`[CCR Server] Indexing session ${sessionId} failed: ${err instanceof Error ? err.message : err}`);
+      });
+    }
+    return index;
+  }
+
+  /**
+   * Starts a scan unless one is already running, and returns it.
+   */
+  private rescan(sessionId: string, index: SessionIndex): Promise<void> {
+    if (index.scan) return index.scan;
+    index.dirty = false;
+    index.scan = this.scan(sessionId)
+      .then(({ files, truncated }) => {
+        index.files = files;
+        index.lowerFiles = files.map((path) => path.toLowerCase());
+        index.truncated = truncated;
+        index.builtAt = Date.now();
+      }, (err: unknown) => {
+        index.dirty = true;
+        throw err;
+      })
+      .finally(() => {
+        index.scan = null;
+      });
+    return index.scan;
+  }
+
+  private async scan(sessionId: string): Promise<{ files: string[]; truncated: boolean }> {
+    const dir = this.opts.fileHandler.resolveDirectory(sessionId, '.');
+    const files: string[] = [];
+    for await (const file of walkWorkspace(this.opts.fileHandler, sessionId, dir.fullPath, dir.relativePath)) {
+      if (files.length >= FILE_INDEX_MAX_FILES) return { files, truncated: true };
+      files.push(file.relativePath);
+    }
+    return { files, truncated: false };
+  }
+}
+
+/**
+ * Higher score first, then the shorter path, then alphabetical.
+ */
+function compareRanked(a: RankedFile, b: RankedFile): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.path.length !== b.path.length) return a.path.length - b.path.length;
+  return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+}
@@ -0,0 +1,121 @@
+import type { FilePolicy } from '../shared/types.js';
+
+export type FileAccessErrorCode =
+  | 'PATH_OUTSIDE_ROOT'
+  | 'FILE_DENIED'
+  | 'FILE_READ_ONLY'
+  | 'FILE_TOO_LARGE'
+  | 'FILE_EXISTS'
+  | 'FILE_CONFLICT';
+
+/**
+ * A file operation refused by policy or by the handler itself rather than by the
+ * filesystem. The code (and details, if any) are sent to the client in place of the
+ * generic FILE_ERROR.
+ */
+export class FileAccessError extends Error {
+  constructor(readonly code: FileAccessErrorCode, message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'FileAccessError';
+  }
+}
+
+const globCache = new Map<string, RegExp>();
+
+// The default filesystems on macOS and Windows ignore case, so '*.pem' must catch 'KEY.PEM'
+const IGNORE_CASE = process.platform === 'darwin' || process.platform === 'win32';
+
+/**
+ * Translates a glob into a RegExp over '/'-separated relative paths.
+ * '**' matches any number of path segments (including none), '*' and '?' stay within
+ * one segment, and {a,b} matches either alternative.
+ */
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '/' && glob.slice(i) === '/**') {
+      // 'dir/**' also matches 'dir' itself, so the directory can't be listed either
+      re += '(?:/.*)?';
+      break;
+    }
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' may match nothing; a trailing '**' matches everything below
+        if (glob[i + 2] === '/') {
+          re += '(?:.*/)?';
+          i += 2;
+        } else {
+          re += '.*';
+          i += 1;
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else if (ch === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        re += '\\{';
+      } else {
+        const alternatives = glob.slice(i + 1, end).split(',').map((a) => a.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+        re += `(?:${alternatives.join('|')})`;
+        i = end;
+      }
+    } else {
+      re += ch.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`, IGNORE_CASE ? 'i' : '');
+}
+
+/**
+ * Matches a workspace-relative path against a glob. Globs without a '/' match the file
+ * name at any depth, so '*.pem' behaves like '**\/*.pem'. Case is ignored on macOS and
+ * Windows.
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`;
+  let re = globCache.get(pattern);
+  if (!re) {
+    re = globToRegExp(pattern);
+    globCache.set(pattern, re);
+  }
+  return re.test(relativePath);
+}
+
+/**
+ * Layers a launch profile's policy over the server's: globs from both apply, and the
+ * profile's size limits replace the server's.
+ */
+export function mergeFilePolicy(base: FilePolicy, override?: Partial<FilePolicy>): FilePolicy {
+  if (!override) return base;
+  return {
+    deny: [...base.deny, ...(override.deny ?? [])],
+    readOnly: [...base.readOnly, ...(override.readOnly ?? [])],
+    maxFileSize: override.maxFileSize ?? base.maxFileSize,
+    maxTransferSize: override.maxTransferSize ?? base.maxTransferSize,
+  };
+}
+
+/**
+ * Whether a glob matches the path or a directory above it: as in .gitignore, a rule
+ * that matches a directory covers everything in it.
+ */
+function matchesAny(relativePath: string, globs: string[]): boolean {
+  if (globs.length === 0) return false;
+  for (let end = relativePath.length; end > 0; end = relativePath.lastIndexOf('/', end - 1)) {
+    const path = relativePath.slice(0, end);
+    if (globs.some((glob) => matchesGlob(path, glob))) return true;
+  }
+  return false;
+}
+
+export function isDenied(policy: FilePolicy, relativePath: string): boolean {
+  return matchesAny(relativePath, policy.deny);
+}
+
+export function isReadOnly(policy: FilePolicy, relativePath: string): boolean {
+  return matchesAny(relativePath, policy.readOnly);
+}
@@ -0,0 +1,427 @@
+import crypto from 'node:crypto';
+import { createReadStream, openSync, closeSync, readSync, writeSync, fstatSync, statSync, renameSync, rmSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { WebSocket } from 'ws';
+import {
+  encodeTransferReady,
+  encodeTransferChunk,
+  encodeTransferComplete,
+  encodeTransferCancel,
+  encodeError,
+} from '../shared/protocol.js';
+import type { TransferDirection } from '../shared/types.js';
+import {
+  TRANSFER_CHUNK_SIZE,
+  TRANSFER_IDLE_TIMEOUT_MS,
+  MAX_TRANSFERS_PER_CLIENT,
+  OUTPUT_HIGH_WATER_MARK,
+  OUTPUT_DRAIN_CHECK_INTERVAL_MS,
+} from '../shared/constants.js';
+
+export type TransferErrorCode =
+  | 'TRANSFER_NOT_FOUND'
+  | 'TRANSFER_LIMIT'
+  | 'TRANSFER_STALE'
+  | 'TRANSFER_OFFSET_MISMATCH'
+  | 'TRANSFER_INCOMPLETE'
+  | 'TRANSFER_CHECKSUM_MISMATCH';
+
+export class TransferError extends Error {
+  constructor(readonly code: TransferErrorCode, message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+interface Transfer {
+  id: string;
+  direction: TransferDirection;
+  /** Id of the token that started the transfer; only it may resume or cancel it */
+  owner: string;
+  sessionId: string;
+  /** Path as requested, relative to the session root */
+  path: string;
+  /** Download: the file being sent. Upload: where the file goes once complete */
+  fullPath: string;
+  /** Upload: the partial file, see uploadTempPath() */
+  tempPath?: string;
+  size: number;
+  /** Download: next byte to send. Upload: bytes received so far */
+  offset: number;
+  /** Download: the file's mtime when the transfer started, to detect changes before a resume */
+  mtimeMs?: number;
+  fd: number;
+  /** Socket currently driving the transfer; null while waiting for a resume */
+  ws: WebSocket | null;
+  pumping: boolean;
+  lastActivity: number;
+  /**
+   * Download: checksum, once every chunk has been queued. The transfer is kept until the
+   * client acknowledges TRANSFER_COMPLETE, since queued chunks may never have arrived.
+   */
+  sha256?: string;
+}
+
+export interface TransferSummary {
+  direction: TransferDirection;
+  sessionId: string;
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface FileTransferManagerOptions {
+  /** Called when a transfer finishes, for the audit log */
+  onFinished?: (ws: WebSocket, summary: TransferSummary) => void;
+}
+
+/**
+ * Hex SHA-256 of a file, read as a stream so large files don't need to fit in memory.
+ */
+export async function sha256File(path: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Where an upload to fullPath is written until it completes. It sits next to the
+ * destination so finishing the upload is a rename, never a copy across filesystems.
+ */
+export function uploadTempPath(fullPath: string, id: string): string {
+  return join(dirname(fullPath), `.${basename(fullPath)}.ccr-upload-${id.slice(0, 8)}`);
+}
+
+/**
+ * Moves files of any size over the WebSocket in raw binary TRANSFER_CHUNK frames.
+ *
+ * Downloads are pushed by the server as fast as the socket drains; uploads are written
+ * in order to a temporary file that replaces the destination once every byte has arrived
+ * and the checksum matches. A transfer outlives the socket that started it, so after a
+ * reconnect the client can resume it with TRANSFER_START and its transferId until it
+ * has been idle for TRANSFER_IDLE_TIMEOUT_MS. That includes a download whose chunks have
+ * all been sent, until the client acknowledges its TRANSFER_COMPLETE.
+ */
+export class FileTransferManager {
+  private transfers = new Map<string, Transfer>();
+  private opts: FileTransferManagerOptions;
+
+  constructor(opts: FileTransferManagerOptions = {}) {
+    this.opts = opts;
+  }
+
+  startDownload(ws: WebSocket, owner: string, sessionId: string, path: string, fullPath: string): void {
+    this.checkLimit(owner);
+    const fd = openSync(fullPath, 'r');
+    const stat = fstatSync(fd);
+    const transfer = this.add({
+      direction: 'download',
+      owner,
+      sessionId,
+      path,
+      fullPath,
+      size: stat.size,
+      offset: 0,
+      mtimeMs: stat.mtimeMs,
+      fd,
+      ws,
+    });
+    this.sendReady(transfer);
+    this.pump(transfer);
+  }
+
+  startUpload(ws: WebSocket, owner: string, sessionId: string, path: string, fullPath: string, size: number): void {
+    this.checkLimit(owner);
+    const id = crypto.randomUUID();
+    const tempPath = uploadTempPath(fullPath, id);
+    const fd = openSync(tempPath, 'w', 0o600);
+    const transfer = this.add({
+      id,
+      direction: 'upload',
+      owner,
+      sessionId,
+      path,
+      fullPath,
+      tempPath,
+      size,
+      offset: 0,
+      fd,
+      ws,
+    });
+    this.sendReady(transfer);
+  }
+
+  /**
+   * Picks a transfer up on a new socket. A download continues from `offset` (the bytes
+   * the client already has); an upload tells the client where to continue from.
+   */
+  resume(ws: WebSocket, owner: string, transferId: string, offset?: number): void {
+    const transfer = this.get(owner, transferId);
+
+    if (transfer.direction === 'download') {
+      const stat = statSync(transfer.fullPath);
+      if (stat.size !== transfer.size || stat.mtimeMs !== transfer.mtimeMs) {
+        this.abort(transfer, ws);
+        throw new TransferError('TRANSFER_STALE', `${transfer.path} changed since the download started`);
+      }
+      const from = offset ?? transfer.offset;
+      if (!Number.isInteger(from) || from < 0 || from > transfer.size) {
+        throw new TransferError('TRANSFER_OFFSET_MISMATCH', `Offset must be between 0 and ${transfer.size}`);
+      }
+      transfer.offset = from;
+    }
+
+    transfer.ws = ws;
+    transfer.lastActivity = Date.now();
+    this.sendReady(transfer);
+    if (transfer.direction === 'download') this.pump(transfer);
+  }
+
+  receiveChunk(ws: WebSocket, owner: string, transferId: string, offset: number, data: Buffer): void {
+    const transfer = this.get(owner, transferId);
+    if (transfer.direction !== 'upload') {
+      throw new TransferError('TRANSFER_NOT_FOUND', `Transfer ${transferId} is not an upload`);
+    }
+    if (offset !== transfer.offset) {
+      throw new TransferError('TRANSFER_OFFSET_MISMATCH', `Expected a chunk at offset ${transfer.offset}, got ${offset}`);
+    }
+    if (offset + data.length > transfer.size) {
+      throw new TransferError('TRANSFER_OFFSET_MISMATCH', `Chunk runs past the declared size of ${transfer.size} bytes`);
+    }
+
+    writeSync(transfer.fd, data, 0, data.length, offset);
+    transfer.offset += data.length;
+    transfer.ws = ws;
+    transfer.lastActivity = Date.now();
+  }
+
+  /**
+   * Finishes an upload: verifies the checksum (if the client sent one) and moves the
+   * file into place.
+   */
+  async completeUpload(ws: WebSocket, owner: string, transferId: string, expectedSha256?: string): Promise<void> {
+    const transfer = this.get(owner, transferId);
+    if (transfer.direction !== 'upload' || !transfer.tempPath) {
+      throw new TransferError('TRANSFER_NOT_FOUND', `Transfer ${transferId} is not an upload`);
+    }
+    if (transfer.offset !== transfer.size) {
+      throw new TransferError(
+        'TRANSFER_INCOMPLETE',
+        `Received ${transfer.offset} of ${transfer.size} bytes; resume from offset ${transfer.offset}`,
+      );
+    }
+
+    // No further chunks or resumes while the checksum is computed
+    this.transfers.delete(transfer.id);
+    closeSync(transfer.fd);
+    let sha256: string;
+    try {
+      sha256 = await sha256File(transfer.tempPath);
+      if (expectedSha256 && expectedSha256.toLowerCase() !== sha256) {
+        this.send(ws, encodeTransferCancel(transferId));
+        throw new TransferError('TRANSFER_CHECKSUM_MISMATCH', `Checksum mismatch for ${transfer.path}; the upload was discarded`);
+      }
+      renameSync(transfer.tempPath, transfer.fullPath);
+    } finally {
+      // cleanup() can no longer find the transfer, so nothing else would remove it
+      rmSync(transfer.tempPath, { force: true });
+    }
+    this.send(ws, encodeTransferComplete({ transferId, path: transfer.path, size: transfer.size, sha256 }));
+    this.opts.onFinished?.(ws, { direction: 'upload', sessionId: transfer.sessionId, path: transfer.path, size: transfer.size, sha256 });
+  }
+
+  /**
+   * Direction of one of owner's transfers, or undefined if there is no such transfer.
+   */
+  directionOf(owner: string, transferId: string): TransferDirection | undefined {
+    const transfer = this.transfers.get(transferId);
+    return transfer?.owner === owner ? transfer.direction : undefined;
+  }
+
+  /**
+   * The client confirmed it has the whole download; the transfer can no longer be resumed.
+   */
+  acknowledgeDownload(owner: string, transferId: string): void {
+    const transfer = this.get(owner, transferId);
+    if (transfer.direction !== 'download' || transfer.sha256 === undefined) {
+      throw new TransferError('TRANSFER_INCOMPLETE', `Transfer ${transferId} is not a finished download`);
+    }
+    this.discard(transfer);
+  }
+
+  cancel(owner: string, transferId: string): void {
+    this.discard(this.get(owner, transferId));
+  }
+
+  /**
+   * Stops sending on a socket that went away. Its transfers wait for a resume.
+   */
+  detach(ws: WebSocket): void {
+    for (const transfer of this.transfers.values()) {
+      if (transfer.ws === ws) transfer.ws = null;
+    }
+  }
+
+  /**
+   * Discards transfers that have been idle for TRANSFER_IDLE_TIMEOUT_MS. Returns how many.
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - TRANSFER_IDLE_TIMEOUT_MS;
+    let removed = 0;
+    for (const transfer of [...this.transfers.values()]) {
+      if (transfer.lastActivity < cutoff) {
+        // A finished download that was never acknowledged is just dropped
+        if (transfer.sha256 === undefined) {
+          this.abort(transfer, transfer.ws);
+        } else {
+          this.discard(transfer);
+        }
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  closeAll(): void {
+    for (const transfer of [...this.transfers.values()]) {
+      this.discard(transfer);
+    }
+  }
+
+  private add(fields: Omit<Transfer, 'id' | 'pumping' | 'lastActivity'> & { id?: string }): Transfer {
+    const transfer: Transfer = {
+      ...fields,
+      id: fields.id ?? crypto.randomUUID(),
+      pumping: false,
+      lastActivity: Date.now(),
+    };
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  private get(owner: string, transferId: string): Transfer {
+    const transfer = this.transfers.get(transferId);
+    // Someone else's transfer is reported the same as a missing one
+    if (!transfer || transfer.owner !== owner) {
+      throw new TransferError('TRANSFER_NOT_FOUND', `Transfer ${transferId} not found or expired`);
+    }
+    return transfer;
+  }
+
+  private checkLimit(owner: string): void {
+    let count = 0;
+    for (const transfer of this.transfers.values()) {
+      if (transfer.owner === owner) count++;
+    }
+    if (count >= MAX_TRANSFERS_PER_CLIENT) {
+      throw new TransferError('TRANSFER_LIMIT', `At most ${MAX_TRANSFERS_PER_CLIENT} transfers can be in progress`);
+    }
+  }
+
+  private discard(transfer: Transfer): void {
+    this.transfers.delete(transfer.id);
+    try {
+      closeSync(transfer.fd);
+    } catch {
+      // Already closed
+    }
+    if (transfer.tempPath) rmSync(transfer.tempPath, { force: true });
+  }
+
+  /**
+   * Discards a transfer the client still thinks is running and tells it so.
+   */
+  private abort(transfer: Transfer, ws: WebSocket | null): void {
+    this.discard(transfer);
+    if (ws) this.send(ws, encodeTransferCancel(transfer.id));
+  }
+
+  private sendReady(transfer: Transfer): void {
+    if (!transfer.ws) return;
+    this.send(transfer.ws, encodeTransferReady({
+      transferId: transfer.id,
+      direction: transfer.direction,
+      path: transfer.path,
+      size: transfer.size,
+      offset: transfer.offset,
+      chunkSize: TRANSFER_CHUNK_SIZE,
+    }));
+  }
+
+  /**
+   * Sends download chunks until the socket's buffer fills, then waits for it to drain.
+   * Stops when the socket goes away; resume() starts pumping again.
+   */
+  private pump(transfer: Transfer): void {
+    if (transfer.pumping) return;
+    transfer.pumping = true;
+
+    const step = (): void => {
+      const ws = transfer.ws;
+      while (transfer.offset < transfer.size) {
+        if (!ws || ws !== transfer.ws || ws.readyState !== WebSocket.OPEN || !this.transfers.has(transfer.id)) {
+          transfer.pumping = false;
+          return;
+        }
+        if (ws.bufferedAmount > OUTPUT_HIGH_WATER_MARK) {
+          setTimeout(step, OUTPUT_DRAIN_CHECK_INTERVAL_MS);
+          return;
+        }
+        const chunk = Buffer.alloc(Math.min(TRANSFER_CHUNK_SIZE, transfer.size - transfer.offset));
+        const bytesRead = readSync(transfer.fd, chunk, 0, chunk.length, transfer.offset);
+        if (bytesRead === 0) {
+          // The file shrank underneath us
+          transfer.pumping = false;
+          this.abort(transfer, ws);
+          this.send(ws, encodeError('TRANSFER_STALE', `${transfer.path} changed during the download`));
+          return;
+        }
+        this.send(ws, encodeTransferChunk(transfer.id, transfer.offset, chunk.subarray(0, bytesRead)));
+        transfer.offset += bytesRead;
+        transfer.lastActivity = Date.now();
+      }
+
+      transfer.pumping = false;
+      if (ws) void this.finishDownload(transfer, ws);
+    };
+    step();
+  }
+
+  /**
+   * Sends TRANSFER_COMPLETE once every chunk is queued. The first time, the checksum is
+   * computed and the download is reported as finished; a resume sends the same again.
+   */
+  private async finishDownload(transfer: Transfer, ws: WebSocket): Promise<void> {
+    transfer.lastActivity = Date.now();
+    if (transfer.sha256 === undefined) {
+      try {
+        transfer.sha256 = await sha256File(transfer.fullPath);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        this.abort(transfer, ws);
+        this.send(ws, encodeError('FILE_ERROR', message));
+        return;
+      }
+      this.opts.onFinished?.(ws, {
+        direction: 'download',
+        sessionId: transfer.sessionId,
+        path: transfer.path,
+        size: transfer.size,
+        sha256: transfer.sha256,
+      });
+    }
+    if (!this.transfers.has(transfer.id)) return;
+    this.send(ws, encodeTransferComplete({
+      transferId: transfer.id,
+      path: transfer.path,
+      size: transfer.size,
+      sha256: transfer.sha256,
+    }));
+  }
+
+  private send(ws: WebSocket, data: Buffer): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(data);
+  }
+}
@@ -0,0 +1,342 @@
+import { watch, existsSync, lstatSync, readdirSync, type FSWatcher } from 'node:fs';
+import { join, posix } from 'node:path';
+import type { FileChange } from '../shared/types.js';
+
+export interface FileWatcherOptions<T> {
+  debounceMs: number;
+  /** Directory names (e.g. node_modules) whose contents are never watched or reported */
+  ignoredNames: readonly string[];
+  /** A recursive watch stops adding directories past this many */
+  maxDirectories: number;
+  /** Drops changes a session's clients may not see, such as paths denied by the file policy */
+  isVisible: (sessionId: string, path: string) => boolean;
+  onChanges: (subscriber: T, sessionId: string, changes: FileChange[]) => void;
+}
+
+interface Watch<T> {
+  sessionId: string;
+  /** Watched directory relative to the session root, '' for the root itself */
+  dir: string;
+  /** The paths clients asked for this directory by (see normalizeWatchPath) */
+  aliases: Set<string>;
+  fullPath: string;
+  recursive: boolean;
+  /** One non-recursive fs.watch per directory, by path relative to fullPath ('' for itself) */
+  watchers: Map<string, FSWatcher>;
+  subscribers: Set<T>;
+  /** fs.watch events since the last flush, by path relative to the session root */
+  pending: Map<string, 'rename' | 'change'>;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Last known inode of each path, so a delete and a create can be reported as a rename */
+  inodes: Map<string, number>;
+  /** inodes covers every entry (non-recursive watches scan the directory up front) */
+  complete: boolean;
+}
+
+/**
+ * Shares one watch per watched directory between every subscriber (client) watching
+ * it, and closes it when the last one unsubscribes. Events are batched for debounceMs
+ * and reported per session-relative path as created, modified, deleted or renamed.
+ * A recursive watch is a non-recursive fs.watch on each directory below, so ignored
+ * directories such as node_modules, denied ones and symlinks are never watched at all;
+ * directories are added and dropped as they come and go.
+ */
+export class FileWatcher<T> {
+  private watches = new Map<string, Watch<T>>();
+  private opts: FileWatcherOptions<T>;
+
+  constructor(opts: FileWatcherOptions<T>) {
+    this.opts = opts;
+  }
+
+  /**
+   * Subscribes to changes in a directory, `dir` being its resolved path relative to the
+   * session root and `requestedPath` the one the client asked for, which unwatch() takes.
+   * Throws if the directory can't be watched.
+   */
+  watch(
+    subscriber: T,
+    sessionId: string,
+    dir: string,
+    fullPath: string,
+    recursive: boolean,
+    requestedPath: string = dir,
+  ): void {
+    const key = watchKey(sessionId, dir, recursive);
+    const existing = this.watches.get(key);
+    if (existing) {
+      existing.subscribers.add(subscriber);
+      existing.aliases.add(normalizeWatchPath(requestedPath));
+      return;
+    }
+
+    const entry: Watch<T> = {
+      sessionId,
+      dir,
+      aliases: new Set([dir, normalizeWatchPath(requestedPath)]),
+      fullPath,
+      recursive,
+      watchers: new Map(),
+      subscribers: new Set([subscriber]),
+      pending: new Map(),
+      timer: null,
+      inodes: recursive ? new Map() : this.scanInodes(dir, fullPath),
+      complete: !recursive,
+    };
+    this.watches.set(key, entry);
+    try {
+      this.addDirectory(key, entry, '');
+    } catch (err) {
+      this.close(key);
+      throw err;
+    }
+  }
+
+  /**
+   * Drops a subscription by the path it was made with. Nothing is resolved on disk, so
+   * this works for a directory that has been deleted since.
+   */
+  unwatch(subscriber: T, sessionId: string, requestedPath: string): void {
+    const path = normalizeWatchPath(requestedPath);
+    for (const [key, entry] of this.watches) {
+      if (entry.sessionId !== sessionId || !entry.aliases.has(path)) continue;
+      if (entry.subscribers.delete(subscriber) && entry.subscribers.size === 0) {
+        this.close(key);
+      }
+    }
+  }
+
+  /**
+   * Drops every subscription of a client, e.g. when it detaches or disconnects.
+   */
+  unwatchAll(subscriber: T): void {
+    for (const [key, entry] of this.watches) {
+      if (entry.subscribers.delete(subscriber) && entry.subscribers.size === 0) {
+        this.close(key);
+      }
+    }
+  }
+
+  countSubscriptions(subscriber: T): number {
+    let count = 0;
+    for (const entry of this.watches.values()) {
+      if (entry.subscribers.has(subscriber)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Closes watches for sessions that no longer exist. Returns how many were closed.
+   */
+  closeOrphans(sessionExists: (sessionId: string) => boolean): number {
+    let closed = 0;
+    for (const [key, entry] of this.watches) {
+      if (!sessionExists(entry.sessionId)) {
+        this.close(key);
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  closeAll(): void {
+    for (const key of [...this.watches.keys()]) {
+      this.close(key);
+    }
+  }
+
+  private close(key: string): void {
+    const entry = this.watches.get(key);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    for (const watcher of entry.watchers.values()) watcher.close();
+    entry.watchers.clear();
+    this.watches.delete(key);
+  }
+
+  /**
+   * Watches a directory of the entry, `sub` being its path below the entry's directory,
+   * and for a recursive entry every directory below it that may be watched. Throws if
+   * the entry's own directory can't be watched.
+   */
+  private addDirectory(key: string, entry: Watch<T>, sub: string): void {
+    if (entry.watchers.has(sub)) return;
+    if (entry.watchers.size >= this.opts.maxDirectories) return;
+
+    const fullPath = sub ? join(entry.fullPath, ...sub.split('/')) : entry.fullPath;
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(fullPath, { persistent: false });
+    } catch (err) {
+      if (!sub) throw err;
+      return; // Removed or unreadable; there is nothing to report from it
+    }
+    watcher.on('change', (eventType, filename) => {
+      if (!filename) return;
+      // A removed directory reports itself under its own name; its parent's watch reports it
+      if (sub && !existsSync(fullPath)) {
+        this.removeDirectory(entry, sub);
+        return;
+      }
+      const name = filename.toString();
+      this.handleEvent(key, entry, eventType as 'rename' | 'change', sub ? `${sub}/${name}` : name);
+    });
+    watcher.on('error', (err) => {
+      if (!sub) {
+        console.error(`[CCR Server] File watcher for ${fullPath} failed: ${err.message}`);
+        this.close(key);
+      } else {
+        this.removeDirectory(entry, sub);
+      }
+    });
+    entry.watchers.set(sub, watcher);
+    if (entry.watchers.size === this.opts.maxDirectories) {
+      console.error(`[CCR Server] Recursive watch of ${entry.fullPath} stopped at ${this.opts.maxDirectories} directories`);
+    }
+    if (!entry.recursive) return;
+
+    let dirents;
+    try {
+      dirents = readdirSync(fullPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const dirent of dirents) {
+      // Dirents of symlinks aren't directories, so links are never followed
+      const child = sub ? `${sub}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory() && this.isWatchable(entry, child)) this.addDirectory(key, entry, child);
+    }
+  }
+
+  /**
+   * Stops watching a directory below a recursive entry and everything below it.
+   */
+  private removeDirectory(entry: Watch<T>, sub: string): void {
+    for (const [path, watcher] of entry.watchers) {
+      if (path === sub || path.startsWith(`${sub}/`)) {
+        watcher.close();
+        entry.watchers.delete(path);
+      }
+    }
+  }
+
+  private isWatchable(entry: Watch<T>, sub: string): boolean {
+    const name = sub.slice(sub.lastIndexOf('/') + 1);
+    return !this.opts.ignoredNames.includes(name)
+      && this.opts.isVisible(entry.sessionId, entry.dir ? `${entry.dir}/${sub}` : sub);
+  }
+
+  /**
+   * `filename` is relative to the entry's directory, with '/' separators.
+   */
+  private handleEvent(key: string, entry: Watch<T>, eventType: 'rename' | 'change', filename: string): void {
+    const segments = filename.split('/');
+    if (segments.some((name) => this.opts.ignoredNames.includes(name))) return;
+
+    // Follow directories appearing and disappearing below a recursive watch
+    if (entry.recursive && eventType === 'rename') {
+      let isDirectory = false;
+      try {
+        isDirectory = lstatSync(join(entry.fullPath, ...segments)).isDirectory();
+      } catch {
+        this.removeDirectory(entry, filename);
+      }
+      if (isDirectory && this.isWatchable(entry, filename)) this.addDirectory(key, entry, filename);
+    }
+
+    const path = entry.dir ? `${entry.dir}/${filename}` : filename;
+    // A rename seen in the same window as a change to the same path wins
+    if (entry.pending.get(path) !== 'rename') {
+      entry.pending.set(path, eventType);
+    }
+    entry.timer ??= setTimeout(() => this.flush(entry), this.opts.debounceMs);
+  }
+
+  private flush(entry: Watch<T>): void {
+    entry.timer = null;
+    const events = entry.pending;
+    entry.pending = new Map();
+
+    const changes: FileChange[] = [];
+    const createdByInode = new Map<number, FileChange>();
+    const deleted: { change: FileChange; inode?: number }[] = [];
+
+    for (const [path, eventType] of events) {
+      if (!this.opts.isVisible(entry.sessionId, path)) continue;
+
+      const inode = this.inodeOf(entry, path);
+      const previous = entry.inodes.get(path);
+      if (inode === undefined) {
+        // Created and removed again within the window, like an editor's temp file
+        if (previous === undefined && entry.complete) continue;
+        entry.inodes.delete(path);
+        const change: FileChange = { path, kind: 'deleted' };
+        deleted.push({ change, inode: previous });
+        changes.push(change);
+        continue;
+      }
+
+      entry.inodes.set(path, inode);
+      // Editors that save by renaming a temp file over the original replace a known path
+      const kind = eventType === 'change' || previous !== undefined ? 'modified' : 'created';
+      const change: FileChange = { path, kind };
+      if (kind === 'created') createdByInode.set(inode, change);
+      changes.push(change);
+    }
+
+    // A path that disappeared while its inode showed up elsewhere was renamed
+    for (const { change, inode } of deleted) {
+      const created = inode === undefined ? undefined : createdByInode.get(inode);
+      if (!created) continue;
+      created.kind = 'renamed';
+      created.oldPath = change.path;
+      changes.splice(changes.indexOf(change), 1);
+    }
+
+    if (changes.length === 0) return;
+    for (const subscriber of entry.subscribers) {
+      this.opts.onChanges(subscriber, entry.sessionId, changes);
+    }
+  }
+
+  private inodeOf(entry: Watch<T>, path: string): number | undefined {
+    const relative = entry.dir ? path.slice(entry.dir.length + 1) : path;
+    try {
+      return lstatSync(join(entry.fullPath, ...relative.split('/'))).ino;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Inodes of a directory's entries, so renames within it are recognized from the start.
+   */
+  private scanInodes(dir: string, fullPath: string): Map<string, number> {
+    const inodes = new Map<string, number>();
+    try {
+      for (const name of readdirSync(fullPath)) {
+        try {
+          inodes.set(dir ? `${dir}/${name}` : name, lstatSync(join(fullPath, name)).ino);
+        } catch {
+          // Removed while scanning
+        }
+      }
+    } catch {
+      // The watch itself reports the error
+    }
+    return inodes;
+  }
+}
+
+/**
+ * A directory path as a client sent it, in the form watches are looked up by: '' for the
+ * session root, no './' or trailing '/'.
+ */
+export function normalizeWatchPath(path: string): string {
+  const normalized = posix.normalize(path).replace(/\/+$/, '');
+  return normalized === '.' ? '' : normalized;
+}
+
+function watchKey(sessionId: string, dir: string, recursive: boolean): string {
+  return `${sessionId}\0${dir}\0${recursive ? 'r' : ''}`;
+}
@@ -0,0 +1,133 @@
+import { WebSocket } from 'ws';
+import type { ClientFlowStats } from '../shared/types.js';
+import {
+  OUTPUT_HIGH_WATER_MARK,
+  OUTPUT_LOW_WATER_MARK,
+  OUTPUT_DRAIN_CHECK_INTERVAL_MS,
+} from '../shared/constants.js';
+
+export interface OutputFlowControlOptions {
+  highWaterMark?: number;
+  lowWaterMark?: number;
+  drainCheckIntervalMs?: number;
+}
+
+/**
+ * Keeps PTY output from piling up in the send buffer of a slow WebSocket client.
+ *
+ * Once the socket's bufferedAmount crosses the high water mark the client is marked
+ * stalled and further output for it is dropped (the PTY keeps running for everyone
+ * else). When the buffer drains below the low water mark, onResync is called with the
+ * offset of the first dropped byte so the caller can send a gap notice and a fresh
+ * screen snapshot.
+ */
+export class OutputFlowControl {
+  private ws: WebSocket;
+  private onResync: (droppedFromOffset: number) => void;
+  private highWaterMark: number;
+  private lowWaterMark: number;
+  private drainCheckIntervalMs: number;
+
+  private stalledSince: number | null = null;
+  private droppedFromOffset: number | null = null;
+  private drainTimer: ReturnType<typeof setInterval> | null = null;
+  private stalls = 0;
+  private stalledMsTotal = 0;
+  private droppedBytes = 0;
+  private frames = 0;
+  private rawBytes = 0;
+  private sentBytes = 0;
+
+  constructor(
+    ws: WebSocket,
+    onResync: (droppedFromOffset: number) => void,
+    opts: OutputFlowControlOptions = {},
+  ) {
+    this.ws = ws;
+    this.onResync = onResync;
+    this.highWaterMark = opts.highWaterMark ?? OUTPUT_HIGH_WATER_MARK;
+    this.lowWaterMark = opts.lowWaterMark ?? OUTPUT_LOW_WATER_MARK;
+    this.drainCheckIntervalMs = opts.drainCheckIntervalMs ?? OUTPUT_DRAIN_CHECK_INTERVAL_MS;
+  }
+
+  /**
+   * Returns true if an output chunk may be sent now. While stalled the chunk is
+   * counted as dropped and false is returned.
+   */
+  accept(offset: number, length: number): boolean {
+    if (this.stalledSince === null) return true;
+
+    this.droppedFromOffset ??= offset;
+    this.droppedBytes += length;
+    return false;
+  }
+
+  /**
+   * Counts an output frame; rawBytes is the terminal data size before payload compression.
+   */
+  recordFrame(rawBytes: number, sentBytes: number): void {
+    this.frames++;
+    this.rawBytes += rawBytes;
+    this.sentBytes += sentBytes;
+  }
+
+  /**
+   * Call after sending anything to the client; starts a stall if the send buffer is too full.
+   */
+  checkBuffer(): void {
+    if (this.stalledSince !== null) return;
+    if (this.ws.bufferedAmount <= this.highWaterMark) return;
+
+    this.stalledSince = Date.now();
+    this.stalls++;
+    this.drainTimer = setInterval(() => this.checkDrained(), this.drainCheckIntervalMs);
+  }
+
+  private checkDrained(): void {
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      this.dispose();
+      return;
+    }
+    if (this.stalledSince === null || this.ws.bufferedAmount > this.lowWaterMark) return;
+
+    this.stalledMsTotal += Date.now() - this.stalledSince;
+    this.stalledSince = null;
+    this.clearTimer();
+
+    const from = this.droppedFromOffset;
+    this.droppedFromOffset = null;
+    if (from !== null) {
+      this.onResync(from);
+    }
+  }
+
+  getStats(): ClientFlowStats {
+    const current = this.stalledSince !== null ? Date.now() - this.stalledSince : 0;
+    return {
+      bufferedAmount: this.ws.bufferedAmount,
+      stalled: this.stalledSince !== null,
+      stalls: this.stalls,
+      stalledMs: this.stalledMsTotal + current,
+      droppedBytes: this.droppedBytes,
+      frames: this.frames,
+      rawBytes: this.rawBytes,
+      sentBytes: this.sentBytes,
+      payloadCompressionRatio: this.sentBytes > 0 ? Math.round((this.rawBytes / this.sentBytes) * 100) / 100 : 1,
+      perMessageDeflate: this.ws.extensions.includes('permessage-deflate'),
+    };
+  }
+
+  /**
+   * Stops drain polling (e.g., on detach or disconnect).
+   */
+  dispose(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+}
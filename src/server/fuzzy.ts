@@ -0,0 +1,150 @@
+/**
+ * Fuzzy matching of a query against file paths, scored like fzy: every query character
+ * must appear in order, and matches are worth more at the start of a path segment or
+ * word, after a camelCase hump, or right after the previous match. Gaps cost a little,
+ * so tighter and shorter matches rank higher.
+ */
+
+const SCORE_GAP_LEADING = -0.005;
+const SCORE_GAP_TRAILING = -0.005;
+const SCORE_GAP_INNER = -0.01;
+const SCORE_MATCH_CONSECUTIVE = 1.0;
+const SCORE_MATCH_SLASH = 0.9;
+const SCORE_MATCH_WORD = 0.8;
+const SCORE_MATCH_CAPITAL = 0.7;
+const SCORE_MATCH_DOT = 0.6;
+/** Longer candidates still match but aren't scored, to bound the work per path */
+const MAX_SCORED_LENGTH = 1024;
+
+/** Score of a candidate equal to the query, ignoring case */
+export const FUZZY_SCORE_MAX = Infinity;
+/** Score of a match too long to score */
+export const FUZZY_SCORE_MIN = -Infinity;
+
+// Score tables, reused between calls: best score with query[i] matched at candidate[j]
+// (d), and best score for query[0..i] within candidate[0..j] (m)
+let d = new Float64Array(0);
+let m = new Float64Array(0);
+
+/**
+ * Whether every character of the query occurs in the candidate, in order. Both must
+ * already be lower case.
+ */
+export function fuzzyHasMatch(lowerQuery: string, lowerCandidate: string): boolean {
+  let from = 0;
+  for (const ch of lowerQuery) {
+    const at = lowerCandidate.indexOf(ch, from);
+    if (at === -1) return false;
+    from = at + 1;
+  }
+  return true;
+}
+
+/**
+ * Scores a candidate that fuzzyHasMatch accepted; higher is better.
+ */
+export function fuzzyScore(query: string, candidate: string): number {
+  if (query.length === candidate.length) return FUZZY_SCORE_MAX;
+  if (candidate.length > MAX_SCORED_LENGTH) return FUZZY_SCORE_MIN;
+  computeScores(query, candidate);
+  return m[query.length * candidate.length - 1];
+}
+
+/**
+ * The indexes into candidate of the characters the best-scoring match uses.
+ */
+export function fuzzyPositions(query: string, candidate: string): number[] {
+  const n = query.length;
+  const len = candidate.length;
+  if (n === len) return [...Array(n).keys()];
+  if (len > MAX_SCORED_LENGTH) return greedyPositions(query.toLowerCase(), candidate.toLowerCase());
+  computeScores(query, candidate);
+
+  const positions = new Array<number>(n);
+  let matchRequired = false;
+  let j = len - 1;
+  for (let i = n - 1; i >= 0; i--) {
+    for (; j >= 0; j--) {
+      const score = d[i * len + j];
+      if (score !== -Infinity && (matchRequired || score === m[i * len + j])) {
+        // Stay on the consecutive run if that is how this match was reached
+        matchRequired = i > 0 && j > 0 && score === d[(i - 1) * len + j - 1] + SCORE_MATCH_CONSECUTIVE;
+        positions[i] = j--;
+        break;
+      }
+    }
+  }
+  return positions;
+}
+
+function computeScores(query: string, candidate: string): void {
+  const n = query.length;
+  const len = candidate.length;
+  if (d.length < n * len) {
+    d = new Float64Array(n * len);
+    m = new Float64Array(n * len);
+  }
+  const lowerQuery = query.toLowerCase();
+  const lowerCandidate = candidate.toLowerCase();
+  const bonus = matchBonuses(candidate);
+
+  for (let i = 0; i < n; i++) {
+    const row = i * len;
+    const prevRow = row - len;
+    const gap = i === n - 1 ? SCORE_GAP_TRAILING : SCORE_GAP_INNER;
+    let prevScore = -Infinity;
+    for (let j = 0; j < len; j++) {
+      if (lowerQuery[i] === lowerCandidate[j]) {
+        let score = -Infinity;
+        if (i === 0) {
+          score = j * SCORE_GAP_LEADING + bonus[j];
+        } else if (j > 0) {
+          score = Math.max(m[prevRow + j - 1] + bonus[j], d[prevRow + j - 1] + SCORE_MATCH_CONSECUTIVE);
+        }
+        d[row + j] = score;
+        prevScore = Math.max(score, prevScore + gap);
+      } else {
+        d[row + j] = -Infinity;
+        prevScore += gap;
+      }
+      m[row + j] = prevScore;
+    }
+  }
+}
+
+function matchBonuses(candidate: string): Float64Array {
+  const bonus = new Float64Array(candidate.length);
+  let prev = '/';
+  for (let j = 0; j < candidate.length; j++) {
+    const ch = candidate[j];
+    if (prev === '/') {
+      bonus[j] = SCORE_MATCH_SLASH;
+    } else if (prev === '-' || prev === '_' || prev === ' ') {
+      bonus[j] = SCORE_MATCH_WORD;
+    } else if (prev === '.') {
+      bonus[j] = SCORE_MATCH_DOT;
+    } else if (isLower(prev) && isUpper(ch)) {
+      bonus[j] = SCORE_MATCH_CAPITAL;
+    }
+    prev = ch;
+  }
+  return bonus;
+}
+
+function greedyPositions(lowerQuery: string, lowerCandidate: string): number[] {
+  const positions: number[] = [];
+  let from = 0;
+  for (const ch of lowerQuery) {
+    from = lowerCandidate.indexOf(ch, from);
+    positions.push(from++);
+  }
+  return positions;
+}
+
+function isLower(ch: string): boolean {
+  return ch !== ch.toUpperCase();
+}
+
+function isUpper(ch: string): boolean {
+  return ch !== ch.toLowerCase();
+}
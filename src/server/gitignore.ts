@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { matchesGlob } from './file-policy.js';
+
+interface GitignoreRule {
+  /** Directory of the .gitignore the rule came from, relative to the session root ('' for the root) */
+  base: string;
+  glob: string;
+  negate: boolean;
+  /** The pattern ended in '/', so it only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * .gitignore rules gathered while walking a tree, one directory at a time. Supports
+ * comments, '!' negation, directory-only and anchored patterns and the '*', '?' and '**'
+ * wildcards; character classes are not supported and match literally.
+ */
+export class GitignoreMatcher {
+  private rules: GitignoreRule[] = [];
+
+  /**
+   * Adds the rules from dir's .gitignore, if it has one. Load a directory's rules before
+   * checking its entries.
+   */
+  load(fullDir: string, relativeDir: string): void {
+    let text: string;
+    try {
+      text = readFileSync(join(fullDir, '.gitignore'), 'utf-8');
+    } catch {
+      return;
+    }
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      let line = rawLine.replace(/(?<!\\)\s+$/, '');
+      if (!line || line.startsWith('#')) continue;
+
+      const negate = line.startsWith('!');
+      if (negate) line = line.slice(1);
+      // '\#' and '\!' stand for a literal leading '#' or '!'
+      if (line.startsWith('\\')) line = line.slice(1);
+
+      const directoryOnly = line.endsWith('/');
+      if (directoryOnly) line = line.slice(0, -1);
+      if (!line) continue;
+
+      this.rules.push({ base: relativeDir, glob: line, negate, directoryOnly });
+    }
+  }
+
+  /**
+   * Whether a path relative to the session root is ignored. The last matching rule wins,
+   * so a later '!pattern' re-includes what an earlier one ignored.
+   */
+  isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+      const path = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+      if (matchesGlob(path, rule.glob)) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+}
@@ -0,0 +1,749 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { once } from 'node:events';
+import crypto from 'node:crypto';
+import { createReadStream, createWriteStream, statSync, renameSync, rmSync } from 'node:fs';
+import { basename } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { SessionManager, cwdNotAllowedMessage } from './session-manager.js';
+import type { FileHandler } from './file-handler.js';
+import { FileAccessError, type FileAccessErrorCode } from './file-policy.js';
+import { uploadTempPath } from './file-transfer.js';
+import { checkAccessToken, verifyAccessToken, hasScope, getTokenScopes, issueNamedToken, type TokenPayload } from './auth.js';
+import { redeemPairingCode } from './pairing.js';
+import { loadTokenRecords } from './token-registry.js';
+import type { AuthGuard, AuthMethod } from './auth-guard.js';
+import { getClientCertIdentity } from './tls.js';
+import type { AuditLog, AuditActor, AuditEvent } from './audit-log.js';
+import {
+  getSessionCookieToken,
+  serializeSessionCookie,
+  clearSessionCookie,
+  isOriginAllowed,
+} from './session-cookie.js';
+import { hasRecording, readAsciicast } from './recorder.js';
+import type {
+  ServerConfig,
+  ApiErrorBody,
+  ScrollbackResponse,
+  PairResponse,
+  LoginResponse,
+  TokenScope,
+  FileUploadResponse,
+} from '../shared/types.js';
+import { API_MAX_BODY_BYTES } from '../shared/constants.js';
+
+const SESSION_ID_PATTERN = '([A-Za-z0-9_-]+)';
+
+const FILE_ACCESS_STATUS: Record<FileAccessErrorCode, number> = {
+  PATH_OUTSIDE_ROOT: 403,
+  FILE_DENIED: 403,
+  FILE_READ_ONLY: 403,
+  FILE_TOO_LARGE: 413,
+  FILE_EXISTS: 409,
+  FILE_CONFLICT: 409,
+};
+
+/**
+ * Thrown by route handlers; turned into an { error: { code, message } } response.
+ * Codes match the ones sent over WebSocket with encodeError().
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+  }
+}
+
+interface CreateSessionBody {
+  name?: string;
+  cwd?: string;
+  cols?: number;
+  rows?: number;
+  profile?: string;
+}
+
+interface InputBody {
+  data?: string;
+}
+
+interface PairBody {
+  code?: string;
+}
+
+interface LoginBody {
+  token?: string;
+}
+
+export interface HttpApiHooks {
+  /** Called after a route creates or destroys a session */
+  onSessionsChanged: () => void;
+}
+
+// CSI, OSC, DCS/SOS/PM/APC strings and two-byte escape sequences
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?|\x1b[PX^_][^\x1b]*(?:\x1b\\)?|\x1b[ -/]*[0-~]/g;
+const CONTROL_PATTERN = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+function stripAnsi(text: string): string {
+  return text
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r\n/g, '\n')
+    .replace(CONTROL_PATTERN, '');
+}
+
+/**
+ * Bearer-authenticated JSON API under /api for scripts that don't want to speak
+ * the binary WebSocket protocol.
+ */
+export class HttpApi {
+  private sessionManager: SessionManager;
+  private fileHandler: FileHandler;
+  private config: ServerConfig;
+  private authGuard: AuthGuard;
+  private audit: AuditLog;
+  private hooks: HttpApiHooks;
+
+  constructor(
+    sessionManager: SessionManager,
+    fileHandler: FileHandler,
+    config: ServerConfig,
+    authGuard: AuthGuard,
+    audit: AuditLog,
+    hooks: HttpApiHooks,
+  ) {
+    this.sessionManager = sessionManager;
+    this.fileHandler = fileHandler;
+    this.config = config;
+    this.authGuard = authGuard;
+    this.audit = audit;
+    this.hooks = hooks;
+  }
+
+  /**
+   * Handles any /api/* request other than the unauthenticated health check.
+   */
+  async handle(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    try {
+      // Shared with the WebSocket server, so a locked-out address is locked out everywhere
+      const lockoutMs = this.authGuard.getLockout(this.remoteAddress(req));
+      if (lockoutMs > 0) {
+        const seconds = Math.ceil(lockoutMs / 1000);
+        this.record(req, null, { action: 'auth.locked', target: url.pathname, outcome: 'failure' });
+        throw new ApiError(429, 'AUTH_LOCKED', `Too many failed authentication attempts; try again in ${seconds}s`, {
+          'Retry-After': String(seconds),
+        });
+      }
+
+      if (await this.routeUnauthenticated(req, res, url)) return;
+
+      const token = this.authenticate(req);
+      res.on('finish', () => {
+        this.record(req, token, {
+          action: 'api.request',
+          sessionId: url.pathname.match(new RegExp(`^/api/sessions/${SESSION_ID_PATTERN}`))?.[1],
+          target: `${req.method} ${url.pathname}`,
+          outcome: res.statusCode < 400 ? 'success' : 'failure',
+          detail: String(res.statusCode),
+        });
+      });
+      await this.route(req, res, url, token);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        this.sendError(res, err.status, err.code, err.message, err.headers);
+      } else {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`[CCR Server] API error on ${req.method} ${url.pathname}: ${message}`);
+        this.sendError(res, 500, 'INTERNAL_ERROR', message);
+      }
+    }
+  }
+
+  /**
+   * Routes a browser uses before it has a token or cookie. Returns false for any other path.
+   */
+  private async routeUnauthenticated(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    const { pathname } = url;
+    const method = req.method ?? 'GET';
+
+    switch (pathname) {
+      case '/api/pair':
+        if (method !== 'POST') throw this.methodNotAllowed(method, pathname);
+        await this.pair(req, res);
+        return true;
+      case '/api/login':
+        if (method === 'GET') {
+          this.getLogin(req, res);
+          return true;
+        }
+        if (method !== 'POST') throw this.methodNotAllowed(method, pathname);
+        this.requireAllowedOrigin(req);
+        await this.login(req, res);
+        return true;
+      case '/api/logout':
+        if (method !== 'POST') throw this.methodNotAllowed(method, pathname);
+        this.requireAllowedOrigin(req);
+        this.record(req, this.cookieTokenPayload(req), { action: 'logout' });
+        res.writeHead(204, { 'Set-Cookie': clearSessionCookie(req) });
+        res.end();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse, url: URL, token: TokenPayload): Promise<void> {
+    const { pathname } = url;
+    const method = req.method ?? 'GET';
+    const requireScope = (scope: TokenScope): void => {
+      if (!hasScope(token, scope)) {
+        throw new ApiError(403, 'FORBIDDEN', `Token lacks the ${scope} scope`);
+      }
+    };
+
+    if (pathname === '/api/sessions') {
+      if (method === 'GET') {
+        requireScope('sessions:read');
+        return this.listSessions(res);
+      }
+      if (method === 'POST') {
+        requireScope('sessions:write');
+        return this.createSession(req, res, token);
+      }
+      throw this.methodNotAllowed(method, pathname);
+    }
+
+    const fileMatch = pathname.match(new RegExp(`^/api/sessions/${SESSION_ID_PATTERN}/files/(.+)$`));
+    if (fileMatch) {
+      const [, sessionId, encodedPath] = fileMatch;
+      let filePath: string;
+      try {
+        filePath = decodeURIComponent(encodedPath);
+      } catch {
+        throw new ApiError(400, 'INVALID_REQUEST', 'File path is not valid URL encoding');
+      }
+      if (method === 'GET') {
+        requireScope('files:read');
+        return this.downloadFile(req, res, token, sessionId, filePath);
+      }
+      if (method === 'PUT') {
+        requireScope('files:write');
+        return this.uploadFile(req, res, token, sessionId, filePath, url);
+      }
+      throw this.methodNotAllowed(method, pathname);
+    }
+
+    const sessionMatch = pathname.match(new RegExp(`^/api/sessions/${SESSION_ID_PATTERN}(/[a-z]+)?$`));
+    if (sessionMatch) {
+      const [, sessionId, action] = sessionMatch;
+
+      switch (action ?? '') {
+        case '':
+          if (method === 'GET') {
+            requireScope('sessions:read');
+            return this.getSession(res, sessionId);
+          }
+          if (method === 'DELETE') {
+            requireScope('sessions:write');
+            return this.destroySession(req, res, token, sessionId);
+          }
+          break;
+        case '/input':
+          if (method === 'POST') {
+            requireScope('terminal:input');
+            return this.writeInput(req, res, sessionId);
+          }
+          break;
+        case '/scrollback':
+          if (method === 'GET') {
+            requireScope('sessions:read');
+            return this.getScrollback(res, sessionId, url);
+          }
+          break;
+        case '/recording':
+          if (method === 'GET') {
+            requireScope('sessions:read');
+            return this.sendRecording(res, sessionId);
+          }
+          break;
+        default:
+          throw new ApiError(404, 'NOT_FOUND', `No route for ${pathname}`);
+      }
+      throw this.methodNotAllowed(method, pathname);
+    }
+
+    throw new ApiError(404, 'NOT_FOUND', `No route for ${pathname}`);
+  }
+
+  // --- Routes ---
+
+  private listSessions(res: ServerResponse): void {
+    this.sendJson(res, 200, this.sessionManager.listSessions());
+  }
+
+  private getSession(res: ServerResponse, sessionId: string): void {
+    const info = this.sessionManager.getSessionInfo(sessionId);
+    if (!info) throw this.sessionNotFound(sessionId);
+    this.sendJson(res, 200, info);
+  }
+
+  private async createSession(req: IncomingMessage, res: ServerResponse, token: TokenPayload): Promise<void> {
+    const body = await this.readJson<CreateSessionBody>(req, res);
+    if (!body) return;
+
+    if (body.profile !== undefined && !this.sessionManager.hasProfile(body.profile)) {
+      throw new ApiError(400, 'PROFILE_NOT_FOUND', `Launch profile ${body.profile} not found`);
+    }
+    for (const key of ['cols', 'rows'] as const) {
+      const value = body[key];
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        throw new ApiError(400, 'INVALID_REQUEST', `${key} must be a positive integer`);
+      }
+    }
+
+    if (body.cwd !== undefined && typeof body.cwd !== 'string') {
+      throw new ApiError(400, 'INVALID_REQUEST', 'cwd must be a string');
+    }
+    const cwd = body.cwd ? this.sessionManager.resolveWorkspaceCwd(body.cwd) : undefined;
+    if (cwd === null) {
+      this.record(req, token, { action: 'session.create', target: body.cwd, outcome: 'failure', detail: 'CWD_NOT_ALLOWED' });
+      throw new ApiError(403, 'CWD_NOT_ALLOWED', cwdNotAllowedMessage(body.cwd!));
+    }
+
+    let session;
+    try {
+      session = this.sessionManager.createSession({
+        name: body.name,
+        cwd,
+        cols: body.cols,
+        rows: body.rows,
+        profile: body.profile,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.record(req, token, { action: 'session.create', target: cwd, outcome: 'failure', detail: message });
+      throw new ApiError(500, 'SESSION_CREATE_FAILED', `Could not start the session: ${message}`);
+    }
+    this.record(req, token, { action: 'session.create', sessionId: session.id, target: session.cwd, detail: 'api' });
+    this.hooks.onSessionsChanged();
+    this.sendJson(res, 201, this.sessionManager.getSessionInfo(session.id));
+  }
+
+  private destroySession(req: IncomingMessage, res: ServerResponse, token: TokenPayload, sessionId: string): void {
+    if (!this.sessionManager.destroySession(sessionId)) {
+      throw this.sessionNotFound(sessionId);
+    }
+    this.record(req, token, { action: 'session.destroy', sessionId, detail: 'api' });
+    res.writeHead(204);
+    res.end();
+  }
+
+  private async writeInput(req: IncomingMessage, res: ServerResponse, sessionId: string): Promise<void> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw this.sessionNotFound(sessionId);
+
+    const body = await this.readJson<InputBody>(req, res);
+    if (!body) return;
+    if (typeof body.data !== 'string') {
+      throw new ApiError(400, 'INVALID_REQUEST', 'data must be a string');
+    }
+    if (session.exited) {
+      throw new ApiError(409, 'SESSION_EXITED', `Session ${sessionId} has exited`);
+    }
+
+    session.write(body.data);
+    res.writeHead(204);
+    res.end();
+  }
+
+  private getScrollback(res: ServerResponse, sessionId: string, url: URL): void {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw this.sessionNotFound(sessionId);
+
+    const strip = ['1', 'true'].includes(url.searchParams.get('stripAnsi') ?? '');
+    const raw = session.getScrollback().toString('utf-8');
+    const body: ScrollbackResponse = {
+      sessionId,
+      startOffset: session.scrollbackOffset,
+      endOffset: session.outputOffset,
+      data: strip ? stripAnsi(raw) : raw,
+    };
+    this.sendJson(res, 200, body);
+  }
+
+  private async sendRecording(res: ServerResponse, sessionId: string): Promise<void> {
+    if (!hasRecording(sessionId)) {
+      throw new ApiError(404, 'RECORDING_NOT_FOUND', `No recording found for session ${sessionId}`);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'application/x-asciicast',
+      'Content-Disposition': `attachment; filename="${sessionId}.cast"`,
+    });
+
+    try {
+      for await (const line of readAsciicast(sessionId)) {
+        if (!res.write(line)) {
+          await once(res, 'drain');
+        }
+      }
+      res.end();
+    } catch {
+      res.destroy();
+    }
+  }
+
+  /**
+   * Streams a file of any size. A `Range: bytes=start-[end]` header resumes an
+   * interrupted download.
+   */
+  private async downloadFile(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: TokenPayload,
+    sessionId: string,
+    filePath: string,
+  ): Promise<void> {
+    if (!this.sessionManager.getSession(sessionId)) throw this.sessionNotFound(sessionId);
+    let fullPath: string;
+    let size: number;
+    try {
+      fullPath = this.fileHandler.resolveDownload(sessionId, filePath);
+      size = statSync(fullPath).size;
+    } catch (err) {
+      throw this.fileError(err, filePath);
+    }
+
+    let start = 0;
+    let end = size - 1;
+    const range = req.headers.range;
+    if (range) {
+      const match = /^bytes=(\d+)-(\d*)$/.exec(range);
+      if (!match || Number(match[1]) >= size || (match[2] && Number(match[2]) < Number(match[1]))) {
+        throw new ApiError(416, 'RANGE_NOT_SATISFIABLE', `Range ${range} is not satisfiable for ${size} bytes`, {
+          'Content-Range': `bytes */${size}`,
+        });
+      }
+      start = Number(match[1]);
+      if (match[2]) end = Math.min(Number(match[2]), size - 1);
+    }
+
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': end - start + 1,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(basename(fullPath))}`,
+      'Accept-Ranges': 'bytes',
+    };
+    if (range) headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+    res.writeHead(range ? 206 : 200, headers);
+    this.record(req, token, {
+      action: 'file.read',
+      sessionId,
+      target: filePath,
+      detail: range ? `api, bytes ${start}-${end}` : 'api',
+    });
+
+    if (size === 0) {
+      res.end();
+      return;
+    }
+    try {
+      await pipeline(createReadStream(fullPath, { start, end }), res);
+    } catch {
+      res.destroy();
+    }
+  }
+
+  /**
+   * Replaces or creates a file with the request body. Content-Length is required so the
+   * transfer limit can be checked up front; an `X-Content-Sha256` header is verified
+   * before the file is moved into place. Resumable uploads use the WebSocket protocol.
+   */
+  private async uploadFile(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: TokenPayload,
+    sessionId: string,
+    filePath: string,
+    url: URL,
+  ): Promise<void> {
+    if (!this.sessionManager.getSession(sessionId)) throw this.sessionNotFound(sessionId);
+    const lengthHeader = req.headers['content-length'];
+    if (lengthHeader === undefined) {
+      throw new ApiError(411, 'LENGTH_REQUIRED', 'Content-Length is required');
+    }
+    const size = Number(lengthHeader);
+    const overwrite = ['1', 'true'].includes(url.searchParams.get('overwrite') ?? '');
+
+    let fullPath: string;
+    try {
+      fullPath = this.fileHandler.resolveUpload(sessionId, filePath, size, overwrite);
+    } catch (err) {
+      this.record(req, token, { action: 'file.write', sessionId, target: filePath, outcome: 'failure', detail: 'api' });
+      throw this.fileError(err, filePath);
+    }
+
+    const tempPath = uploadTempPath(fullPath, crypto.randomUUID());
+    const hash = crypto.createHash('sha256');
+    let received = 0;
+    try {
+      await pipeline(
+        req,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            received += chunk.length;
+            hash.update(chunk);
+            yield chunk;
+          }
+        },
+        createWriteStream(tempPath, { mode: 0o600 }),
+      );
+      if (received !== size) {
+        throw new ApiError(400, 'TRANSFER_INCOMPLETE', `Received ${received} of ${size} bytes`);
+      }
+      const sha256 = hash.digest('hex');
+      const expected = req.headers['x-content-sha256'];
+      if (typeof expected === 'string' && expected.toLowerCase() !== sha256) {
+        throw new ApiError(400, 'TRANSFER_CHECKSUM_MISMATCH', `Checksum mismatch for ${filePath}; the upload was discarded`);
+      }
+
+      renameSync(tempPath, fullPath);
+      this.record(req, token, {
+        action: 'file.write',
+        sessionId,
+        target: filePath,
+        detail: `api, ${size} bytes, sha256 ${sha256}`,
+      });
+      const body: FileUploadResponse = { path: filePath, size, sha256 };
+      this.sendJson(res, 200, body);
+    } finally {
+      rmSync(tempPath, { force: true });
+    }
+  }
+
+  private async pair(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readJson<PairBody>(req, res);
+    if (!body) return;
+    if (typeof body.code !== 'string' || !body.code) {
+      throw new ApiError(400, 'INVALID_REQUEST', 'code must be a non-empty string');
+    }
+
+    // The code is only used up once the token has been issued
+    let paired;
+    try {
+      paired = redeemPairingCode(body.code, (pairing) => {
+        const name = pairing.name ?? `paired-${crypto.randomUUID().slice(0, 8)}`;
+        if (loadTokenRecords().some((r) => r.name === name)) {
+          throw new ApiError(409, 'PAIRING_FAILED', `A token named "${name}" was created after this pairing code; pair again with another name`);
+        }
+        try {
+          const issued = issueNamedToken(this.config, {
+            name,
+            scopes: pairing.scopes,
+            expiresIn: pairing.tokenExpiresIn,
+          });
+          return { pairing, name, ...issued };
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error';
+          throw new ApiError(400, 'PAIRING_FAILED', `This pairing code can't issue a token: ${message}`);
+        }
+      });
+    } catch (err) {
+      if (err instanceof ApiError) {
+        this.record(req, null, { action: 'pair.redeem', outcome: 'failure', detail: err.message });
+      }
+      throw err;
+    }
+    if (!paired) {
+      this.authGuard.recordFailure(this.remoteAddress(req), 'pair');
+      this.record(req, null, { action: 'pair.redeem', outcome: 'failure', detail: 'invalid code' });
+      throw new ApiError(401, 'PAIRING_FAILED', 'Pairing code is invalid, expired or already used');
+    }
+
+    const { pairing, name, token, record } = paired;
+    console.log(`[CCR Server] Paired device as token "${name}" (${pairing.scopes.join(', ')})`);
+    this.record(req, { sub: name, jti: record.id }, { action: 'pair.redeem', detail: pairing.scopes.join(',') });
+
+    const response: PairResponse = { token, name, scopes: record.scopes, expiresAt: record.expiresAt };
+    res.setHeader('Cache-Control', 'no-store');
+    this.sendJson(res, 200, response);
+  }
+
+  /**
+   * Reports who the login cookie belongs to, so the Web IDE can skip the auth dialog.
+   */
+  private getLogin(req: IncomingMessage, res: ServerResponse): void {
+    const cookieToken = getSessionCookieToken(req);
+    if (!cookieToken) {
+      throw new ApiError(401, 'AUTH_REQUIRED', 'Not logged in');
+    }
+    const payload = this.verifyToken(req, cookieToken, 'cookie');
+    this.sendJson(res, 200, this.toLoginResponse(payload));
+  }
+
+  /**
+   * Exchanges a token for an HttpOnly cookie the WebSocket upgrade is authenticated with.
+   */
+  private async login(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readJson<LoginBody>(req, res);
+    if (!body) return;
+    if (typeof body.token !== 'string' || !body.token) {
+      throw new ApiError(400, 'INVALID_REQUEST', 'token must be a non-empty string');
+    }
+
+    const payload = this.verifyToken(req, body.token, 'login');
+    this.record(req, payload, { action: 'login' });
+
+    res.setHeader('Set-Cookie', serializeSessionCookie(req, body.token, payload.exp));
+    this.sendJson(res, 200, this.toLoginResponse(payload));
+  }
+
+  // --- Helpers ---
+
+  private toLoginResponse(payload: TokenPayload): LoginResponse {
+    return {
+      name: payload.sub,
+      scopes: getTokenScopes(payload),
+      expiresAt: new Date(payload.exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Cookie-setting routes only accept requests from the Web IDE's own pages,
+   * so another site can't log a visitor in or out.
+   */
+  private requireAllowedOrigin(req: IncomingMessage): void {
+    if (!isOriginAllowed(req, this.config)) {
+      throw new ApiError(403, 'ORIGIN_NOT_ALLOWED', `Origin ${req.headers.origin ?? '(none)'} is not allowed`);
+    }
+  }
+
+  private authenticate(req: IncomingMessage): TokenPayload {
+    const authHeader = req.headers['authorization'];
+    if (!authHeader?.startsWith('Bearer ')) {
+      const certIdentity = getClientCertIdentity(req);
+      if (certIdentity) return certIdentity;
+      throw new ApiError(401, 'AUTH_REQUIRED', 'Bearer token required');
+    }
+    return this.verifyToken(req, authHeader.slice(7), 'http');
+  }
+
+  /**
+   * Verifies a token. Only malformed or badly signed tokens count as failures against the
+   * client's address; an expired or revoked one is what a returning user legitimately has.
+   * A rejected login cookie is cleared so the browser stops sending it.
+   */
+  private verifyToken(req: IncomingMessage, token: string, method: AuthMethod): TokenPayload {
+    const address = this.remoteAddress(req);
+    const result = checkAccessToken(token, this.config);
+    if ('rejection' in result) {
+      if (result.rejection === 'invalid') this.authGuard.recordFailure(address, method);
+      this.record(req, null, {
+        action: 'auth.failure',
+        target: req.url,
+        outcome: 'failure',
+        detail: `${method}, ${result.rejection}`,
+      });
+      const headers = method === 'cookie' ? { 'Set-Cookie': clearSessionCookie(req) } : undefined;
+      throw new ApiError(401, 'AUTH_FAILED', `Token ${result.rejection}`, headers);
+    }
+    this.authGuard.recordSuccess(address);
+    return result.payload;
+  }
+
+  private cookieTokenPayload(req: IncomingMessage): TokenPayload | null {
+    const cookieToken = getSessionCookieToken(req);
+    return cookieToken ? verifyAccessToken(cookieToken, this.config) : null;
+  }
+
+  private record(req: IncomingMessage, token: AuditActor['token'], event: AuditEvent): void {
+    this.audit.record({ token, remoteAddress: this.remoteAddress(req) }, event);
+  }
+
+  private remoteAddress(req: IncomingMessage): string {
+    return req.socket.remoteAddress ?? 'unknown';
+  }
+
+  /**
+   * Parses the request body. A body over API_MAX_BODY_BYTES is answered with a 413 here
+   * and null is returned; the request is destroyed once that response is out, since
+   * destroying it first would close the socket before the 413 could be written.
+   */
+  private async readJson<T>(req: IncomingMessage, res: ServerResponse): Promise<T | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req.iterator({ destroyOnReturn: false })) {
+      size += (chunk as Buffer).length;
+      if (size > API_MAX_BODY_BYTES) {
+        this.sendError(res, 413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${API_MAX_BODY_BYTES} bytes`, {
+          Connection: 'close',
+        });
+        res.once('finish', () => req.destroy());
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf-8');
+    if (!raw.trim()) return {} as T;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new ApiError(400, 'PARSE_ERROR', 'Request body is not valid JSON');
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new ApiError(400, 'PARSE_ERROR', 'Request body must be a JSON object');
+    }
+    return parsed as T;
+  }
+
+  /**
+   * Maps a FileHandler failure to a response: policy refusals keep their code, and a
+   * missing file is a 404.
+   */
+  private fileError(err: unknown, filePath: string): ApiError {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    if (err instanceof FileAccessError) {
+      return new ApiError(FILE_ACCESS_STATUS[err.code], err.code, message);
+    }
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new ApiError(404, 'FILE_NOT_FOUND', `${filePath} not found`);
+    }
+    return new ApiError(400, 'FILE_ERROR', message);
+  }
+
+  private sessionNotFound(sessionId: string): ApiError {
+    return new ApiError(404, 'SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+  }
+
+  private methodNotAllowed(method: string, pathname: string): ApiError {
+    return new ApiError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported on ${pathname}`);
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    code: string,
+    message: string,
+    headers: Record<string, string> = {},
+  ): void {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      res.setHeader(name, value);
+    }
+    const body: ApiErrorBody = { error: { code, message } };
+    this.sendJson(res, status, body);
+  }
+}
@@ -1,7 +1,7 @@
 import { CCRServer } from './ws-server.js';
 import { loadServerConfig, saveToken } from './config.js';
 import { createAccessToken } from './auth.js';
-import { ensureCertificates } from './tls.js';
+import { loadTlsCredentials, getCaCertPath, isIssuedByLocalCa, type TLSConfig } from './tls.js';
 import { logger } from './logger.js';
 import type { ServerConfig } from '../shared/types.js';
 
@@ -10,6 +10,11 @@ export interface StartServerOptions {
   host?: string;
   token?: string;
   tls?: boolean;
+  /** PEM certificate and key to serve; implies tls */
+  cert?: string;
+  key?: string;
+  /** Record all new sessions (overrides recordSessions in config) */
+  record?: boolean;
 }
 
 export async function startServer(opts: StartServerOptions = {}): Promise<{ server: CCRServer; token: string }> {
@@ -17,15 +22,24 @@ export async function startServer(opts: StartServerOptions = {}): Promise<{ serv
 
   if (opts.port) config.port = opts.port;
   if (opts.host) config.host = opts.host;
+  if (opts.record) config.recordSessions = true;
+  if (opts.cert) config.tlsCertPath = opts.cert;
+  if (opts.key) config.tlsKeyPath = opts.key;
 
   const token = opts.token ?? createAccessToken(config);
   saveToken(token);
 
   // Handle TLS
-  let tlsConfig: { cert: Buffer; key: Buffer } | undefined;
-  if (opts.tls) {
-    const certs = ensureCertificates();
+  const customCert = Boolean(config.tlsCertPath || config.tlsKeyPath);
+  let tlsConfig: TLSConfig | undefined;
+  if (opts.tls || customCert) {
+    const certs = loadTlsCredentials(config);
     if (!certs) {
+      // Never silently fall back to plain HTTP when the user pointed at their own certificate
+      if (customCert) {
+        console.error('[CCR Server] Could not load the configured TLS certificate');
+        process.exit(1);
+      }
       console.error('[CCR Server] TLS requested but certificate generation failed. Starting without TLS.');
     } else {
       tlsConfig = certs;
@@ -37,13 +51,25 @@ export async function startServer(opts: StartServerOptions = {}): Promise<{ serv
   // Graceful shutdown
   const shutdown = () => {
     console.log('\n[CCR Server] Shutting down...');
-    server.stop();
-    process.exit(0);
+    // Exit only once recordings and the audit log have been written out
+    void server.stop().finally(() => process.exit(0));
   };
 
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
+  // Pick up renewed certificates without dropping connections or sessions
+  if (tlsConfig) {
+    process.on('SIGHUP', () => {
+      const certs = loadTlsCredentials(config);
+      if (certs) {
+        server.reloadTls(certs);
+      } else {
+        console.error('[CCR Server] TLS reload failed; keeping the current certificates');
+      }
+    });
+  }
+
   await server.start();
 
   const protocol = tlsConfig ? 'https' : 'http';
@@ -57,7 +83,16 @@ export async function startServer(opts: StartServerOptions = {}): Promise<{ serv
   console.log(`[CCR Server] Connect with: ccr connect ${displayHost}:${config.port} --token ${token}`);
 
   if (tlsConfig) {
-    console.log('[CCR Server] TLS enabled (self-signed certificate)');
+    if (customCert) {
+      console.log(`[CCR Server] TLS enabled (${config.tlsCertPath})`);
+    } else if (isIssuedByLocalCa(tlsConfig.cert)) {
+      console.log(`[CCR Server] TLS enabled (certificate from local CA; trust ${getCaCertPath()} on your devices)`);
+    } else {
+      console.log('[CCR Server] TLS enabled (certificate in ~/.ccr/certs, not issued by the local CA)');
+    }
+    if (config.tlsClientAuth !== 'off') {
+      console.log(`[CCR Server] Client certificates: ${config.tlsClientAuth}`);
+    }
   }
 
   return { server, token };
@@ -0,0 +1,171 @@
+import type { FileMergeResult } from '../shared/types.js';
+import { MERGE_MAX_EDIT_DISTANCE } from '../shared/constants.js';
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * Splits text into lines that keep their line endings, so joining them gives the text back.
+ */
+function splitLines(text: string): string[] {
+  return text ? text.split(/(?<=\n)/) : [];
+}
+
+/**
+ * For each line of a, the index of the line of b it is matched with in a longest common
+ * subsequence, or -1. Uses Myers' O(ND) diff; if the two differ by more than
+ * MERGE_MAX_EDIT_DISTANCE lines, only the common prefix and suffix are matched.
+ */
+function matchLines(a: string[], b: string[]): Int32Array {
+  const match = new Int32Array(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    match[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    match[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return match;
+
+  const limit = Math.min(n + m, MERGE_MAX_EDIT_DISTANCE);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  // V before each round d, covering diagonals -d-1..d+1, for walking the path back
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        backtrack(trace, d, n, m, (i, j) => {
+          match[start + i] = start + j;
+        });
+        return match;
+      }
+    }
+  }
+  return match;
+}
+
+function backtrack(trace: Int32Array[], d: number, x: number, y: number, onMatch: (i: number, j: number) => void): void {
+  for (; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number): number => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      onMatch(x, y);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    onMatch(x, y);
+  }
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Appends a block of lines, making sure it ends with a newline so a following conflict
+ * marker starts on its own line.
+ */
+function pushBlock(out: string[], lines: string[]): void {
+  out.push(...lines);
+  const last = out[out.length - 1];
+  if (last !== undefined && !last.endsWith('\n')) out[out.length - 1] = `${last}\n`;
+}
+
+/**
+ * Line-based three-way merge (diff3) of two edits of the same base text. Regions changed
+ * on only one side take that side's version; regions changed differently on both sides
+ * are written with git-style conflict markers and counted.
+ */
+export function merge3(base: string, ours: string, theirs: string, labels: MergeLabels): FileMergeResult {
+  const o = splitLines(base);
+  const a = splitLines(ours);
+  const b = splitLines(theirs);
+  const matchA = matchLines(o, a);
+  const matchB = matchLines(o, b);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let lo = 0;
+  let la = 0;
+  let lb = 0;
+
+  const resolveUnstable = (baseLines: string[], oursLines: string[], theirsLines: string[]): void => {
+    if (sameLines(oursLines, baseLines) || sameLines(oursLines, theirsLines)) {
+      out.push(...theirsLines);
+    } else if (sameLines(theirsLines, baseLines)) {
+      out.push(...oursLines);
+    } else {
+      conflicts++;
+      pushBlock(out, [`<<<<<<< ${labels.ours}\n`, ...oursLines]);
+      out.push('=======\n');
+      pushBlock(out, theirsLines);
+      out.push(`>>>>>>> ${labels.theirs}\n`);
+    }
+  };
+
+  while (lo < o.length || la < a.length || lb < b.length) {
+    // Lines of the base kept in place by both sides
+    let stable = 0;
+    while (
+      lo + stable < o.length &&
+      matchA[lo + stable] === la + stable &&
+      matchB[lo + stable] === lb + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      out.push(...o.slice(lo, lo + stable));
+      lo += stable;
+      la += stable;
+      lb += stable;
+      continue;
+    }
+
+    // The next base line both sides still have marks the end of the changed region
+    let next = lo;
+    while (next < o.length && (matchA[next] === -1 || matchB[next] === -1)) next++;
+    if (next === o.length) {
+      resolveUnstable(o.slice(lo), a.slice(la), b.slice(lb));
+      break;
+    }
+    resolveUnstable(o.slice(lo, next), a.slice(la, matchA[next]), b.slice(lb, matchB[next]));
+    lo = next;
+    la = matchA[next];
+    lb = matchB[next];
+  }
+
+  return { content: out.join(''), conflicts };
+}
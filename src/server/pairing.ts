@@ -0,0 +1,96 @@
+import crypto from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ensureConfigDir, getConfigDir } from './config.js';
+import { assertTokenLifetime } from './auth.js';
+import { PAIRING_FILE_NAME, PAIRING_CODE_TTL_MS } from '../shared/constants.js';
+import type { TokenScope } from '../shared/types.js';
+
+// No 0/O or 1/I/L, so codes survive being read aloud or typed on a phone
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/**
+ * A pending pairing created by `ccr server pair`. Only a hash of the code is stored.
+ */
+export interface PairingRequest {
+  codeHash: string;
+  /** Name for the issued token; generated on redemption when omitted */
+  name?: string;
+  scopes: TokenScope[];
+  /** Lifetime of the issued token, e.g. '24h' */
+  tokenExpiresIn: string;
+  expiresAt: string;
+}
+
+export interface CreatePairingOptions {
+  name?: string;
+  scopes: TokenScope[];
+  tokenExpiresIn: string;
+}
+
+function getPairingPath(): string {
+  return join(getConfigDir(), PAIRING_FILE_NAME);
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Uppercases and drops separators, so "abcd-efgh" and "ABCDEFGH" match.
+ */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Loads pending pairings, dropping expired ones.
+ */
+function loadPairings(): PairingRequest[] {
+  const pairingPath = getPairingPath();
+  if (!existsSync(pairingPath)) return [];
+  const now = Date.now();
+  return (JSON.parse(readFileSync(pairingPath, 'utf-8')) as PairingRequest[])
+    .filter((p) => Date.parse(p.expiresAt) > now);
+}
+
+function savePairings(pairings: PairingRequest[]): void {
+  ensureConfigDir();
+  writeFileSync(getPairingPath(), JSON.stringify(pairings, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Creates a one-time code, formatted as XXXX-XXXX, valid for PAIRING_CODE_TTL_MS. Throws
+ * if the token lifetime is not a valid duration.
+ */
+export function createPairingCode(opts: CreatePairingOptions): { code: string; expiresAt: string } {
+  assertTokenLifetime(opts.tokenExpiresIn);
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString();
+
+  const pairings = loadPairings();
+  pairings.push({ codeHash: hashCode(code), ...opts, expiresAt });
+  savePairings(pairings);
+
+  return { code: `${code.slice(0, 4)}-${code.slice(4)}`, expiresAt };
+}
+
+/**
+ * Consumes a pairing code, handing it to `redeem` first: if that throws, the code is
+ * left unused. Returns null if the code is unknown, expired or already used.
+ */
+export function redeemPairingCode<T>(code: string, redeem: (pairing: PairingRequest) => T): T | null {
+  const codeHash = hashCode(normalizeCode(code));
+  const pairings = loadPairings();
+  const index = pairings.findIndex((p) => p.codeHash === codeHash);
+  if (index === -1) return null;
+
+  const [pairing] = pairings.splice(index, 1);
+  const result = redeem(pairing);
+  savePairings(pairings);
+  return result;
+}
@@ -4,11 +4,18 @@ import { platform } from 'node:os';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { RingBuffer } from './ring-buffer.js';
+import { TerminalScreen } from './terminal-screen.js';
+import { SessionRecorder } from './recorder.js';
+import type { SessionInfo } from '../shared/types.js';
 import {
   SCROLLBACK_MAX_BYTES,
+  SCREEN_SCROLLBACK_LINES,
   DEFAULT_PTY_COLS,
   DEFAULT_PTY_ROWS,
   SESSION_IDLE_TIMEOUT_MS,
+  DEFAULT_PROFILE_NAME,
+  DEFAULT_OUTPUT_COALESCE_MS,
+  DEFAULT_OUTPUT_COALESCE_MAX_BYTES,
 } from '../shared/constants.js';
 
 export interface PtySessionOptions {
@@ -17,8 +24,41 @@ export interface PtySessionOptions {
   cwd?: string;
   cols?: number;
   rows?: number;
+  /** Launch profile this session was created from */
+  profile?: string;
+  /** Executable to spawn; defaults to the claude binary found by findClaudePath() */
+  command?: string;
   /** Additional CLI args to pass to claude (e.g. ['--continue'] for session resumption) */
   args?: string[];
+  /** Extra environment variables merged over the server's environment */
+  env?: Record<string, string>;
+  /** Record output, input and resize events to ~/.ccr/recordings/<id> */
+  record?: boolean;
+  /** Original creation time when respawning a persisted session */
+  createdAt?: Date;
+  /** Scrollback chunks to restore when respawning a persisted session */
+  scrollback?: Buffer[];
+  /** Output stream offset of the first restored scrollback byte */
+  scrollbackOffset?: number;
+  /** Coalescing window for output in milliseconds; 0 emits every chunk immediately */
+  coalesceMs?: number;
+  /** Emit the coalesced output early once this many bytes are pending */
+  coalesceMaxBytes?: number;
+}
+
+export interface PtySessionState {
+  id: string;
+  name: string;
+  cwd: string;
+  profile: string;
+  command?: string;
+  args: string[];
+  record: boolean;
+  createdAt: string;
+  lastActivity: string;
+  exited: boolean;
+  pid: number;
+  scrollback: ReturnType<RingBuffer['toJSON']>;
 }
 
 export class PtySession extends EventEmitter {
@@ -26,61 +66,148 @@ export class PtySession extends EventEmitter {
   readonly name: string;
   readonly cwd: string;
   readonly createdAt: Date;
+  readonly profile: string;
+  readonly command: string | undefined;
   readonly args: string[];
+  readonly env: Record<string, string>;
   lastActivity: Date;
 
   private ptyProcess: pty.IPty;
   private scrollback: RingBuffer;
+  private screen: TerminalScreen;
+  private recorder: SessionRecorder | null = null;
   private _exited = false;
+  private _exitCode: number | undefined;
+  private _signal: number | null = null;
+  private _exitedAt: Date | undefined;
+  private _cols: number;
+  private _rows: number;
+  private coalesceMs: number;
+  private coalesceMaxBytes: number;
+  private pendingOutput: string[] = [];
+  private pendingBytes = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(opts: PtySessionOptions) {
     super();
     this.id = opts.id;
     this.name = opts.name;
     this.cwd = opts.cwd ?? process.cwd();
+    this.profile = opts.profile ?? DEFAULT_PROFILE_NAME;
+    this.command = opts.command;
     this.args = opts.args ?? [];
-    this.createdAt = new Date();
+    this.env = opts.env ?? {};
+    this.createdAt = opts.createdAt ?? new Date();
+    this.coalesceMs = opts.coalesceMs ?? DEFAULT_OUTPUT_COALESCE_MS;
+    this.coalesceMaxBytes = opts.coalesceMaxBytes ?? DEFAULT_OUTPUT_COALESCE_MAX_BYTES;
     this.lastActivity = new Date();
-    this.scrollback = new RingBuffer(SCROLLBACK_MAX_BYTES);
+    this.scrollback = opts.scrollback
+      ? RingBuffer.fromChunks(opts.scrollback, SCROLLBACK_MAX_BYTES, opts.scrollbackOffset)
+      : new RingBuffer(SCROLLBACK_MAX_BYTES, opts.scrollbackOffset);
+
+    const command = this.command ?? findClaudePath();
+    this._cols = opts.cols ?? DEFAULT_PTY_COLS;
+    this._rows = opts.rows ?? DEFAULT_PTY_ROWS;
 
-    const claudePath = findClaudePath();
-    const cols = opts.cols ?? DEFAULT_PTY_COLS;
-    const rows = opts.rows ?? DEFAULT_PTY_ROWS;
+    // Rebuild the screen from restored scrollback so the first attach shows the previous output
+    this.screen = new TerminalScreen(this._cols, this._rows, SCREEN_SCROLLBACK_LINES);
+    if (opts.scrollback) {
+      this.screen.write(this.scrollback.getAll().toString('utf-8'));
+    }
 
-    this.ptyProcess = pty.spawn(claudePath, this.args, {
+    this.ptyProcess = pty.spawn(command, this.args, {
       name: 'xterm-256color',
-      cols,
-      rows,
+      cols: this._cols,
+      rows: this._rows,
       cwd: this.cwd,
       env: {
         ...process.env,
         TERM: 'xterm-256color',
         COLORTERM: 'truecolor',
+        ...this.env,
       } as Record<string, string>,
     });
 
+    if (opts.record) {
+      this.recorder = new SessionRecorder({
+        sessionId: this.id,
+        name: this.name,
+        command: [command, ...this.args].join(' '),
+        cols: this._cols,
+        rows: this._rows,
+      });
+    }
+
     this.ptyProcess.onData((data: string) => {
       this.lastActivity = new Date();
-      const buf = Buffer.from(data, 'utf-8');
-      this.scrollback.push(buf);
-      this.emit('data', buf);
+      this.recorder?.output(data);
+      this.bufferOutput(data);
     });
 
     this.ptyProcess.onExit(({ exitCode, signal }) => {
+      this.flushOutput();
       this._exited = true;
-      this.emit('exit', exitCode, signal);
+      this._exitCode = exitCode;
+      this._signal = signal ?? null;
+      this._exitedAt = new Date();
+      void this.recorder?.close();
+      this.emit('exit', exitCode, this._signal);
     });
   }
 
+  /**
+   * Collects PTY output until the coalescing window ends or enough bytes are pending,
+   * so a burst of small chunks goes out as one 'data' event.
+   */
+  private bufferOutput(data: string): void {
+    this.pendingOutput.push(data);
+    this.pendingBytes += Buffer.byteLength(data, 'utf-8');
+
+    if (this.coalesceMs <= 0 || this.pendingBytes >= this.coalesceMaxBytes) {
+      this.flushOutput();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushOutput(), this.coalesceMs);
+    }
+  }
+
+  /**
+   * Feeds pending output to the screen model and scrollback and emits it. The screen is
+   * only updated here so a snapshot never includes output that has not been emitted yet.
+   */
+  private flushOutput(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingOutput.length === 0) return;
+
+    const data = this.pendingOutput.join('');
+    this.pendingOutput = [];
+    this.pendingBytes = 0;
+
+    this.screen.write(data);
+    const buf = Buffer.from(data, 'utf-8');
+    const offset = this.scrollback.endOffset;
+    this.scrollback.push(buf);
+    this.emit('data', buf, offset);
+  }
+
   write(data: string | Buffer): void {
     if (this._exited) return;
     const str = typeof data === 'string' ? data : data.toString('utf-8');
     this.lastActivity = new Date();
+    this.recorder?.input(str);
     this.ptyProcess.write(str);
   }
 
   resize(cols: number, rows: number): void {
     if (this._exited) return;
+    this._cols = cols;
+    this._rows = rows;
+    this.recorder?.resize(cols, rows);
+    // Output produced at the old size must reach the screen model before it is resized
+    this.flushOutput();
+    this.screen.resize(cols, rows);
     this.ptyProcess.resize(cols, rows);
   }
 
@@ -88,6 +215,32 @@ export class PtySession extends EventEmitter {
     return this.scrollback.getAll();
   }
 
+  /**
+   * Returns the output from the given stream offset onwards, or null if part of it
+   * is no longer in the scrollback buffer.
+   */
+  getOutputFrom(offset: number): Buffer | null {
+    return this.scrollback.getFrom(offset);
+  }
+
+  /** Stream offset of the first scrollback byte still held in memory */
+  get scrollbackOffset(): number {
+    return this.scrollback.startOffset;
+  }
+
+  /** Total number of output bytes this session has produced */
+  get outputOffset(): number {
+    return this.scrollback.endOffset;
+  }
+
+  /**
+   * Returns a compact escape sequence stream that redraws the current screen,
+   * scrollback lines, cursor and terminal modes on a freshly attached client.
+   */
+  getScreenSnapshot(): string {
+    return this.screen.serialize();
+  }
+
   get pid(): number {
     return this.ptyProcess.pid;
   }
@@ -96,38 +249,58 @@ export class PtySession extends EventEmitter {
     return this._exited;
   }
 
+  get recording(): boolean {
+    return this.recorder !== null;
+  }
+
+  get exitedAt(): Date | undefined {
+    return this._exitedAt;
+  }
+
+  get cols(): number {
+    return this._cols;
+  }
+
+  get rows(): number {
+    return this._rows;
+  }
+
   isIdle(): boolean {
     return Date.now() - this.lastActivity.getTime() > SESSION_IDLE_TIMEOUT_MS;
   }
 
-  kill(): void {
+  /**
+   * Kills the process. Resolves once the recording, if any, is flushed to disk.
+   */
+  kill(): Promise<void> {
     if (!this._exited) {
       this.ptyProcess.kill();
     }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingOutput = [];
+    const recorded = this.recorder?.close() ?? Promise.resolve();
     this.scrollback.clear();
     this.removeAllListeners();
+    return recorded;
   }
 
   /**
    * Returns the full serializable state of this session, including scrollback data.
-   * Useful for session persistence / snapshot to disk.
+   * Useful for session persistence / snapshot to disk. The environment is left out, as
+   * profiles may put secrets in it; restoring takes it from the profile again.
    */
-  getState(): {
-    id: string;
-    name: string;
-    cwd: string;
-    args: string[];
-    createdAt: string;
-    lastActivity: string;
-    exited: boolean;
-    pid: number;
-    scrollback: ReturnType<RingBuffer['toJSON']>;
-  } {
+  getState(): PtySessionState {
     return {
       id: this.id,
       name: this.name,
       cwd: this.cwd,
+      profile: this.profile,
+      command: this.command,
       args: this.args,
+      record: this.recorder !== null,
       createdAt: this.createdAt.toISOString(),
       lastActivity: this.lastActivity.toISOString(),
       exited: this._exited,
@@ -136,15 +309,21 @@ export class PtySession extends EventEmitter {
     };
   }
 
-  toJSON() {
+  toJSON(): SessionInfo {
     return {
       id: this.id,
       name: this.name,
       cwd: this.cwd,
+      profile: this.profile,
       createdAt: this.createdAt.toISOString(),
       lastActivity: this.lastActivity.toISOString(),
-      connected: false, // will be set by session manager
+      clients: [], // will be set by session manager
       pid: this.pid,
+      recording: this.recorder !== null,
+      exited: this._exited,
+      exitCode: this._exitCode,
+      signal: this._exited ? this._signal : undefined,
+      exitedAt: this._exitedAt?.toISOString(),
     };
   }
 }
@@ -0,0 +1,157 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, openSync, readSync, closeSync, type WriteStream } from 'node:fs';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { getConfigDir } from './config.js';
+import { RECORDINGS_DIR } from '../shared/constants.js';
+
+const EVENTS_FILE_NAME = 'events.jsonl';
+
+/**
+ * 'o' = output, 'i' = input, 'r' = resize ("COLSxROWS"), matching asciinema event codes.
+ */
+export type RecordingEventType = 'o' | 'i' | 'r';
+
+export interface RecordingHeader {
+  version: 1;
+  sessionId: string;
+  name: string;
+  command: string;
+  cols: number;
+  rows: number;
+  /** Epoch milliseconds; event times are seconds relative to this */
+  startedAt: number;
+}
+
+export type RecordingEvent = [number, RecordingEventType, string];
+
+export function getRecordingDir(sessionId: string): string {
+  return join(getConfigDir(), RECORDINGS_DIR, sessionId);
+}
+
+function getEventsPath(sessionId: string): string {
+  return join(getRecordingDir(sessionId), EVENTS_FILE_NAME);
+}
+
+export function hasRecording(sessionId: string): boolean {
+  return existsSync(getEventsPath(sessionId));
+}
+
+/**
+ * Reads only the first line of a recording, without loading the whole file.
+ */
+function readHeader(eventsPath: string): RecordingHeader | null {
+  const fd = openSync(eventsPath, 'r');
+  try {
+    const buf = Buffer.alloc(4096);
+    const bytesRead = readSync(fd, buf, 0, buf.length, 0);
+    const firstLine = buf.subarray(0, bytesRead).toString('utf-8').split('\n')[0];
+    return firstLine ? JSON.parse(firstLine) as RecordingHeader : null;
+  } catch {
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Appends timestamped output, input and resize events for one session to
+ * ~/.ccr/recordings/<id>/events.jsonl. The file is independent of the scrollback
+ * RingBuffer, so nothing is lost when scrollback wraps.
+ *
+ * A restarted or restored session keeps appending to the same file, with event
+ * times relative to the original start.
+ */
+export class SessionRecorder {
+  private stream: WriteStream;
+  private startedAt: number;
+  private closed: Promise<void> | null = null;
+
+  constructor(header: Omit<RecordingHeader, 'version' | 'startedAt'>) {
+    mkdirSync(getRecordingDir(header.sessionId), { recursive: true });
+    const eventsPath = getEventsPath(header.sessionId);
+
+    const existing = existsSync(eventsPath) ? readHeader(eventsPath) : null;
+    this.startedAt = existing?.startedAt ?? Date.now();
+    this.stream = createWriteStream(eventsPath, { flags: 'a' });
+
+    if (!existing) {
+      const full: RecordingHeader = { version: 1, ...header, startedAt: this.startedAt };
+      this.stream.write(JSON.stringify(full) + '\n');
+    } else {
+      // Mark where the process was respawned so the size is correct from here on
+      this.resize(header.cols, header.rows);
+    }
+  }
+
+  output(data: string): void {
+    this.append('o', data);
+  }
+
+  input(data: string): void {
+    this.append('i', data);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.append('r', `${cols}x${rows}`);
+  }
+
+  /**
+   * Ends the file. Resolves once every event has been flushed to it, so a process about
+   * to exit can wait for that.
+   */
+  close(): Promise<void> {
+    this.closed ??= new Promise((resolve) => this.stream.end(() => resolve()));
+    return this.closed;
+  }
+
+  private append(type: RecordingEventType, data: string): void {
+    if (this.stream.writableEnded) return;
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const event: RecordingEvent = [elapsed, type, data];
+    this.stream.write(JSON.stringify(event) + '\n');
+  }
+}
+
+/**
+ * Streams a recording as asciinema v2 (.cast) lines: a header object followed by one event per line.
+ * Throws if the session has no recording.
+ */
+export async function* readAsciicast(sessionId: string): AsyncGenerator<string> {
+  const eventsPath = getEventsPath(sessionId);
+  if (!existsSync(eventsPath)) {
+    throw new Error(`No recording found for session ${sessionId}`);
+  }
+
+  const lines = createInterface({
+    input: createReadStream(eventsPath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  let headerSeen = false;
+  for await (const line of lines) {
+    if (!line) continue;
+
+    if (!headerSeen) {
+      headerSeen = true;
+      const header = JSON.parse(line) as RecordingHeader;
+      yield JSON.stringify({
+        version: 2,
+        width: header.cols,
+        height: header.rows,
+        timestamp: Math.floor(header.startedAt / 1000),
+        title: header.name,
+        command: header.command,
+        env: { TERM: 'xterm-256color' },
+      }) + '\n';
+      continue;
+    }
+
+    // Events are already in [time, code, data] form; skip a line torn by a crash mid-write
+    try {
+      JSON.parse(line);
+    } catch {
+      continue;
+    }
+    yield line + '\n';
+  }
+}
@@ -0,0 +1,91 @@
+import { Worker } from 'node:worker_threads';
+
+/** Index of a matching line and the offset of the match in it */
+export type LineMatch = [line: number, index: number];
+
+// Runs in the worker: matches each line against the pattern, up to `limit` matches
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const pattern = new RegExp(workerData.source, workerData.flags);
+parentPort.on('message', ({ lines, limit }) => {
+  const matches = [];
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const line = lines[i].length > workerData.maxLineLength ? lines[i].slice(0, workerData.maxLineLength) : lines[i];
+    const match = pattern.exec(line);
+    if (match) matches.push([i, match.index]);
+  }
+  parentPort.postMessage(matches);
+});
+`;
+
+export class RegexTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RegexTimeoutError';
+  }
+}
+
+interface PendingMatch {
+  resolve: (matches: LineMatch[]) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Matches a user-supplied regular expression in a worker thread, so a pattern that
+ * backtracks catastrophically can be stopped: a match() that runs past the time limit
+ * terminates the worker and rejects with RegexTimeoutError. Lines are only matched up
+ * to maxLineLength characters, which keeps minified files from eating the time limit.
+ */
+export class RegexMatcher {
+  private worker: Worker;
+  private pending: PendingMatch | null = null;
+  private stopped: Error | null = null;
+
+  constructor(
+    source: string,
+    flags: string,
+    private readonly timeoutMs: number,
+    maxLineLength: number,
+  ) {
+    this.worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { source, flags, maxLineLength } });
+    this.worker.unref();
+    this.worker.on('message', (matches: LineMatch[]) => this.settle(null, matches));
+    this.worker.on('error', (err) => this.stop(err));
+    this.worker.on('exit', () => this.stop(new Error('Regex worker exited')));
+  }
+
+  /**
+   * The matching lines, at most `limit` of them. Only one call may be in flight.
+   */
+  match(lines: string[], limit: number): Promise<LineMatch[]> {
+    if (this.stopped) return Promise.reject(this.stopped);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.stop(new RegexTimeoutError(`Regular expression took longer than ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending = { resolve, reject, timer };
+      this.worker.postMessage({ lines, limit });
+    });
+  }
+
+  close(): void {
+    this.stop(new Error('Regex matcher closed'));
+  }
+
+  private stop(err: Error): void {
+    if (this.stopped) return;
+    this.stopped = err;
+    void this.worker.terminate();
+    this.settle(err, []);
+  }
+
+  private settle(err: Error | null, matches: LineMatch[]): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    clearTimeout(pending.timer);
+    if (err) pending.reject(err);
+    else pending.resolve(matches);
+  }
+}
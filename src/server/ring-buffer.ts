@@ -1,14 +1,19 @@
 /**
  * Ring buffer for storing scrollback data.
  * When the buffer exceeds maxBytes, oldest chunks are dropped.
+ *
+ * Every byte ever pushed has a stream offset: startOffset is the offset of the
+ * oldest retained byte and endOffset is the offset the next pushed byte will get.
  */
 export class RingBuffer {
   private chunks: Buffer[] = [];
   private totalBytes = 0;
+  private _startOffset: number;
   private readonly maxBytes: number;
 
-  constructor(maxBytes: number) {
+  constructor(maxBytes: number, startOffset = 0) {
     this.maxBytes = maxBytes;
+    this._startOffset = startOffset;
   }
 
   push(data: Buffer | string): void {
@@ -19,6 +24,7 @@ export class RingBuffer {
     while (this.totalBytes > this.maxBytes && this.chunks.length > 1) {
       const removed = this.chunks.shift()!;
       this.totalBytes -= removed.length;
+      this._startOffset += removed.length;
     }
   }
 
@@ -26,11 +32,29 @@ export class RingBuffer {
     return Buffer.concat(this.chunks);
   }
 
+  /**
+   * Returns the bytes from the given stream offset up to endOffset,
+   * or null if some of them have already been dropped (or the offset is in the future).
+   */
+  getFrom(offset: number): Buffer | null {
+    if (offset < this._startOffset || offset > this.endOffset) return null;
+    return this.getAll().subarray(offset - this._startOffset);
+  }
+
   clear(): void {
     this.chunks = [];
+    this._startOffset += this.totalBytes;
     this.totalBytes = 0;
   }
 
+  get startOffset(): number {
+    return this._startOffset;
+  }
+
+  get endOffset(): number {
+    return this._startOffset + this.totalBytes;
+  }
+
   get size(): number {
     return this.totalBytes;
   }
@@ -43,10 +67,11 @@ export class RingBuffer {
    * Returns serializable data for session persistence.
    * Each chunk is converted to a base64 string.
    */
-  toJSON(): { chunks: string[]; maxBytes: number } {
+  toJSON(): { chunks: string[]; maxBytes: number; startOffset: number } {
     return {
       chunks: this.chunks.map((c) => c.toString('base64')),
       maxBytes: this.maxBytes,
+      startOffset: this._startOffset,
     };
   }
 
@@ -54,10 +79,11 @@ export class RingBuffer {
    * Restore a RingBuffer from previously saved chunks.
    * @param chunks - Array of Buffer instances to restore from
    * @param maxBytes - Optional max size; defaults to the sum of all chunk sizes if not provided
+   * @param startOffset - Stream offset of the first byte of the first chunk
    */
-  static fromChunks(chunks: Buffer[], maxBytes?: number): RingBuffer {
+  static fromChunks(chunks: Buffer[], maxBytes?: number, startOffset = 0): RingBuffer {
     const totalBytes = chunks.reduce((sum, c) => sum + c.length, 0);
-    const rb = new RingBuffer(maxBytes ?? totalBytes);
+    const rb = new RingBuffer(maxBytes ?? totalBytes, startOffset);
     for (const chunk of chunks) {
       rb.push(chunk);
     }
@@ -0,0 +1,59 @@
+import type { IncomingMessage } from 'node:http';
+import type { TLSSocket } from 'node:tls';
+import { SESSION_COOKIE_NAME } from '../shared/constants.js';
+import type { ServerConfig } from '../shared/types.js';
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of (header ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const name = part.slice(0, eq).trim();
+    try {
+      cookies.set(name, decodeURIComponent(part.slice(eq + 1).trim()));
+    } catch {
+      // Ignore malformed values rather than failing the whole request
+    }
+  }
+  return cookies;
+}
+
+/**
+ * The token stored in the login cookie set by /api/login, if any.
+ */
+export function getSessionCookieToken(req: IncomingMessage): string | null {
+  return parseCookies(req.headers.cookie).get(SESSION_COOKIE_NAME) ?? null;
+}
+
+function cookieAttributes(req: IncomingMessage, maxAgeSeconds: number): string {
+  const secure = (req.socket as TLSSocket).encrypted ? '; Secure' : '';
+  return `Path=/; Max-Age=${maxAgeSeconds}; HttpOnly; SameSite=Strict${secure}`;
+}
+
+/**
+ * Set-Cookie value holding the token until it expires.
+ */
+export function serializeSessionCookie(req: IncomingMessage, token: string, expiresAtSeconds: number): string {
+  const maxAge = Math.max(0, expiresAtSeconds - Math.floor(Date.now() / 1000));
+  return `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}; ${cookieAttributes(req, maxAge)}`;
+}
+
+export function clearSessionCookie(req: IncomingMessage): string {
+  return `${SESSION_COOKIE_NAME}=; ${cookieAttributes(req, 0)}`;
+}
+
+/**
+ * True if the request's Origin is the server itself or listed in config.allowedOrigins.
+ * Requests without an Origin are not from a browser page and are rejected, since
+ * cookie auth only exists for the Web IDE.
+ */
+export function isOriginAllowed(req: IncomingMessage, config: ServerConfig): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  if (config.allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
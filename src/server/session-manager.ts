@@ -1,81 +1,350 @@
 import crypto from 'node:crypto';
-import { mkdirSync } from 'node:fs';
-import { join } from 'node:path';
+import { EventEmitter } from 'node:events';
+import { mkdirSync, realpathSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve, sep } from 'node:path';
 import { PtySession, type PtySessionOptions } from './pty-session.js';
-import type { SessionInfo } from '../shared/types.js';
-import { SESSIONS_DIR } from '../shared/constants.js';
+import { SessionStore } from './session-store.js';
+import type { OutputFlowControl } from './flow-control.js';
+import type { SessionInfo, ClientRole, LaunchProfile } from '../shared/types.js';
+import { SESSIONS_DIR, DEFAULT_PROFILE_NAME, EXITED_SESSION_RETENTION_MS } from '../shared/constants.js';
 import type WebSocket from 'ws';
 
+interface AttachedClient {
+  id: string;
+  role: ClientRole;
+  remoteAddress: string;
+  attachedAt: Date;
+  /** Receives output chunks with the stream offset of their first byte */
+  onData: (data: Buffer, offset: number) => void;
+  flow: OutputFlowControl;
+}
+
 interface ManagedSession {
   session: PtySession;
-  client: WebSocket | null;
-  onData: (data: Buffer) => void;
+  clients: Map<WebSocket, AttachedClient>;
+}
+
+export interface SessionManagerOptions {
+  store?: SessionStore;
+  /** Named launch profiles; defaults to a single profile that runs claude */
+  profiles?: Record<string, LaunchProfile>;
+  defaultProfile?: string;
+  /** Record new sessions unless createSession() says otherwise */
+  recordSessions?: boolean;
+  /** Output coalescing window applied to every session */
+  outputCoalesceMs?: number;
+  outputCoalesceMaxBytes?: number;
+  /** Directories an explicit cwd must be inside; '~' is expanded */
+  workspaceRoots?: string[];
 }
 
-export class SessionManager {
+/**
+ * Why resolveWorkspaceCwd refused a cwd, and how to allow it.
+ */
+export function cwdNotAllowedMessage(cwd: string): string {
+  return `${cwd} is not a directory inside one of the server's workspaceRoots (config.json); ` +
+    'allow one with `ccr server workspaces add <dir>`';
+}
+
+export type CreateSessionOptions = Partial<Pick<PtySessionOptions, 'name' | 'cwd' | 'cols' | 'rows' | 'profile' | 'record'>>;
+
+export interface AttachClientOptions {
+  id: string;
+  role: ClientRole;
+  remoteAddress: string;
+  /** Flow control for this client's output; disposed when the client is detached */
+  flow: OutputFlowControl;
+}
+
+function expandHome(path: string): string {
+  return resolve(path.replace(/^~(?=$|[\\/])/, homedir()));
+}
+
+/**
+ * Events:
+ * - 'session-exited' (sessionId: string, exitCode: number, signal: number | null)
+ * - 'session-destroyed' (sessionId: string, exitCode: number, signal: number | null): the
+ *   session was removed; exitCode and signal are 0 and null if its process was still running
+ */
+export class SessionManager extends EventEmitter {
   private sessions = new Map<string, ManagedSession>();
   private baseDir: string;
+  private store: SessionStore;
+  private profiles: Record<string, LaunchProfile>;
+  private defaultProfile: string;
+  private recordSessions: boolean;
+  private outputOptions: Pick<PtySessionOptions, 'coalesceMs' | 'coalesceMaxBytes'>;
+  private workspaceRoots: string[];
 
-  constructor(baseDir?: string) {
+  constructor(baseDir?: string, opts: SessionManagerOptions = {}) {
+    super();
     this.baseDir = baseDir ?? process.cwd();
+    this.store = opts.store ?? new SessionStore();
+    this.profiles = opts.profiles ?? { [DEFAULT_PROFILE_NAME]: {} };
+    this.defaultProfile = opts.defaultProfile ?? DEFAULT_PROFILE_NAME;
+    this.recordSessions = opts.recordSessions ?? false;
+    this.outputOptions = {
+      coalesceMs: opts.outputCoalesceMs,
+      coalesceMaxBytes: opts.outputCoalesceMaxBytes,
+    };
+    this.workspaceRoots = (opts.workspaceRoots ?? []).map(expandHome);
     // Ensure sessions directory exists
     const sessionsDir = join(this.baseDir, SESSIONS_DIR);
     mkdirSync(sessionsDir, { recursive: true });
   }
 
-  createSession(opts?: Partial<Pick<PtySessionOptions, 'name' | 'cwd' | 'cols' | 'rows'>>): PtySession {
+  createSession(opts?: CreateSessionOptions): PtySession {
+    const profileName = opts?.profile ?? this.defaultProfile;
+    const profile = this.profiles[profileName];
+    if (!profile) {
+      throw new Error(`Unknown launch profile: ${profileName}`);
+    }
+
     const id = crypto.randomUUID().slice(0, 8);
     const name = opts?.name ?? `session-${id}`;
 
-    // Create isolated session folder
-    const sessionDir = join(this.baseDir, SESSIONS_DIR, id);
-    mkdirSync(sessionDir, { recursive: true });
+    // Without a cwd, the session gets its own isolated folder
+    let cwd = opts?.cwd ?? profile.cwd;
+    if (!cwd) {
+      cwd = join(this.baseDir, SESSIONS_DIR, id);
+      mkdirSync(cwd, { recursive: true });
+    }
 
     const session = new PtySession({
       id,
       name,
-      cwd: opts?.cwd ?? sessionDir,
+      cwd,
       cols: opts?.cols,
       rows: opts?.rows,
+      profile: profileName,
+      command: profile.command,
+      args: profile.args,
+      env: profile.env,
+      record: opts?.record ?? this.recordSessions,
+      ...this.outputOptions,
+    });
+
+    this.register(session);
+    return session;
+  }
+
+  /**
+   * Resolves a requested cwd, following symlinks, and returns it if it is inside one of
+   * the workspace roots. Returns null if it isn't, or isn't an existing directory.
+   */
+  resolveWorkspaceCwd(cwd: string): string | null {
+    let real: string;
+    try {
+      real = realpathSync(expandHome(cwd));
+      if (!statSync(real).isDirectory()) return null;
+    } catch {
+      return null;
+    }
+    const allowed = this.workspaceRoots.some((root) => {
+      let realRoot: string;
+      try {
+        realRoot = realpathSync(root);
+      } catch {
+        return false;
+      }
+      return real === realRoot || real.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep);
+    });
+    return allowed ? real : null;
+  }
+
+  /**
+   * Replaces the workspace roots, e.g. after `ccr server workspaces add` changed the config.
+   */
+  setWorkspaceRoots(roots: string[]): void {
+    this.workspaceRoots = roots.map(expandHome);
+  }
+
+  hasProfile(name: string): boolean {
+    return name in this.profiles;
+  }
+
+  getProfile(name: string): LaunchProfile | undefined {
+    return this.profiles[name];
+  }
+
+  listProfiles(): string[] {
+    return Object.keys(this.profiles);
+  }
+
+  /**
+   * Respawns every session found in the snapshot store.
+   * Claude sessions are started with --continue so they resume the same conversation in the same cwd;
+   * sessions running a custom command are simply started again.
+   * Returns the number of sessions restored.
+   */
+  restoreSessions(): number {
+    let restored = 0;
+    for (const state of this.store.loadAll()) {
+      if (this.sessions.has(state.id)) continue;
+
+      try {
+        const resumeClaude = !state.command
+          && !state.args.some((arg) => arg === '--continue' || arg === '--resume');
+        const session = new PtySession({
+          id: state.id,
+          name: state.name,
+          cwd: state.cwd,
+          profile: state.profile,
+          command: state.command,
+          args: resumeClaude ? [...state.args, '--continue'] : state.args,
+          env: this.profiles[state.profile]?.env,
+          record: state.record,
+          createdAt: new Date(state.createdAt),
+          scrollback: state.scrollback.chunks.map((c) => Buffer.from(c, 'base64')),
+          // Snapshots written before output offsets existed start counting from zero
+          scrollbackOffset: state.scrollback.startOffset ?? 0,
+          ...this.outputOptions,
+        });
+        this.register(session);
+        restored++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[SessionManager] Failed to restore session ${state.id}: ${message}`);
+        this.store.remove(state.id);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Writes a snapshot of every live session to the store.
+   */
+  snapshotAll(): void {
+    for (const managed of this.sessions.values()) {
+      if (managed.session.exited) continue;
+      try {
+        this.store.save(managed.session.getState());
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[SessionManager] Failed to snapshot session ${managed.session.id}: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Respawns a session with the same id, name, cwd and launch settings, keeping its
+   * scrollback and attached clients. A still-running process is killed first.
+   */
+  restartSession(sessionId: string): PtySession | undefined {
+    const managed = this.sessions.get(sessionId);
+    if (!managed) return undefined;
+
+    const old = managed.session;
+    const scrollback = old.getScrollback();
+    const scrollbackOffset = old.scrollbackOffset;
+    void old.kill();
+
+    const session = new PtySession({
+      id: old.id,
+      name: old.name,
+      cwd: old.cwd,
+      cols: old.cols,
+      rows: old.rows,
+      profile: old.profile,
+      command: old.command,
+      args: old.args,
+      env: old.env,
+      record: old.recording,
+      createdAt: old.createdAt,
+      scrollback: scrollback.length > 0 ? [scrollback] : undefined,
+      // Keep offsets continuous so clients can resume across the restart
+      scrollbackOffset,
+      ...this.outputOptions,
     });
 
+    managed.session = session;
+    this.watchExit(session);
+    for (const client of managed.clients.values()) {
+      session.on('data', client.onData);
+    }
+
+    return session;
+  }
+
+  private register(session: PtySession): void {
     const managed: ManagedSession = {
       session,
-      client: null,
-      onData: () => {},
+      clients: new Map(),
     };
 
-    session.on('exit', () => {
-      this.sessions.delete(id);
-    });
+    this.watchExit(session);
+    this.sessions.set(session.id, managed);
+  }
 
-    this.sessions.set(id, managed);
-    return session;
+  /**
+   * Exited sessions are kept as tombstones so clients can still read the final output;
+   * they are removed by destroySession() or cleanupExitedSessions().
+   */
+  private watchExit(session: PtySession): void {
+    session.on('exit', (exitCode: number, signal: number | null) => {
+      this.store.remove(session.id);
+      this.emit('session-exited', session.id, exitCode, signal);
+    });
   }
 
-  attachClient(sessionId: string, ws: WebSocket, onData: (data: Buffer) => void): boolean {
+  /**
+   * Attaches a client to a session. Any number of clients may be attached at once;
+   * re-attaching the same socket replaces its previous registration.
+   */
+  attachClient(
+    sessionId: string,
+    ws: WebSocket,
+    onData: (data: Buffer, offset: number) => void,
+    opts: AttachClientOptions,
+  ): boolean {
     const managed = this.sessions.get(sessionId);
     if (!managed) return false;
 
-    // Detach previous client if any
-    if (managed.client) {
-      managed.session.removeListener('data', managed.onData);
+    const previous = managed.clients.get(ws);
+    if (previous) {
+      managed.session.removeListener('data', previous.onData);
+      previous.flow.dispose();
     }
 
-    managed.client = ws;
-    managed.onData = onData;
+    managed.clients.set(ws, {
+      id: opts.id,
+      role: opts.role,
+      remoteAddress: opts.remoteAddress,
+      attachedAt: new Date(),
+      onData,
+      flow: opts.flow,
+    });
     managed.session.on('data', onData);
 
     return true;
   }
 
-  detachClient(sessionId: string): void {
+  detachClient(sessionId: string, ws: WebSocket): void {
     const managed = this.sessions.get(sessionId);
     if (!managed) return;
 
-    managed.session.removeListener('data', managed.onData);
-    managed.client = null;
-    managed.onData = () => {};
+    const client = managed.clients.get(ws);
+    if (!client) return;
+
+    managed.session.removeListener('data', client.onData);
+    client.flow.dispose();
+    managed.clients.delete(ws);
+  }
+
+  /**
+   * Returns all sockets currently attached to a session.
+   */
+  getAttachedClients(sessionId: string): WebSocket[] {
+    const managed = this.sessions.get(sessionId);
+    return managed ? [...managed.clients.keys()] : [];
+  }
+
+  /**
+   * Returns the role the given socket is attached with, or undefined if it is not attached.
+   */
+  getClientRole(sessionId: string, ws: WebSocket): ClientRole | undefined {
+    return this.sessions.get(sessionId)?.clients.get(ws)?.role;
   }
 
   getSession(sessionId: string): PtySession | undefined {
@@ -84,18 +353,18 @@ export class SessionManager {
 
   getSessionForClient(ws: WebSocket): PtySession | undefined {
     for (const managed of this.sessions.values()) {
-      if (managed.client === ws) return managed.session;
+      if (managed.clients.has(ws)) return managed.session;
     }
     return undefined;
   }
 
   /**
-   * Returns all sessions where the given WebSocket is the connected client.
+   * Returns all sessions the given WebSocket is attached to.
    */
   getSessionsForClient(ws: WebSocket): PtySession[] {
     const result: PtySession[] = [];
     for (const managed of this.sessions.values()) {
-      if (managed.client === ws) {
+      if (managed.clients.has(ws)) {
         result.push(managed.session);
       }
     }
@@ -116,7 +385,7 @@ export class SessionManager {
 
   /**
    * If no sessions exist, creates a new default session and returns it.
-   * Otherwise, returns the first available (non-connected) session,
+   * Otherwise, returns the first session with no attached clients,
    * or the very first session if all are occupied.
    */
   getOrCreateDefaultSession(): PtySession {
@@ -126,7 +395,7 @@ export class SessionManager {
 
     // Prefer an unoccupied session
     for (const managed of this.sessions.values()) {
-      if (managed.client === null) {
+      if (managed.clients.size === 0 && !managed.session.exited) {
         return managed.session;
       }
     }
@@ -139,19 +408,30 @@ export class SessionManager {
     const managed = this.sessions.get(sessionId);
     if (!managed) return false;
 
-    managed.session.kill();
-    this.sessions.delete(sessionId);
+    void managed.session.kill();
+    this.forget(sessionId, managed);
     return true;
   }
 
   listSessions(): SessionInfo[] {
-    const list: SessionInfo[] = [];
-    for (const managed of this.sessions.values()) {
-      const info = managed.session.toJSON();
-      info.connected = managed.client !== null;
-      list.push(info);
-    }
-    return list;
+    return [...this.sessions.values()].map((managed) => this.toSessionInfo(managed));
+  }
+
+  getSessionInfo(sessionId: string): SessionInfo | undefined {
+    const managed = this.sessions.get(sessionId);
+    return managed ? this.toSessionInfo(managed) : undefined;
+  }
+
+  private toSessionInfo(managed: ManagedSession): SessionInfo {
+    const info = managed.session.toJSON();
+    info.clients = [...managed.clients.values()].map((c) => ({
+      id: c.id,
+      role: c.role,
+      remoteAddress: c.remoteAddress,
+      attachedAt: c.attachedAt.toISOString(),
+      flow: c.flow.getStats(),
+    }));
+    return info;
   }
 
   getSessionCount(): number {
@@ -164,21 +444,72 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Snapshots all sessions and kills their processes without discarding the snapshots,
+   * so they are respawned by restoreSessions() on the next start.
+   */
+  shutdown(): Promise<void> {
+    this.snapshotAll();
+    const killed: Promise<void>[] = [];
+    for (const managed of this.sessions.values()) {
+      killed.push(managed.session.kill());
+      this.disposeClients(managed);
+    }
+    this.sessions.clear();
+    return Promise.all(killed).then(() => undefined);
+  }
+
   cleanupIdleSessions(): number {
     let cleaned = 0;
     for (const [id, managed] of this.sessions) {
-      if (managed.client === null && managed.session.isIdle()) {
+      if (managed.clients.size === 0 && !managed.session.exited && managed.session.isIdle()) {
         const idleMinutes = Math.round(
           (Date.now() - managed.session.lastActivity.getTime()) / 60_000,
         );
         console.log(
           `[SessionManager] Cleaning up idle session: id=${id}, name="${managed.session.name}", idle for ${idleMinutes}m`,
         );
-        managed.session.kill();
-        this.sessions.delete(id);
+        void managed.session.kill();
+        this.forget(id, managed);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  /**
+   * Removes exited sessions whose retention period has passed.
+   */
+  cleanupExitedSessions(retentionMs: number = EXITED_SESSION_RETENTION_MS): number {
+    let cleaned = 0;
+    const now = Date.now();
+    for (const [id, managed] of this.sessions) {
+      const exitedAt = managed.session.exitedAt;
+      if (exitedAt && now - exitedAt.getTime() > retentionMs) {
+        console.log(`[SessionManager] Removing exited session: id=${id}, name="${managed.session.name}"`);
+        void managed.session.kill();
+        this.forget(id, managed);
         cleaned++;
       }
     }
     return cleaned;
   }
+
+  /**
+   * Drops a killed session and its clients, and emits 'session-destroyed'.
+   */
+  private forget(sessionId: string, managed: ManagedSession): void {
+    this.disposeClients(managed);
+    this.sessions.delete(sessionId);
+    this.store.remove(sessionId);
+    const { exitCode, signal } = managed.session.toJSON();
+    this.emit('session-destroyed', sessionId, exitCode ?? 0, signal ?? null);
+  }
+
+  private disposeClients(managed: ManagedSession): void {
+    for (const client of managed.clients.values()) {
+      client.flow.dispose();
+    }
+    managed.clients.clear();
+  }
 }
@@ -0,0 +1,56 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync, renameSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfigDir } from './config.js';
+import { SESSIONS_DIR } from '../shared/constants.js';
+import type { PtySessionState } from './pty-session.js';
+
+/**
+ * Persists session snapshots (metadata + scrollback) as one JSON file per session
+ * under ~/.ccr/sessions so they can be restored after a server restart. Scrollback can
+ * hold anything printed to the terminal, so snapshots are readable by the owner only.
+ */
+export class SessionStore {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir ?? join(getConfigDir(), SESSIONS_DIR);
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  save(state: PtySessionState): void {
+    const filePath = this.getPath(state.id);
+    const tmpPath = `${filePath}.tmp`;
+
+    // Write to a temp file first so a crash mid-write never leaves a truncated snapshot
+    writeFileSync(tmpPath, JSON.stringify(state), { encoding: 'utf-8', mode: 0o600 });
+    renameSync(tmpPath, filePath);
+  }
+
+  loadAll(): PtySessionState[] {
+    if (!existsSync(this.dir)) return [];
+
+    const states: PtySessionState[] = [];
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const raw = readFileSync(join(this.dir, file), 'utf-8');
+        states.push(JSON.parse(raw) as PtySessionState);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[SessionStore] Skipping unreadable snapshot ${file}: ${message}`);
+      }
+    }
+    return states;
+  }
+
+  remove(sessionId: string): void {
+    const filePath = this.getPath(sessionId);
+    if (existsSync(filePath)) {
+      unlinkSync(filePath);
+    }
+  }
+
+  private getPath(sessionId: string): string {
+    return join(this.dir, `${sessionId}.json`);
+  }
+}
@@ -0,0 +1,985 @@
+/**
+ * Headless VT screen model.
+ *
+ * Tracks what an xterm-compatible terminal would be showing for a PTY stream: the
+ * primary and alternate screen grids, cursor, scroll region, the modes a client
+ * needs to behave the same way (cursor keys, bracketed paste, mouse tracking, ...)
+ * and a bounded number of scrollback lines.
+ *
+ * serialize() turns that state into a compact escape sequence stream that redraws
+ * the screen on a freshly reset terminal, which is much smaller than the raw byte
+ * history and never starts in the middle of an escape sequence.
+ */
+
+interface Cell {
+  /** Character(s) in this cell; '' marks the right half of a wide character */
+  ch: string;
+  /** Normalized SGR parameters, '' for default attributes */
+  attr: string;
+}
+
+type Line = Cell[];
+
+interface Attributes {
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  blink: boolean;
+  inverse: boolean;
+  hidden: boolean;
+  strike: boolean;
+  /** SGR foreground parameters, e.g. '31', '38;5;196', '38;2;10;20;30' */
+  fg: string;
+  /** SGR background parameters, e.g. '41', '48;5;17' */
+  bg: string;
+}
+
+interface SavedCursor {
+  x: number;
+  y: number;
+  attrs: Attributes;
+  originMode: boolean;
+}
+
+type ParserState = 'ground' | 'escape' | 'escapeIntermediate' | 'csi' | 'osc' | 'string' | 'stringEscape';
+
+const ESC = '\x1b';
+
+/** DEC private modes that are replayed as-is when serializing */
+const REPLAYED_PRIVATE_MODES = [1, 12, 1000, 1002, 1003, 1004, 1005, 1006, 1015, 2004];
+
+const MAX_OSC_LENGTH = 4096;
+const TAB_WIDTH = 8;
+
+function defaultAttributes(): Attributes {
+  return {
+    bold: false,
+    dim: false,
+    italic: false,
+    underline: false,
+    blink: false,
+    inverse: false,
+    hidden: false,
+    strike: false,
+    fg: '',
+    bg: '',
+  };
+}
+
+function attributesToSgr(a: Attributes): string {
+  const codes: string[] = [];
+  if (a.bold) codes.push('1');
+  if (a.dim) codes.push('2');
+  if (a.italic) codes.push('3');
+  if (a.underline) codes.push('4');
+  if (a.blink) codes.push('5');
+  if (a.inverse) codes.push('7');
+  if (a.hidden) codes.push('8');
+  if (a.strike) codes.push('9');
+  if (a.fg) codes.push(a.fg);
+  if (a.bg) codes.push(a.bg);
+  return codes.join(';');
+}
+
+function inRange(cp: number, ranges: ReadonlyArray<readonly [number, number]>): boolean {
+  for (const [lo, hi] of ranges) {
+    if (cp < lo) return false;
+    if (cp <= hi) return true;
+  }
+  return false;
+}
+
+const ZERO_WIDTH_RANGES = [
+  [0x0300, 0x036f], [0x0483, 0x0489], [0x0591, 0x05bd], [0x0610, 0x061a],
+  [0x064b, 0x065f], [0x0e31, 0x0e31], [0x0e34, 0x0e3a], [0x0e47, 0x0e4e],
+  [0x1ab0, 0x1aff], [0x1dc0, 0x1dff], [0x200b, 0x200f], [0x20d0, 0x20ff],
+  [0xfe00, 0xfe0f], [0xfe20, 0xfe2f], [0xe0100, 0xe01ef],
+] as const;
+
+const WIDE_RANGES = [
+  [0x1100, 0x115f], [0x231a, 0x231b], [0x2329, 0x232a], [0x23e9, 0x23ec],
+  [0x23f0, 0x23f0], [0x23f3, 0x23f3], [0x25fd, 0x25fe], [0x2614, 0x2615],
+  [0x2648, 0x2653], [0x267f, 0x267f], [0x2693, 0x2693], [0x26a1, 0x26a1],
+  [0x26aa, 0x26ab], [0x26bd, 0x26be], [0x26c4, 0x26c5], [0x26ce, 0x26ce],
+  [0x26d4, 0x26d4], [0x26ea, 0x26ea], [0x26f2, 0x26f3], [0x26f5, 0x26f5],
+  [0x26fa, 0x26fa], [0x26fd, 0x26fd], [0x2705, 0x2705], [0x270a, 0x270b],
+  [0x2728, 0x2728], [0x274c, 0x274c], [0x274e, 0x274e], [0x2753, 0x2755],
+  [0x2757, 0x2757], [0x2795, 0x2797], [0x27b0, 0x27b0], [0x27bf, 0x27bf],
+  [0x2b1b, 0x2b1c], [0x2b50, 0x2b50], [0x2b55, 0x2b55], [0x2e80, 0x303e],
+  [0x3041, 0x33ff], [0x3400, 0x4dbf], [0x4e00, 0x9fff], [0xa000, 0xa4cf],
+  [0xa960, 0xa97f], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f], [0xff00, 0xff60], [0xffe0, 0xffe6], [0x16fe0, 0x16fe4],
+  [0x17000, 0x18aff], [0x1b000, 0x1b2ff], [0x1f004, 0x1f004], [0x1f0cf, 0x1f0cf],
+  [0x1f18e, 0x1f18e], [0x1f191, 0x1f19a], [0x1f200, 0x1f251], [0x1f300, 0x1f64f],
+  [0x1f680, 0x1f6ff], [0x1f7e0, 0x1f7eb], [0x1f90c, 0x1f9ff], [0x1fa70, 0x1faff],
+  [0x20000, 0x3fffd],
+] as const;
+
+/**
+ * Approximate wcwidth: 0 for combining marks, 2 for East Asian wide and emoji, 1 otherwise.
+ */
+export function charWidth(cp: number): number {
+  if (cp < 0x300) return 1;
+  if (inRange(cp, ZERO_WIDTH_RANGES)) return 0;
+  if (inRange(cp, WIDE_RANGES)) return 2;
+  return 1;
+}
+
+export class TerminalScreen {
+  private _cols: number;
+  private _rows: number;
+  private maxScrollback: number;
+
+  private primary: Line[];
+  private alternate: Line[];
+  private useAlternate = false;
+  /** Serialized scrollback lines, oldest first */
+  private scrollback: string[] = [];
+
+  private cursorX = 0;
+  private cursorY = 0;
+  private wrapPending = false;
+  private attrs: Attributes = defaultAttributes();
+  private attr = '';
+  private savedCursor: SavedCursor | null = null;
+  private altSavedCursor: SavedCursor | null = null;
+
+  private scrollTop = 0;
+  private scrollBottom: number;
+
+  private autowrap = true;
+  private originMode = false;
+  private insertMode = false;
+  private cursorVisible = true;
+  private appKeypad = false;
+  private cursorStyle = 0;
+  private privateModes = new Set<number>();
+  private title = '';
+  private lastPrinted = '';
+
+  private state: ParserState = 'ground';
+  private params = '';
+  private intermediates = '';
+  private oscData = '';
+
+  constructor(cols: number, rows: number, maxScrollback: number) {
+    this._cols = Math.max(1, cols);
+    this._rows = Math.max(1, rows);
+    this.maxScrollback = maxScrollback;
+    this.primary = this.blankLines(this._rows);
+    this.alternate = this.blankLines(this._rows);
+    this.scrollBottom = this._rows - 1;
+  }
+
+  get cols(): number {
+    return this._cols;
+  }
+
+  get rows(): number {
+    return this._rows;
+  }
+
+  private get lines(): Line[] {
+    return this.useAlternate ? this.alternate : this.primary;
+  }
+
+  // --- Input ---
+
+  write(data: string): void {
+    for (const ch of data) {
+      switch (this.state) {
+        case 'ground':
+          this.handleGround(ch);
+          break;
+        case 'escape':
+          this.handleEscape(ch);
+          break;
+        case 'escapeIntermediate':
+          // Charset designation (ESC ( B), DECALN (ESC # 8) etc. have no visible state we keep
+          if (ch >= '\x30' && ch <= '\x7e') this.state = 'ground';
+          break;
+        case 'csi':
+          this.handleCsi(ch);
+          break;
+        case 'osc':
+          this.handleOsc(ch);
+          break;
+        case 'string':
+          if (ch === ESC) this.state = 'stringEscape';
+          else if (ch === '\x07') this.state = 'ground';
+          break;
+        case 'stringEscape':
+          // ESC \ is ST; an ESC followed by anything else ends the string and starts a new sequence
+          if (ch === '\\') this.state = 'ground';
+          else this.handleEscape(ch);
+          break;
+      }
+    }
+  }
+
+  private handleGround(ch: string): void {
+    const cp = ch.codePointAt(0)!;
+
+    if (cp >= 0x20 && cp !== 0x7f) {
+      this.print(ch, cp);
+      return;
+    }
+
+    switch (cp) {
+      case 0x08: // BS
+        if (this.cursorX > 0) this.cursorX--;
+        this.wrapPending = false;
+        break;
+      case 0x09: // HT
+        this.cursorX = Math.min(this._cols - 1, (Math.floor(this.cursorX / TAB_WIDTH) + 1) * TAB_WIDTH);
+        this.wrapPending = false;
+        break;
+      case 0x0a: // LF
+      case 0x0b: // VT
+      case 0x0c: // FF
+        this.lineFeed();
+        break;
+      case 0x0d: // CR
+        this.cursorX = 0;
+        this.wrapPending = false;
+        break;
+      case 0x1b:
+        this.state = 'escape';
+        break;
+      default:
+        // BEL, SO/SI and other C0 controls have no effect on the grid
+        break;
+    }
+  }
+
+  private handleEscape(ch: string): void {
+    this.state = 'ground';
+
+    switch (ch) {
+      case '[':
+        this.state = 'csi';
+        this.params = '';
+        this.intermediates = '';
+        break;
+      case ']':
+        this.state = 'osc';
+        this.oscData = '';
+        break;
+      case 'P': // DCS
+      case 'X': // SOS
+      case '^': // PM
+      case '_': // APC
+        this.state = 'string';
+        break;
+      case '7':
+        this.savedCursor = this.saveCursor();
+        break;
+      case '8':
+        this.restoreCursor(this.savedCursor);
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.cursorX = 0;
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'c':
+        this.reset();
+        break;
+      case '=':
+        this.appKeypad = true;
+        break;
+      case '>':
+        this.appKeypad = false;
+        break;
+      default:
+        if (ch >= '\x20' && ch <= '\x2f') {
+          this.state = 'escapeIntermediate';
+        }
+        break;
+    }
+  }
+
+  private handleCsi(ch: string): void {
+    if ((ch >= '0' && ch <= '9') || ch === ';' || ch === ':' || ch === '?' || ch === '>' || ch === '<' || ch === '=') {
+      this.params += ch;
+      return;
+    }
+    if (ch >= '\x20' && ch <= '\x2f') {
+      this.intermediates += ch;
+      return;
+    }
+    if (ch >= '\x40' && ch <= '\x7e') {
+      this.state = 'ground';
+      this.dispatchCsi(ch);
+      return;
+    }
+    // Anything else (including ESC) aborts the sequence
+    this.state = ch === ESC ? 'escape' : 'ground';
+  }
+
+  private handleOsc(ch: string): void {
+    if (ch === '\x07') {
+      this.dispatchOsc();
+      this.state = 'ground';
+    } else if (ch === ESC) {
+      this.dispatchOsc();
+      this.state = 'stringEscape';
+    } else if (this.oscData.length < MAX_OSC_LENGTH) {
+      this.oscData += ch;
+    }
+  }
+
+  private dispatchOsc(): void {
+    const sep = this.oscData.indexOf(';');
+    if (sep === -1) return;
+    const code = this.oscData.slice(0, sep);
+    if (code === '0' || code === '2') {
+      this.title = this.oscData.slice(sep + 1);
+    }
+  }
+
+  // --- Printing and movement ---
+
+  private print(ch: string, cp: number): void {
+    const width = charWidth(cp);
+
+    if (width === 0) {
+      // Combining mark: attach to the previous cell
+      const line = this.lines[this.cursorY];
+      const x = this.wrapPending ? this.cursorX : this.cursorX - 1;
+      if (x >= 0) {
+        const target = line[x].ch === '' && x > 0 ? line[x - 1] : line[x];
+        target.ch += ch;
+      }
+      return;
+    }
+
+    if (this.wrapPending && this.autowrap) {
+      this.cursorX = 0;
+      this.lineFeed();
+    }
+    this.wrapPending = false;
+
+    if (width === 2 && this.cursorX === this._cols - 1) {
+      if (!this.autowrap) return;
+      // Not enough room for a wide character: pad and wrap
+      this.lines[this.cursorY][this.cursorX] = { ch: ' ', attr: this.attr };
+      this.cursorX = 0;
+      this.lineFeed();
+    }
+
+    const line = this.lines[this.cursorY];
+    if (this.insertMode) {
+      for (let i = 0; i < width; i++) {
+        line.splice(this.cursorX, 0, { ch: ' ', attr: this.attr });
+        line.pop();
+      }
+    }
+
+    this.clearWideAt(line, this.cursorX);
+    line[this.cursorX] = { ch, attr: this.attr };
+    if (width === 2) {
+      this.clearWideAt(line, this.cursorX + 1);
+      line[this.cursorX + 1] = { ch: '', attr: this.attr };
+    }
+    this.lastPrinted = ch;
+
+    this.cursorX += width;
+    if (this.cursorX >= this._cols) {
+      this.cursorX = this._cols - 1;
+      this.wrapPending = this.autowrap;
+    }
+  }
+
+  /**
+   * Blanks the other half of a wide character before cell x is overwritten.
+   */
+  private clearWideAt(line: Line, x: number): void {
+    const cell = line[x];
+    if (!cell) return;
+    if (cell.ch === '' && x > 0) {
+      line[x - 1] = { ch: ' ', attr: line[x - 1].attr };
+    } else if (x + 1 < line.length && line[x + 1].ch === '') {
+      line[x + 1] = { ch: ' ', attr: line[x + 1].attr };
+    }
+  }
+
+  private lineFeed(): void {
+    this.wrapPending = false;
+    if (this.cursorY === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.cursorY < this._rows - 1) {
+      this.cursorY++;
+    }
+  }
+
+  private reverseIndex(): void {
+    this.wrapPending = false;
+    if (this.cursorY === this.scrollTop) {
+      this.scrollDown(1);
+    } else if (this.cursorY > 0) {
+      this.cursorY--;
+    }
+  }
+
+  private scrollUp(n: number): void {
+    const lines = this.lines;
+    const count = Math.min(n, this.scrollBottom - this.scrollTop + 1);
+    const removed = lines.splice(this.scrollTop, count);
+    lines.splice(this.scrollBottom - count + 1, 0, ...this.blankLines(count, this.eraseAttr()));
+
+    // Only lines leaving the top of the full primary screen become scrollback
+    if (!this.useAlternate && this.scrollTop === 0) {
+      for (const line of removed) {
+        this.scrollback.push(this.serializeLine(line));
+      }
+      if (this.scrollback.length > this.maxScrollback) {
+        this.scrollback.splice(0, this.scrollback.length - this.maxScrollback);
+      }
+    }
+  }
+
+  private scrollDown(n: number): void {
+    const lines = this.lines;
+    const count = Math.min(n, this.scrollBottom - this.scrollTop + 1);
+    lines.splice(this.scrollBottom - count + 1, count);
+    lines.splice(this.scrollTop, 0, ...this.blankLines(count, this.eraseAttr()));
+  }
+
+  private setCursor(x: number, y: number): void {
+    const minY = this.originMode ? this.scrollTop : 0;
+    const maxY = this.originMode ? this.scrollBottom : this._rows - 1;
+    this.cursorX = Math.max(0, Math.min(this._cols - 1, x));
+    this.cursorY = Math.max(minY, Math.min(maxY, y));
+    this.wrapPending = false;
+  }
+
+  // --- CSI dispatch ---
+
+  private dispatchCsi(final: string): void {
+    const prefix = /^[?>=<]/.test(this.params) ? this.params[0] : '';
+    const rawParams = prefix ? this.params.slice(1) : this.params;
+    const params = rawParams === '' ? [] : rawParams.split(';');
+    const num = (i: number, def: number): number => {
+      const v = parseInt(params[i] ?? '', 10);
+      return isNaN(v) || v === 0 ? def : v;
+    };
+
+    if (prefix === '?') {
+      if (final === 'h' || final === 'l') {
+        for (const p of params) {
+          this.setPrivateMode(parseInt(p, 10), final === 'h');
+        }
+      }
+      return;
+    }
+    if (prefix) return;
+
+    if (this.intermediates === ' ' && final === 'q') {
+      this.cursorStyle = parseInt(params[0] ?? '0', 10) || 0;
+      return;
+    }
+    if (this.intermediates) return;
+
+    const lines = this.lines;
+    const line = lines[this.cursorY];
+
+    switch (final) {
+      case '@': { // ICH
+        const n = Math.min(num(0, 1), this._cols - this.cursorX);
+        line.splice(this.cursorX, 0, ...this.blankCells(n, this.eraseAttr()));
+        line.length = this._cols;
+        break;
+      }
+      case 'A':
+        this.setCursor(this.cursorX, this.cursorY - num(0, 1));
+        break;
+      case 'B':
+        this.setCursor(this.cursorX, this.cursorY + num(0, 1));
+        break;
+      case 'C':
+      case 'a':
+        this.setCursor(this.cursorX + num(0, 1), this.cursorY);
+        break;
+      case 'D':
+        this.setCursor(this.cursorX - num(0, 1), this.cursorY);
+        break;
+      case 'E':
+        this.setCursor(0, this.cursorY + num(0, 1));
+        break;
+      case 'F':
+        this.setCursor(0, this.cursorY - num(0, 1));
+        break;
+      case 'G':
+      case '`':
+        this.setCursor(num(0, 1) - 1, this.cursorY);
+        break;
+      case 'H':
+      case 'f': {
+        const offset = this.originMode ? this.scrollTop : 0;
+        this.setCursor(num(1, 1) - 1, offset + num(0, 1) - 1);
+        break;
+      }
+      case 'I': {
+        const n = num(0, 1);
+        const x = (Math.floor(this.cursorX / TAB_WIDTH) + n) * TAB_WIDTH;
+        this.setCursor(x, this.cursorY);
+        break;
+      }
+      case 'Z': {
+        const n = num(0, 1);
+        const x = (Math.ceil(this.cursorX / TAB_WIDTH) - n) * TAB_WIDTH;
+        this.setCursor(x, this.cursorY);
+        break;
+      }
+      case 'J':
+        this.eraseInDisplay(parseInt(params[0] ?? '0', 10) || 0);
+        break;
+      case 'K':
+        this.eraseInLine(parseInt(params[0] ?? '0', 10) || 0);
+        break;
+      case 'L': // IL
+        if (this.cursorY >= this.scrollTop && this.cursorY <= this.scrollBottom) {
+          const n = Math.min(num(0, 1), this.scrollBottom - this.cursorY + 1);
+          lines.splice(this.scrollBottom - n + 1, n);
+          lines.splice(this.cursorY, 0, ...this.blankLines(n, this.eraseAttr()));
+          this.cursorX = 0;
+        }
+        break;
+      case 'M': // DL
+        if (this.cursorY >= this.scrollTop && this.cursorY <= this.scrollBottom) {
+          const n = Math.min(num(0, 1), this.scrollBottom - this.cursorY + 1);
+          lines.splice(this.cursorY, n);
+          lines.splice(this.scrollBottom - n + 1, 0, ...this.blankLines(n, this.eraseAttr()));
+          this.cursorX = 0;
+        }
+        break;
+      case 'P': { // DCH
+        const n = Math.min(num(0, 1), this._cols - this.cursorX);
+        line.splice(this.cursorX, n);
+        line.push(...this.blankCells(n, this.eraseAttr()));
+        break;
+      }
+      case 'S':
+        this.scrollUp(num(0, 1));
+        break;
+      case 'T':
+        this.scrollDown(num(0, 1));
+        break;
+      case 'X': { // ECH
+        const end = Math.min(this._cols, this.cursorX + num(0, 1));
+        this.fillCells(line, this.cursorX, end);
+        break;
+      }
+      case 'b': // REP
+        if (this.lastPrinted) {
+          const cp = this.lastPrinted.codePointAt(0)!;
+          for (let i = num(0, 1); i > 0; i--) this.print(this.lastPrinted, cp);
+        }
+        break;
+      case 'd':
+        this.setCursor(this.cursorX, (this.originMode ? this.scrollTop : 0) + num(0, 1) - 1);
+        break;
+      case 'e':
+        this.setCursor(this.cursorX, this.cursorY + num(0, 1));
+        break;
+      case 'h':
+      case 'l':
+        if (params.includes('4')) this.insertMode = final === 'h';
+        break;
+      case 'm':
+        this.applySgr(params);
+        break;
+      case 'r': {
+        const top = num(0, 1) - 1;
+        const bottom = num(1, this._rows) - 1;
+        if (top < bottom && bottom < this._rows) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.setCursor(0, this.originMode ? top : 0);
+        }
+        break;
+      }
+      case 's':
+        if (params.length === 0) this.savedCursor = this.saveCursor();
+        break;
+      case 'u':
+        this.restoreCursor(this.savedCursor);
+        break;
+      default:
+        // Queries (DSR, DA) and window operations are answered by real clients, not by us
+        break;
+    }
+  }
+
+  private setPrivateMode(mode: number, enabled: boolean): void {
+    switch (mode) {
+      case 6:
+        this.originMode = enabled;
+        this.setCursor(0, enabled ? this.scrollTop : 0);
+        break;
+      case 7:
+        this.autowrap = enabled;
+        if (!enabled) this.wrapPending = false;
+        break;
+      case 25:
+        this.cursorVisible = enabled;
+        break;
+      case 47:
+      case 1047:
+        this.switchScreen(enabled, mode === 1047);
+        break;
+      case 1049:
+        if (enabled) {
+          this.altSavedCursor = this.saveCursor();
+          this.switchScreen(true, true);
+        } else {
+          this.switchScreen(false, false);
+          this.restoreCursor(this.altSavedCursor);
+        }
+        break;
+      default:
+        if (REPLAYED_PRIVATE_MODES.includes(mode)) {
+          if (enabled) this.privateModes.add(mode);
+          else this.privateModes.delete(mode);
+        }
+        break;
+    }
+  }
+
+  private switchScreen(alternate: boolean, clear: boolean): void {
+    if (alternate && clear) {
+      this.alternate = this.blankLines(this._rows);
+    }
+    this.useAlternate = alternate;
+    this.wrapPending = false;
+  }
+
+  private applySgr(params: string[]): void {
+    if (params.length === 0) params = ['0'];
+    const a = this.attrs;
+
+    for (let i = 0; i < params.length; i++) {
+      const p = params[i];
+
+      // Colon sub-parameters: 38:2::r:g:b, 38:5:n, 4:3 (curly underline)
+      if (p.includes(':')) {
+        const sub = p.split(':');
+        if (sub[0] === '38' || sub[0] === '48') {
+          const color = sub[1] === '5'
+            ? `${sub[0]};5;${sub[2] ?? 0}`
+            : sub[1] === '2'
+              ? `${sub[0]};2;${sub.slice(-3).map((v) => v || '0').join(';')}`
+              : '';
+          if (sub[0] === '38') a.fg = color;
+          else a.bg = color;
+        } else if (sub[0] === '4') {
+          a.underline = sub[1] !== '0';
+        }
+        continue;
+      }
+
+      const code = parseInt(p, 10) || 0;
+      if (code === 38 || code === 48) {
+        let color = '';
+        if (params[i + 1] === '5') {
+          color = `${code};5;${params[i + 2] ?? 0}`;
+          i += 2;
+        } else if (params[i + 1] === '2') {
+          color = `${code};2;${params[i + 2] ?? 0};${params[i + 3] ?? 0};${params[i + 4] ?? 0}`;
+          i += 4;
+        }
+        if (code === 38) a.fg = color;
+        else a.bg = color;
+        continue;
+      }
+
+      if (code === 0) Object.assign(a, defaultAttributes());
+      else if (code === 1) a.bold = true;
+      else if (code === 2) a.dim = true;
+      else if (code === 3) a.italic = true;
+      else if (code === 4 || code === 21) a.underline = true;
+      else if (code === 5 || code === 6) a.blink = true;
+      else if (code === 7) a.inverse = true;
+      else if (code === 8) a.hidden = true;
+      else if (code === 9) a.strike = true;
+      else if (code === 22) { a.bold = false; a.dim = false; }
+      else if (code === 23) a.italic = false;
+      else if (code === 24) a.underline = false;
+      else if (code === 25) a.blink = false;
+      else if (code === 27) a.inverse = false;
+      else if (code === 28) a.hidden = false;
+      else if (code === 29) a.strike = false;
+      else if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) a.fg = String(code);
+      else if (code === 39) a.fg = '';
+      else if ((code >= 40 && code <= 47) || (code >= 100 && code <= 107)) a.bg = String(code);
+      else if (code === 49) a.bg = '';
+    }
+
+    this.attr = attributesToSgr(a);
+  }
+
+  // --- Erasing ---
+
+  private eraseInDisplay(mode: number): void {
+    const lines = this.lines;
+    switch (mode) {
+      case 0:
+        this.eraseInLine(0);
+        for (let y = this.cursorY + 1; y < this._rows; y++) lines[y] = this.blankLine(this.eraseAttr());
+        break;
+      case 1:
+        this.eraseInLine(1);
+        for (let y = 0; y < this.cursorY; y++) lines[y] = this.blankLine(this.eraseAttr());
+        break;
+      case 2:
+        for (let y = 0; y < this._rows; y++) lines[y] = this.blankLine(this.eraseAttr());
+        break;
+      case 3:
+        this.scrollback = [];
+        break;
+    }
+  }
+
+  private eraseInLine(mode: number): void {
+    const line = this.lines[this.cursorY];
+    switch (mode) {
+      case 0:
+        this.fillCells(line, this.cursorX, this._cols);
+        break;
+      case 1:
+        this.fillCells(line, 0, this.cursorX + 1);
+        break;
+      case 2:
+        this.fillCells(line, 0, this._cols);
+        break;
+    }
+    this.wrapPending = false;
+  }
+
+  private fillCells(line: Line, start: number, end: number): void {
+    if (start >= end) return;
+    const attr = this.eraseAttr();
+    this.clearWideAt(line, start);
+    if (end < this._cols) this.clearWideAt(line, end);
+    for (let x = start; x < end; x++) {
+      line[x] = { ch: ' ', attr };
+    }
+  }
+
+  /**
+   * Erased cells keep the current background colour (xterm's BCE behaviour).
+   */
+  private eraseAttr(): string {
+    return this.attrs.bg;
+  }
+
+  // --- State helpers ---
+
+  private saveCursor(): SavedCursor {
+    return {
+      x: this.cursorX,
+      y: this.cursorY,
+      attrs: { ...this.attrs },
+      originMode: this.originMode,
+    };
+  }
+
+  private restoreCursor(saved: SavedCursor | null): void {
+    if (!saved) {
+      this.setCursor(0, 0);
+      return;
+    }
+    this.attrs = { ...saved.attrs };
+    this.attr = attributesToSgr(this.attrs);
+    this.originMode = saved.originMode;
+    this.cursorX = Math.min(saved.x, this._cols - 1);
+    this.cursorY = Math.min(saved.y, this._rows - 1);
+    this.wrapPending = false;
+  }
+
+  private reset(): void {
+    this.primary = this.blankLines(this._rows);
+    this.alternate = this.blankLines(this._rows);
+    this.useAlternate = false;
+    this.scrollback = [];
+    this.cursorX = 0;
+    this.cursorY = 0;
+    this.wrapPending = false;
+    this.attrs = defaultAttributes();
+    this.attr = '';
+    this.savedCursor = null;
+    this.altSavedCursor = null;
+    this.scrollTop = 0;
+    this.scrollBottom = this._rows - 1;
+    this.autowrap = true;
+    this.originMode = false;
+    this.insertMode = false;
+    this.cursorVisible = true;
+    this.appKeypad = false;
+    this.cursorStyle = 0;
+    this.privateModes.clear();
+    this.title = '';
+  }
+
+  private blankCells(n: number, attr = ''): Cell[] {
+    const cells: Cell[] = [];
+    for (let i = 0; i < n; i++) cells.push({ ch: ' ', attr });
+    return cells;
+  }
+
+  private blankLine(attr = ''): Line {
+    return this.blankCells(this._cols, attr);
+  }
+
+  private blankLines(n: number, attr = ''): Line[] {
+    const lines: Line[] = [];
+    for (let i = 0; i < n; i++) lines.push(this.blankLine(attr));
+    return lines;
+  }
+
+  // --- Resize ---
+
+  resize(cols: number, rows: number): void {
+    cols = Math.max(1, cols);
+    rows = Math.max(1, rows);
+    if (cols === this._cols && rows === this._rows) return;
+
+    for (const isAlternate of [false, true]) {
+      let lines = isAlternate ? this.alternate : this.primary;
+      const active = isAlternate === this.useAlternate;
+
+      // While the alternate screen is shown, the primary cursor lives in the 1049 saved cursor
+      const saved = !active && !isAlternate ? this.altSavedCursor : null;
+      const cursorY = active ? this.cursorY : saved?.y ?? 0;
+
+      // Shrinking: drop lines above the cursor first (into scrollback for the primary screen)
+      if (rows < lines.length && cursorY >= rows) {
+        const excess = cursorY - rows + 1;
+        const removed = lines.splice(0, excess);
+        if (!isAlternate) {
+          for (const line of removed) this.scrollback.push(this.serializeLine(line));
+        }
+        if (active) this.cursorY -= excess;
+        else if (saved) saved.y -= excess;
+      }
+      lines = lines.slice(0, rows);
+      while (lines.length < rows) lines.push(this.blankCells(cols));
+
+      for (const line of lines) {
+        if (line.length > cols) {
+          line.length = cols;
+          // Don't leave half of a wide character at the new edge
+          if (line[cols - 1].ch !== '' && cols > 1 && charWidth(line[cols - 1].ch.codePointAt(0) ?? 0x20) === 2) {
+            line[cols - 1] = { ch: ' ', attr: line[cols - 1].attr };
+          }
+        } else {
+          while (line.length < cols) line.push({ ch: ' ', attr: '' });
+        }
+      }
+
+      if (isAlternate) this.alternate = lines;
+      else this.primary = lines;
+    }
+
+    if (this.cursorY >= rows) {
+      this.cursorY = rows - 1;
+    }
+    if (this.scrollback.length > this.maxScrollback) {
+      this.scrollback.splice(0, this.scrollback.length - this.maxScrollback);
+    }
+
+    this._cols = cols;
+    this._rows = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.cursorX = Math.min(this.cursorX, cols - 1);
+    this.wrapPending = false;
+  }
+
+  // --- Serialization ---
+
+  private serializeLine(line: Line): string {
+    // Trailing default blanks carry no information
+    let end = line.length;
+    while (end > 0 && line[end - 1].ch === ' ' && line[end - 1].attr === '') end--;
+
+    let out = '';
+    let attr = '';
+    for (let x = 0; x < end; x++) {
+      const cell = line[x];
+      if (cell.ch === '') continue;
+      if (cell.attr !== attr) {
+        out += cell.attr ? `${ESC}[0;${cell.attr}m` : `${ESC}[0m`;
+        attr = cell.attr;
+      }
+      out += cell.ch;
+    }
+    if (attr) out += `${ESC}[0m`;
+    return out;
+  }
+
+  /**
+   * Returns an escape sequence stream that reproduces the current terminal state
+   * (scrollback, screens, cursor and modes) on a terminal of the same size.
+   */
+  serialize(): string {
+    // RIS: start from a clean terminal so nothing from a previous session leaks through
+    let out = `${ESC}c`;
+
+    if (this.title) {
+      out += `${ESC}]0;${this.title}\x07`;
+    }
+
+    // Scrollback followed by the primary screen, printed top to bottom
+    const primaryLines = [...this.scrollback, ...this.primary.map((line) => this.serializeLine(line))];
+    out += primaryLines.join('\r\n');
+
+    if (this.useAlternate) {
+      // Enter the alternate screen from where the primary cursor was saved
+      const saved = this.altSavedCursor;
+      if (saved) out += `${ESC}[${Math.min(saved.y, this._rows - 1) + 1};${Math.min(saved.x, this._cols - 1) + 1}H`;
+      out += `${ESC}[?1049h`;
+      this.alternate.forEach((line, y) => {
+        const text = this.serializeLine(line);
+        if (text) out += `${ESC}[${y + 1};1H${text}`;
+      });
+    }
+
+    if (this.scrollTop !== 0 || this.scrollBottom !== this._rows - 1) {
+      out += `${ESC}[${this.scrollTop + 1};${this.scrollBottom + 1}r`;
+    }
+
+    for (const mode of this.privateModes) {
+      out += `${ESC}[?${mode}h`;
+    }
+    if (!this.autowrap) out += `${ESC}[?7l`;
+    if (this.insertMode) out += `${ESC}[4h`;
+    if (this.appKeypad) out += `${ESC}=`;
+    if (this.cursorStyle) out += `${ESC}[${this.cursorStyle} q`;
+    if (this.originMode) out += `${ESC}[?6h`;
+
+    // Cursor position (relative to the scroll region in origin mode)
+    const row = this.originMode ? this.cursorY - this.scrollTop : this.cursorY;
+    const pendingCell = this.wrapPending ? this.lines[this.cursorY][this.cursorX] : null;
+    if (pendingCell && pendingCell.ch !== '') {
+      // Re-print the last cell so the terminal is left in the same pending-wrap state
+      out += `${ESC}[${row + 1};${this.cursorX + 1}H`;
+      out += pendingCell.attr ? `${ESC}[0;${pendingCell.attr}m` : `${ESC}[0m`;
+      out += pendingCell.ch;
+    } else {
+      out += `${ESC}[${row + 1};${this.cursorX + 1}H`;
+    }
+
+    out += this.attr ? `${ESC}[0;${this.attr}m` : `${ESC}[0m`;
+    if (!this.cursorVisible) out += `${ESC}[?25l`;
+
+    return out;
+  }
+}
@@ -1,16 +1,160 @@
-import { execSync } from 'node:child_process';
-import { existsSync, readFileSync, mkdirSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync, mkdirSync, writeFileSync, rmSync, chmodSync } from 'node:fs';
 import { join } from 'node:path';
-import { homedir } from 'node:os';
+import { homedir, hostname, networkInterfaces } from 'node:os';
+import crypto from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { TLSSocket } from 'node:tls';
 import { CONFIG_DIR_NAME } from '../shared/constants.js';
+import type { ServerConfig } from '../shared/types.js';
+import { loadTokenRecords, isTokenRevoked } from './token-registry.js';
+import type { TokenPayload } from './auth.js';
 
 const CERT_DIR = join(homedir(), CONFIG_DIR_NAME, 'certs');
 const CERT_FILE = join(CERT_DIR, 'server.crt');
 const KEY_FILE = join(CERT_DIR, 'server.key');
+const CA_CERT_FILE = join(CERT_DIR, 'ca.crt');
+const CA_KEY_FILE = join(CERT_DIR, 'ca.key');
+const CLIENT_CERT_DIR = join(CERT_DIR, 'clients');
+
+// Apple platforms reject server certificates valid for more than 825 days
+const SERVER_CERT_DAYS = 825;
+const CA_CERT_DAYS = 3650;
 
 export interface TLSConfig {
   cert: Buffer;
   key: Buffer;
+  /** CA that client certificates must chain to; set when tlsClientAuth is enabled */
+  ca?: Buffer;
+}
+
+export interface ClientCertificateFiles {
+  cert: string;
+  key: string;
+  /** PKCS#12 bundle of cert and key, for importing into a browser or phone */
+  p12: string;
+}
+
+function openssl(args: string[], env?: Record<string, string>): void {
+  execFileSync('openssl', args, { stdio: 'pipe', env: env && { ...process.env, ...env } });
+}
+
+/**
+ * Writes a throwaway openssl extension file, runs fn with its path, then removes it.
+ */
+function withExtFile<T>(lines: string[], fn: (path: string) => T): T {
+  const extFile = join(CERT_DIR, `ext-${crypto.randomUUID()}.cnf`);
+  writeFileSync(extFile, lines.join('\n') + '\n', 'utf-8');
+  try {
+    return fn(extFile);
+  } finally {
+    rmSync(extFile, { force: true });
+  }
+}
+
+/**
+ * Signs a new key pair with the local CA.
+ */
+function issueFromCa(subject: string, certFile: string, keyFile: string, days: number, extensions: string[]): void {
+  ensureLocalCa();
+  const csrFile = `${certFile}.csr`;
+  try {
+    openssl(['req', '-new', '-newkey', 'rsa:2048', '-nodes', '-keyout', keyFile, '-out', csrFile, '-subj', subject]);
+    chmodSync(keyFile, 0o600);
+    withExtFile(extensions, (extFile) => {
+      openssl([
+        'x509', '-req', '-in', csrFile, '-CA', CA_CERT_FILE, '-CAkey', CA_KEY_FILE, '-CAcreateserial',
+        '-out', certFile, '-days', String(days), '-sha256', '-extfile', extFile,
+      ]);
+    });
+  } finally {
+    rmSync(csrFile, { force: true });
+  }
+}
+
+export function getCaCertPath(): string {
+  return CA_CERT_FILE;
+}
+
+/**
+ * Creates the local CA on first use. Installing ca.crt on a device makes it trust every
+ * server and client certificate issued here.
+ */
+export function ensureLocalCa(): void {
+  if (existsSync(CA_CERT_FILE) && existsSync(CA_KEY_FILE)) return;
+
+  mkdirSync(CERT_DIR, { recursive: true, mode: 0o700 });
+  openssl([
+    'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-keyout', CA_KEY_FILE, '-out', CA_CERT_FILE,
+    '-days', String(CA_CERT_DAYS), '-subj', `/CN=CCR Local CA (${hostname()})/O=CCR`,
+    '-addext', 'basicConstraints=critical,CA:TRUE',
+    '-addext', 'keyUsage=critical,keyCertSign,cRLSign',
+  ]);
+  chmodSync(CA_KEY_FILE, 0o600);
+  console.log(`[CCR TLS] Local CA created at ${CA_CERT_FILE}`);
+}
+
+/**
+ * SHA-256 fingerprint of the local CA, for checking it after copying it to a device.
+ */
+export function getCaFingerprint(): string | null {
+  if (!existsSync(CA_CERT_FILE)) return null;
+  return new crypto.X509Certificate(readFileSync(CA_CERT_FILE)).fingerprint256;
+}
+
+/**
+ * localhost, this machine's hostname and every non-internal IPv4 address, plus any extras
+ * from config, in openssl subjectAltName form (DNS:name or IP:address).
+ */
+export function getDefaultSubjectAltNames(extra: string[] = []): string[] {
+  const sans = new Set(['DNS:localhost', 'IP:127.0.0.1', `DNS:${hostname()}`]);
+  for (const addrs of Object.values(networkInterfaces())) {
+    for (const addr of addrs ?? []) {
+      if (addr.family === 'IPv4' && !addr.internal) sans.add(`IP:${addr.address}`);
+    }
+  }
+  for (const san of extra) {
+    sans.add(san.includes(':') ? san : `DNS:${san}`);
+  }
+  return [...sans];
+}
+
+/**
+ * Whether a certificate was signed by the local CA.
+ */
+export function isIssuedByLocalCa(cert: Buffer): boolean {
+  if (!existsSync(CA_CERT_FILE)) return false;
+  try {
+    const issued = new crypto.X509Certificate(cert);
+    const ca = new crypto.X509Certificate(readFileSync(CA_CERT_FILE));
+    return issued.checkIssued(ca) && issued.verify(ca.publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why the server certificate on disk should be reissued, or null if it can be served as
+ * it is: it wasn't issued by the local CA (certificates from before the CA existed were
+ * self-signed), has expired, or doesn't cover every wanted subjectAltName.
+ */
+function serverCertProblem(subjectAltNames: string[]): string | null {
+  let cert: Buffer;
+  let parsed: crypto.X509Certificate;
+  try {
+    cert = readFileSync(CERT_FILE);
+    parsed = new crypto.X509Certificate(cert);
+  } catch (err) {
+    return `it can't be read (${err instanceof Error ? err.message : String(err)})`;
+  }
+  if (!isIssuedByLocalCa(cert)) return 'it was not issued by the local CA';
+  if (Date.parse(parsed.validTo) <= Date.now()) return 'it has expired';
+
+  // Node lists IP addresses as "IP Address:1.2.3.4"; openssl config takes "IP:1.2.3.4"
+  const present = new Set((parsed.subjectAltName ?? '').split(', ').map((san) => san.replace(/^IP Address:/, 'IP:')));
+  const missing = subjectAltNames.filter((san) => !present.has(san));
+  if (missing.length > 0) return `it doesn't cover ${missing.join(', ')}`;
+  return null;
 }
 
 /**
@@ -21,28 +165,52 @@ export function hasCertificates(): boolean {
 }
 
 /**
- * Generate self-signed certificates using openssl.
+ * Issue the server certificate from the local CA, replacing any existing one.
  */
-export function generateSelfSignedCert(): boolean {
+export function issueServerCert(subjectAltNames: string[]): boolean {
   try {
-    mkdirSync(CERT_DIR, { recursive: true });
-
-    const subject = '/CN=ccr-server/O=CCR/C=US';
-    execSync(
-      `openssl req -x509 -newkey rsa:2048 -keyout "${KEY_FILE}" -out "${CERT_FILE}" ` +
-      `-days 365 -nodes -subj "${subject}" -addext "subjectAltName=DNS:localhost,IP:127.0.0.1"`,
-      { stdio: 'pipe' },
-    );
-
-    console.log(`[CCR TLS] Self-signed certificate generated at ${CERT_DIR}`);
+    issueFromCa('/CN=ccr-server/O=CCR', CERT_FILE, KEY_FILE, SERVER_CERT_DAYS, [
+      'basicConstraints=CA:FALSE',
+      'keyUsage=critical,digitalSignature,keyEncipherment',
+      'extendedKeyUsage=serverAuth',
+      `subjectAltName=${subjectAltNames.join(',')}`,
+    ]);
+    console.log(`[CCR TLS] Server certificate issued for ${subjectAltNames.join(', ')}`);
     return true;
   } catch (err) {
-    console.error('[CCR TLS] Failed to generate certificate. Is openssl installed?');
+    console.error('[CCR TLS] Failed to issue certificate. Is openssl installed?');
     console.error(err instanceof Error ? err.message : String(err));
     return false;
   }
 }
 
+/**
+ * Issue a client certificate whose CN is the name of the token it authenticates as.
+ * The PKCS#12 bundle is protected with the given password.
+ */
+export function issueClientCert(name: string, password: string): ClientCertificateFiles {
+  mkdirSync(CLIENT_CERT_DIR, { recursive: true, mode: 0o700 });
+  const files: ClientCertificateFiles = {
+    cert: join(CLIENT_CERT_DIR, `${name}.crt`),
+    key: join(CLIENT_CERT_DIR, `${name}.key`),
+    p12: join(CLIENT_CERT_DIR, `${name}.p12`),
+  };
+
+  issueFromCa(`/CN=${name}/O=CCR`, files.cert, files.key, SERVER_CERT_DAYS, [
+    'basicConstraints=CA:FALSE',
+    'keyUsage=critical,digitalSignature',
+    'extendedKeyUsage=clientAuth',
+  ]);
+  // Through the environment: other local users can read a command line in ps, but not
+  // another user's environment
+  openssl([
+    'pkcs12', '-export', '-in', files.cert, '-inkey', files.key, '-certfile', CA_CERT_FILE,
+    '-out', files.p12, '-name', name, '-passout', 'env:CCR_P12_PASSWORD',
+  ], { CCR_P12_PASSWORD: password });
+  chmodSync(files.p12, 0o600);
+  return files;
+}
+
 /**
  * Load TLS certificates from disk.
  */
@@ -60,12 +228,77 @@ export function loadCertificates(): TLSConfig | null {
 }
 
 /**
- * Ensure TLS certificates exist, generating if needed.
+ * Ensure TLS certificates exist, issuing them from the local CA if needed. An existing
+ * certificate is reissued if it wasn't issued by the local CA, has expired or lacks one
+ * of the subjectAltNames.
  */
-export function ensureCertificates(): TLSConfig | null {
+export function ensureCertificates(subjectAltNames: string[] = getDefaultSubjectAltNames()): TLSConfig | null {
   if (!hasCertificates()) {
-    const generated = generateSelfSignedCert();
-    if (!generated) return null;
+    const issued = issueServerCert(subjectAltNames);
+    if (!issued) return null;
+  } else {
+    const problem = serverCertProblem(subjectAltNames);
+    if (problem) {
+      console.log(`[CCR TLS] Reissuing the server certificate: ${problem}`);
+      if (!issueServerCert(subjectAltNames)) {
+        console.error(`[CCR TLS] Serving the existing certificate ${CERT_FILE} although ${problem}`);
+      }
+    }
   }
   return loadCertificates();
 }
+
+/**
+ * The certificate and key to serve: the configured files if set, otherwise the ones issued
+ * by the local CA. Includes the CA to verify client certificates against when mTLS is on.
+ * Called again on SIGHUP, so renewed files are picked up without a restart.
+ */
+export function loadTlsCredentials(config: ServerConfig): TLSConfig | null {
+  let credentials: TLSConfig | null;
+  if (config.tlsCertPath || config.tlsKeyPath) {
+    if (!config.tlsCertPath || !config.tlsKeyPath) {
+      console.error('[CCR TLS] Both a certificate and a key are required');
+      return null;
+    }
+    try {
+      credentials = { cert: readFileSync(config.tlsCertPath), key: readFileSync(config.tlsKeyPath) };
+    } catch (err) {
+      console.error(`[CCR TLS] Failed to read certificate: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  } else {
+    credentials = ensureCertificates(getDefaultSubjectAltNames(config.tlsSubjectAltNames));
+  }
+
+  if (credentials && config.tlsClientAuth !== 'off') {
+    ensureLocalCa();
+    credentials.ca = readFileSync(CA_CERT_FILE);
+  }
+  return credentials;
+}
+
+/**
+ * Maps a verified client certificate to the named token (see `ccr server token create`)
+ * whose name matches its CN. Returns null without a verified certificate, or if that
+ * token doesn't exist, has expired or was revoked.
+ */
+export function getClientCertIdentity(req: IncomingMessage): TokenPayload | null {
+  const socket = req.socket as TLSSocket;
+  if (!socket.encrypted || !socket.authorized) return null;
+
+  const cn = socket.getPeerCertificate()?.subject?.CN;
+  const name = Array.isArray(cn) ? cn[0] : cn;
+  if (!name) return null;
+
+  const record = loadTokenRecords().find((r) => r.name === name);
+  if (!record || Date.parse(record.expiresAt) <= Date.now() || isTokenRevoked(record.id)) {
+    return null;
+  }
+  return {
+    sub: record.name,
+    scopes: record.scopes,
+    jti: record.id,
+    iat: Math.floor(Date.parse(record.createdAt) / 1000),
+    exp: Math.floor(Date.parse(record.expiresAt) / 1000),
+  };
+}
@@ -0,0 +1,118 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ensureConfigDir, getConfigDir } from './config.js';
+import { TOKENS_REGISTRY_FILE_NAME, REVOKED_TOKENS_FILE_NAME } from '../shared/constants.js';
+import type { TokenScope } from '../shared/types.js';
+
+/**
+ * Metadata about a named token issued with `ccr server token create`.
+ * The token string itself is never stored.
+ */
+export interface TokenRecord {
+  /** The token's jti claim */
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface RevokedToken {
+  id: string;
+  name?: string;
+  revokedAt: string;
+  /** Once the token itself has expired the entry can be dropped */
+  expiresAt?: string;
+}
+
+function getRegistryPath(): string {
+  return join(getConfigDir(), TOKENS_REGISTRY_FILE_NAME);
+}
+
+export function loadTokenRecords(): TokenRecord[] {
+  const registryPath = getRegistryPath();
+  if (!existsSync(registryPath)) return [];
+  return JSON.parse(readFileSync(registryPath, 'utf-8')) as TokenRecord[];
+}
+
+function saveTokenRecords(records: TokenRecord[]): void {
+  ensureConfigDir();
+  writeFileSync(getRegistryPath(), JSON.stringify(records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Adds a record, throwing if a token with the same name already exists.
+ */
+export function addTokenRecord(record: TokenRecord): void {
+  const records = loadTokenRecords();
+  if (records.some((r) => r.name === record.name)) {
+    throw new Error(`A token named "${record.name}" already exists`);
+  }
+  records.push(record);
+  saveTokenRecords(records);
+}
+
+export function getRevocationListPath(): string {
+  return join(getConfigDir(), REVOKED_TOKENS_FILE_NAME);
+}
+
+export function loadRevokedTokens(): RevokedToken[] {
+  const listPath = getRevocationListPath();
+  if (!existsSync(listPath)) return [];
+  return JSON.parse(readFileSync(listPath, 'utf-8')) as RevokedToken[];
+}
+
+function saveRevokedTokens(entries: RevokedToken[]): void {
+  ensureConfigDir();
+  writeFileSync(getRevocationListPath(), JSON.stringify(entries, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Revokes a token by registry name or by id (jti). `unregisteredIds` are the ids of
+ * issued tokens the registry doesn't hold, such as the default server token's; any other
+ * unknown name or id throws, so a typo can't pass for a revocation.
+ * Entries for tokens that have since expired are pruned on the way.
+ */
+export function revokeToken(idOrName: string, unregisteredIds: string[] = []): RevokedToken {
+  const record = loadTokenRecords().find((r) => r.name === idOrName || r.id === idOrName);
+  if (!record && !unregisteredIds.includes(idOrName)) {
+    throw new Error(`No token named or with id ${idOrName} was issued here`);
+  }
+  const now = Date.now();
+  const entries = loadRevokedTokens()
+    .filter((e) => !e.expiresAt || Date.parse(e.expiresAt) > now);
+
+  const id = record?.id ?? idOrName;
+  const existing = entries.find((e) => e.id === id);
+  if (existing) {
+    throw new Error(`Token ${record ? `"${record.name}" ` : ''}${id} is already revoked`);
+  }
+
+  const entry: RevokedToken = {
+    id,
+    name: record?.name,
+    revokedAt: new Date(now).toISOString(),
+    expiresAt: record?.expiresAt,
+  };
+  entries.push(entry);
+  saveRevokedTokens(entries);
+  return entry;
+}
+
+let revokedCache: { mtimeMs: number; ids: Set<string> } | null = null;
+
+/**
+ * Checked on every token verification, so the list is only re-read when the file changes.
+ */
+export function isTokenRevoked(id: string): boolean {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(getRevocationListPath()).mtimeMs;
+  } catch {
+    return false;
+  }
+  if (revokedCache?.mtimeMs !== mtimeMs) {
+    revokedCache = { mtimeMs, ids: new Set(loadRevokedTokens().map((e) => e.id)) };
+  }
+  return revokedCache.ids.has(id);
+}
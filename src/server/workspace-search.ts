@@ -0,0 +1,264 @@
+import { readFile, stat } from 'node:fs/promises';
+import type { FileHandler } from './file-handler.js';
+import { matchesGlob } from './file-policy.js';
+import { walkWorkspace } from './workspace-walk.js';
+import { RegexMatcher, RegexTimeoutError, type LineMatch } from './regex-matcher.js';
+import type { SearchPayload, SearchMatch, SearchResultsPayload } from '../shared/types.js';
+import {
+  SEARCH_MAX_RESULTS,
+  SEARCH_BATCH_SIZE,
+  SEARCH_BATCH_INTERVAL_MS,
+  SEARCH_MAX_FILE_SIZE,
+  SEARCH_PREVIEW_MAX_CHARS,
+  SEARCH_REGEX_TIMEOUT_MS,
+  SEARCH_REGEX_MAX_LINE_LENGTH,
+  MAX_SEARCHES_PER_CLIENT,
+} from '../shared/constants.js';
+
+export type SearchErrorCode = 'SEARCH_INVALID_QUERY' | 'SEARCH_LIMIT' | 'SEARCH_TIMEOUT';
+
+export class SearchError extends Error {
+  constructor(readonly code: SearchErrorCode, message: string) {
+    super(message);
+    this.name = 'SearchError';
+  }
+}
+
+export interface WorkspaceSearchOptions<T> {
+  fileHandler: FileHandler;
+  onResults: (subscriber: T, results: SearchResultsPayload) => void;
+  /** A running search was stopped by an error; no more results are sent for it */
+  onError: (subscriber: T, err: SearchError) => void;
+}
+
+interface RunningSearch<T> {
+  subscriber: T;
+  searchId: string;
+  sessionId: string;
+  pattern: RegExp;
+  /** Matches regex queries off the main thread; literal queries can't backtrack and use pattern */
+  matcher: RegexMatcher | null;
+  include: string[];
+  exclude: string[];
+  maxResults: number;
+  /** Matches not sent yet */
+  batch: SearchMatch[];
+  timer: ReturnType<typeof setTimeout> | null;
+  found: number;
+  filesSearched: number;
+  cancelled: boolean;
+}
+
+/**
+ * Runs grep-style searches over session working directories and streams the matches
+ * back in SEARCH_RESULTS batches. Files are picked by walkWorkspace, so .gitignore is
+ * honoured and paths denied by the file policy are never opened.
+ */
+export class WorkspaceSearch<T> {
+  private searches = new Map<T, Map<string, RunningSearch<T>>>();
+  private opts: WorkspaceSearchOptions<T>;
+
+  constructor(opts: WorkspaceSearchOptions<T>) {
+    this.opts = opts;
+  }
+
+  /**
+   * Validates the request and starts the search in the background. Throws for an invalid
+   * query, a directory outside the session, or too many running searches. A new search
+   * with the id of a running one replaces it.
+   */
+  start(subscriber: T, sessionId: string, request: SearchPayload): void {
+    if (typeof request.query !== 'string' || !request.query) {
+      throw new SearchError('SEARCH_INVALID_QUERY', 'Search query must be a non-empty string');
+    }
+    const source = request.regex ? request.query : request.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, request.caseSensitive ? '' : 'i');
+    } catch (err) {
+      throw new SearchError('SEARCH_INVALID_QUERY', err instanceof Error ? err.message : 'Invalid regular expression');
+    }
+
+    this.cancel(subscriber, request.searchId);
+    const running = this.searches.get(subscriber);
+    if (running && running.size >= MAX_SEARCHES_PER_CLIENT) {
+      throw new SearchError('SEARCH_LIMIT', `At most ${MAX_SEARCHES_PER_CLIENT} searches can run at once`);
+    }
+    const dir = this.opts.fileHandler.resolveDirectory(sessionId, request.path ?? '.');
+
+    const search: RunningSearch<T> = {
+      subscriber,
+      searchId: request.searchId,
+      sessionId,
+      pattern,
+      matcher: request.regex
+        ? new RegexMatcher(pattern.source, pattern.flags, SEARCH_REGEX_TIMEOUT_MS, SEARCH_REGEX_MAX_LINE_LENGTH)
+        : null,
+      include: request.include ?? [],
+      exclude: request.exclude ?? [],
+      // A client-supplied cap that isn't a finite number gets the default
+      maxResults: Math.max(1, Math.min(
+        Number.isFinite(request.maxResults) ? Math.floor(request.maxResults!) : SEARCH_MAX_RESULTS,
+        SEARCH_MAX_RESULTS,
+      )),
+      batch: [],
+      timer: null,
+      found: 0,
+      filesSearched: 0,
+      cancelled: false,
+    };
+    if (!running) this.searches.set(subscriber, new Map());
+    this.searches.get(subscriber)!.set(search.searchId, search);
+
+    void this.run(search, dir.fullPath, dir.relativePath).then(
+      (truncated) => this.finish(search, truncated),
+      (err: unknown) => {
+        if (err instanceof RegexTimeoutError) {
+          this.fail(search, new SearchError('SEARCH_TIMEOUT', `${err.message}, try a simpler pattern`));
+          return;
+        }
+        if (!search.cancelled) {
+          console.error(`[CCR Server] Search ${search.searchId} failed: ${err instanceof Error ? err.message : err}`);
+        }
+        this.finish(search, false);
+      },
+    );
+  }
+
+  /**
+   * Stops a search; no more results are sent for it. Returns false if it wasn't running.
+   */
+  cancel(subscriber: T, searchId: string): boolean {
+    const search = this.searches.get(subscriber)?.get(searchId);
+    if (!search) return false;
+    this.remove(search);
+    return true;
+  }
+
+  /**
+   * Stops every search of a client, e.g. when it detaches or disconnects.
+   */
+  cancelAll(subscriber: T): void {
+    for (const search of [...(this.searches.get(subscriber)?.values() ?? [])]) {
+      this.remove(search);
+    }
+  }
+
+  private remove(search: RunningSearch<T>): void {
+    search.cancelled = true;
+    if (search.timer) clearTimeout(search.timer);
+    search.matcher?.close();
+    const running = this.searches.get(search.subscriber);
+    if (running?.get(search.searchId) !== search) return;
+    running.delete(search.searchId);
+    if (running.size === 0) this.searches.delete(search.subscriber);
+  }
+
+  /**
+   * Searches the directory's files in walk order. Returns true if the result cap was hit.
+   */
+  private async run(search: RunningSearch<T>, fullDir: string, relativeDir: string): Promise<boolean> {
+    const files = walkWorkspace(this.opts.fileHandler, search.sessionId, fullDir, relativeDir);
+    for await (const file of files) {
+      if (search.cancelled) return false;
+      if (!this.wantsFile(search, file.relativePath)) continue;
+      await this.searchFile(search, file.fullPath, file.relativePath);
+      if (search.cancelled) return false;
+      if (search.found >= search.maxResults) return true;
+    }
+    return false;
+  }
+
+  private wantsFile(search: RunningSearch<T>, rel: string): boolean {
+    if (search.include.length > 0 && !search.include.some((glob) => matchesGlob(rel, glob))) return false;
+    return !search.exclude.some((glob) => matchesGlob(rel, glob));
+  }
+
+  private async searchFile(search: RunningSearch<T>, fullPath: string, rel: string): Promise<void> {
+    let data: Buffer;
+    try {
+      if ((await stat(fullPath)).size > SEARCH_MAX_FILE_SIZE) return;
+      data = await readFile(fullPath);
+    } catch {
+      return;
+    }
+    // Like grep, treat a NUL byte near the start as a sign of a binary file
+    if (data.subarray(0, 8192).includes(0)) return;
+    search.filesSearched++;
+
+    const lines = data.toString('utf-8').split('\n').map((line) => (line.endsWith('\r') ? line.slice(0, -1) : line));
+    const limit = search.maxResults - search.found;
+    const found = search.matcher ? await search.matcher.match(lines, limit) : matchLines(search.pattern, lines, limit);
+    if (search.cancelled) return;
+    for (const [i, index] of found) {
+      this.addMatch(search, {
+        path: rel,
+        line: i + 1,
+        column: index + 1,
+        preview: preview(lines[i], index),
+      });
+    }
+  }
+
+  private addMatch(search: RunningSearch<T>, match: SearchMatch): void {
+    search.found++;
+    search.batch.push(match);
+    if (search.batch.length >= SEARCH_BATCH_SIZE) {
+      this.flush(search);
+    } else {
+      search.timer ??= setTimeout(() => this.flush(search), SEARCH_BATCH_INTERVAL_MS);
+    }
+  }
+
+  private flush(search: RunningSearch<T>): void {
+    if (search.timer) clearTimeout(search.timer);
+    search.timer = null;
+    if (search.cancelled || search.batch.length === 0) return;
+    const matches = search.batch;
+    search.batch = [];
+    this.opts.onResults(search.subscriber, { searchId: search.searchId, matches, done: false });
+  }
+
+  /**
+   * Sends the matches found so far, then stops the search with an error.
+   */
+  private fail(search: RunningSearch<T>, err: SearchError): void {
+    if (search.cancelled) return;
+    this.flush(search);
+    this.remove(search);
+    this.opts.onError(search.subscriber, err);
+  }
+
+  private finish(search: RunningSearch<T>, truncated: boolean): void {
+    if (search.cancelled) return;
+    if (search.timer) clearTimeout(search.timer);
+    const matches = search.batch;
+    search.batch = [];
+    this.remove(search);
+    this.opts.onResults(search.subscriber, {
+      searchId: search.searchId,
+      matches,
+      done: true,
+      truncated,
+      filesSearched: search.filesSearched,
+    });
+  }
+}
+
+function matchLines(pattern: RegExp, lines: string[], limit: number): LineMatch[] {
+  const matches: LineMatch[] = [];
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const match = pattern.exec(lines[i]);
+    if (match) matches.push([i, match.index]);
+  }
+  return matches;
+}
+
+/**
+ * The line, or for a long line a SEARCH_PREVIEW_MAX_CHARS window that shows the match.
+ */
+function preview(line: string, index: number): string {
+  if (line.length <= SEARCH_PREVIEW_MAX_CHARS) return line;
+  const start = Math.max(0, Math.min(index - 40, line.length - SEARCH_PREVIEW_MAX_CHARS));
+  return line.slice(start, start + SEARCH_PREVIEW_MAX_CHARS);
+}
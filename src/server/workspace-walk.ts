@@ -0,0 +1,60 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FileHandler } from './file-handler.js';
+import { GitignoreMatcher } from './gitignore.js';
+
+export interface WalkedFile {
+  fullPath: string;
+  /** Path relative to the session root */
+  relativePath: string;
+}
+
+/**
+ * Yields the files under a session directory depth-first in name order, picking them the
+ * way ripgrep does by default: .gitignore is honoured, .git is skipped and symlinks are
+ * not followed. Paths denied by the file policy and unreadable directories are left out.
+ */
+export async function* walkWorkspace(
+  fileHandler: FileHandler,
+  sessionId: string,
+  fullDir: string,
+  relativeDir: string,
+): AsyncGenerator<WalkedFile> {
+  const ignore = new GitignoreMatcher();
+  // Rules from the root down to the walked directory apply to it too
+  const root = relativeDir ? fullDir.slice(0, -(relativeDir.length + 1)) : fullDir;
+  const ancestors = relativeDir ? relativeDir.split('/') : [];
+  for (let i = 0; i < ancestors.length; i++) {
+    const rel = ancestors.slice(0, i).join('/');
+    ignore.load(join(root, rel), rel);
+  }
+
+  const stack = [relativeDir];
+  while (stack.length > 0) {
+    const dir = stack.pop()!;
+    const full = dir ? join(root, dir) : root;
+    ignore.load(full, dir);
+
+    let entries;
+    try {
+      entries = await readdir(full, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    const subdirs: string[] = [];
+    for (const entry of entries) {
+      const rel = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.name === '.git' || !fileHandler.isVisible(sessionId, rel)) continue;
+
+      if (entry.isDirectory()) {
+        if (!ignore.isIgnored(rel, true)) subdirs.push(rel);
+      } else if (entry.isFile() && !ignore.isIgnored(rel, false)) {
+        yield { fullPath: join(full, entry.name), relativePath: rel };
+      }
+    }
+    // Reversed so the stack pops them in name order
+    stack.push(...subdirs.reverse());
+  }
+}
@@ -1,14 +1,28 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import crypto from 'node:crypto';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import { createServer as createHttpServer, type Server } from 'node:http';
-import { createServer as createHttpsServer } from 'node:https';
-import { readFileSync, existsSync, statSync } from 'node:fs';
+import { createServer as createHttpsServer, type Server as HttpsServer } from 'node:https';
+import { readFileSync, existsSync, statSync, watchFile, unwatchFile } from 'node:fs';
 import { join, extname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { SessionManager } from './session-manager.js';
+import { SessionManager, cwdNotAllowedMessage } from './session-manager.js';
 import { FileHandler } from './file-handler.js';
+import { FileAccessError } from './file-policy.js';
+import { FileWatcher } from './file-watcher.js';
+import { FileTransferManager, TransferError } from './file-transfer.js';
+import { WorkspaceSearch, SearchError } from './workspace-search.js';
+import { FileIndex } from './file-index.js';
 import { RateLimiter } from './rate-limiter.js';
-import { verifyAccessToken } from './auth.js';
+import { OutputFlowControl } from './flow-control.js';
+import { checkAccessToken, hasScope, getTokenScopes, type TokenPayload, type TokenRejection } from './auth.js';
+import { HttpApi } from './http-api.js';
+import { getRevocationListPath, isTokenRevoked } from './token-registry.js';
+import { getConfigPath, loadServerConfig } from './config.js';
+import { getSessionCookieToken, isOriginAllowed } from './session-cookie.js';
+import { AuthGuard, getBansPath, type AuthMethod } from './auth-guard.js';
+import { AuditLog, type AuditEvent } from './audit-log.js';
+import { getClientCertIdentity } from './tls.js';
 import {
   decodeMessage,
   decodeJsonPayload,
@@ -20,18 +34,52 @@ import {
   encodePong,
   encodeFileList,
   encodeFileContent,
+  encodeFileStat,
+  encodeFileAck,
+  encodeFileChanged,
+  decodeTransferChunk,
+  encodeSearchResults,
+  encodeFileFind,
+  encodeSessionExited,
+  encodeOutputGap,
+  deflateOutput,
+  SESSION_OUTPUT_FLAG_DEFLATE,
 } from '../shared/protocol.js';
 import {
   MessageType,
   SessionAction,
   type ResizePayload,
   type SessionControlPayload,
+  type ClientRole,
   type AuthPayload,
   type FileReadPayload,
   type FileWritePayload,
+  type FileDeletePayload,
+  type FileMovePayload,
+  type FileMkdirPayload,
+  type FileWatchPayload,
+  type TransferStartPayload,
+  type TransferCompletePayload,
+  type TransferCancelPayload,
+  type SearchPayload,
+  type SearchCancelPayload,
+  type FileListRequestPayload,
+  type FileFindPayload,
   type ServerConfig,
+  type TokenScope,
 } from '../shared/types.js';
-import { HEARTBEAT_INTERVAL_MS, AUTH_TIMEOUT_MS, SESSIONS_DIR } from '../shared/constants.js';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  AUTH_TIMEOUT_MS,
+  SESSION_SNAPSHOT_INTERVAL_MS,
+  ACCEPT_ENCODING_HEADER,
+  PAYLOAD_COMPRESSION_MIN_BYTES,
+  AUTH_FILE_WATCH_INTERVAL_MS,
+  FILE_WATCH_DEBOUNCE_MS,
+  FILE_WATCH_IGNORED_NAMES,
+  FILE_WATCH_MAX_DIRECTORIES,
+  MAX_FILE_WATCHES_PER_CLIENT,
+} from '../shared/constants.js';
 
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html; charset=utf-8',
@@ -55,11 +103,19 @@ interface AuthenticatedSocket extends WebSocket {
   isAlive: boolean;
   authenticated: boolean;
   currentSessionId: string | null;
+  clientId: string;
+  remoteAddress: string;
+  /** Verified token of an authenticated socket; its scopes gate every message */
+  token: TokenPayload | null;
+  /** Deflate SESSION_OUTPUT payloads for this client */
+  compressOutput: boolean;
 }
 
 export interface TLSOptions {
   cert: Buffer;
   key: Buffer;
+  /** CA for verifying client certificates (mTLS) */
+  ca?: Buffer;
 }
 
 export class CCRServer {
@@ -67,21 +123,84 @@ export class CCRServer {
   private httpServer: Server | null = null;
   private sessionManager: SessionManager;
   private fileHandler: FileHandler;
+  private fileWatcher: FileWatcher<AuthenticatedSocket>;
+  private transfers: FileTransferManager;
+  private search: WorkspaceSearch<AuthenticatedSocket>;
+  private fileIndex: FileIndex;
   private rateLimiter: RateLimiter;
+  private authGuard: AuthGuard;
+  private audit: AuditLog;
+  private httpApi: HttpApi;
   private config: ServerConfig;
   private tlsOptions?: TLSOptions;
   private baseDir: string;
   private webDir: string;
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+  private snapshotInterval: ReturnType<typeof setInterval> | null = null;
+  /** Compressed form of each output chunk, shared by every client attached to the session */
+  private compressedOutput = new WeakMap<Buffer, Buffer | null>();
 
   constructor(config: ServerConfig, baseDir?: string, tlsOptions?: TLSOptions) {
     this.config = config;
     this.tlsOptions = tlsOptions;
     this.baseDir = baseDir ?? process.cwd();
-    this.sessionManager = new SessionManager(this.baseDir);
-    this.fileHandler = new FileHandler(join(this.baseDir, SESSIONS_DIR));
+    this.sessionManager = new SessionManager(this.baseDir, {
+      profiles: config.profiles,
+      defaultProfile: config.defaultProfile,
+      recordSessions: config.recordSessions,
+      outputCoalesceMs: config.outputCoalesceMs,
+      outputCoalesceMaxBytes: config.outputCoalesceMaxBytes,
+      workspaceRoots: config.workspaceRoots,
+    });
+    this.fileHandler = new FileHandler({
+      getRoot: (sessionId) => this.sessionManager.getSession(sessionId)?.cwd,
+      policy: config.filePolicy,
+      sessionPolicy: (sessionId) => {
+        const profile = this.sessionManager.getSession(sessionId)?.profile;
+        return profile ? this.sessionManager.getProfile(profile)?.filePolicy : undefined;
+      },
+    });
+    this.fileWatcher = new FileWatcher<AuthenticatedSocket>({
+      debounceMs: FILE_WATCH_DEBOUNCE_MS,
+      ignoredNames: FILE_WATCH_IGNORED_NAMES,
+      maxDirectories: FILE_WATCH_MAX_DIRECTORIES,
+      isVisible: (sessionId, path) => this.fileHandler.isVisible(sessionId, path),
+      onChanges: (ws, sessionId, changes) => {
+        if (changes.some((change) => change.kind !== 'modified')) this.fileIndex.invalidate(sessionId);
+        if (ws.currentSessionId === sessionId) this.sendMessage(ws, encodeFileChanged(sessionId, changes));
+      },
+    });
+    this.transfers = new FileTransferManager({
+      onFinished: (ws, transfer) => {
+        if (transfer.direction === 'upload') this.fileIndex.invalidate(transfer.sessionId);
+        this.record(ws as AuthenticatedSocket, {
+          action: transfer.direction === 'upload' ? 'file.write' : 'file.read',
+          sessionId: transfer.sessionId,
+          target: transfer.path,
+          detail: `transfer, ${transfer.size} bytes, sha256 ${transfer.sha256}`,
+        });
+      },
+    });
+    this.search = new WorkspaceSearch<AuthenticatedSocket>({
+      fileHandler: this.fileHandler,
+      onResults: (ws, results) => this.sendMessage(ws, encodeSearchResults(results)),
+      onError: (ws, err) => this.sendMessage(ws, encodeError(err.code, err.message)),
+    });
+    this.fileIndex = new FileIndex({ fileHandler: this.fileHandler });
     this.rateLimiter = new RateLimiter(200, 1000); // 200 messages per second
+    this.authGuard = new AuthGuard();
+    this.audit = new AuditLog();
+    this.httpApi = new HttpApi(this.sessionManager, this.fileHandler, config, this.authGuard, this.audit, {
+      onSessionsChanged: () => this.broadcastSessionList(),
+    });
+
+    this.sessionManager.on('session-exited', (sessionId: string, exitCode: number, signal: number | null) => {
+      this.handleSessionExited(sessionId, exitCode, signal);
+    });
+    this.sessionManager.on('session-destroyed', (sessionId: string, exitCode: number, signal: number | null) => {
+      this.handleSessionDestroyed(sessionId, exitCode, signal);
+    });
 
     // Resolve web directory relative to this file's location
     const currentDir = typeof __dirname !== 'undefined'
@@ -91,21 +210,38 @@ export class CCRServer {
   }
 
   start(): Promise<void> {
+    const restored = this.sessionManager.restoreSessions();
+    if (restored > 0) {
+      console.log(`[CCR Server] Restored ${restored} session(s) from previous run`);
+    }
+
     return new Promise((resolve, reject) => {
       const requestHandler = (req: IncomingMessage, res: ServerResponse) => {
         this.handleHttpRequest(req, res);
       };
 
       if (this.tlsOptions) {
+        const clientAuth = this.config.tlsClientAuth;
         this.httpServer = createHttpsServer(
-          { cert: this.tlsOptions.cert, key: this.tlsOptions.key },
+          {
+            cert: this.tlsOptions.cert,
+            key: this.tlsOptions.key,
+            ca: this.tlsOptions.ca,
+            requestCert: clientAuth !== 'off',
+            rejectUnauthorized: clientAuth === 'required',
+          },
           requestHandler,
         ) as unknown as Server;
       } else {
         this.httpServer = createHttpServer(requestHandler);
       }
 
-      this.wss = new WebSocketServer({ server: this.httpServer });
+      this.wss = new WebSocketServer({
+        server: this.httpServer,
+        perMessageDeflate: this.config.perMessageDeflate
+          ? { threshold: PAYLOAD_COMPRESSION_MIN_BYTES, zlibDeflateOptions: { level: 1 } }
+          : false,
+      });
 
       this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
         this.handleConnection(ws as AuthenticatedSocket, req);
@@ -118,6 +254,8 @@ export class CCRServer {
       this.httpServer.listen(this.config.port, this.config.host, () => {
         this.startHeartbeat();
         this.startCleanup();
+        this.startSnapshots();
+        this.startAuthWatch();
         resolve();
       });
 
@@ -131,7 +269,7 @@ export class CCRServer {
 
     // API routes
     if (pathname.startsWith('/api/')) {
-      this.handleApiRequest(req, res, pathname);
+      this.handleApiRequest(req, res, url);
       return;
     }
 
@@ -139,16 +277,15 @@ export class CCRServer {
     this.serveStaticFile(res, pathname);
   }
 
-  private handleApiRequest(_req: IncomingMessage, res: ServerResponse, pathname: string): void {
-    // Health check
-    if (pathname === '/api/health') {
+  private handleApiRequest(req: IncomingMessage, res: ServerResponse, url: URL): void {
+    // Health check (unauthenticated)
+    if (url.pathname === '/api/health') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ status: 'ok', sessions: this.sessionManager.getSessionCount() }));
       return;
     }
 
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    void this.httpApi.handle(req, res, url);
   }
 
   private serveStaticFile(res: ServerResponse, pathname: string): void {
@@ -205,33 +342,65 @@ export class CCRServer {
     ws.isAlive = true;
     ws.authenticated = false;
     ws.currentSessionId = null;
+    ws.token = null;
+    ws.clientId = crypto.randomUUID().slice(0, 8);
+    ws.remoteAddress = req.socket.remoteAddress ?? 'unknown';
     ws.binaryType = 'arraybuffer';
 
-    // Check header-based auth first
+    // Payload compression is pointless on top of permessage-deflate
+    const acceptEncoding = String(req.headers[ACCEPT_ENCODING_HEADER] ?? '');
+    ws.compressOutput = this.config.payloadCompression
+      && acceptEncoding.split(',').some((e) => e.trim() === 'deflate')
+      && !ws.extensions.includes('permessage-deflate');
+
+    const lockoutMs = this.authGuard.getLockout(ws.remoteAddress);
+    if (lockoutMs > 0) {
+      this.record(ws, { action: 'auth.locked', outcome: 'failure' });
+      this.sendMessage(ws, this.encodeAuthLocked(lockoutMs));
+      ws.terminate();
+      return;
+    }
+
+    // A client certificate from the local CA identifies the token it stands for
+    const certIdentity = getClientCertIdentity(req);
+    if (certIdentity) {
+      this.completeAuth(ws, certIdentity);
+      this.record(ws, { action: 'auth.success', detail: 'client-cert' });
+    }
+
+    // A bad token with the upgrade counts as one failure, however many were presented
+    let failedMethod: AuthMethod | null = null;
+
+    // Check header-based auth
     const authHeader = req.headers['authorization'];
-    if (authHeader?.startsWith('Bearer ')) {
-      const token = authHeader.slice(7);
-      const payload = verifyAccessToken(token, this.config);
-      if (payload) {
-        ws.authenticated = true;
-        this.sendMessage(ws, encodeAuthOk());
-        this.sendSessionList(ws);
-      }
+    if (!ws.authenticated && authHeader?.startsWith('Bearer ')) {
+      if (this.tryAuth(ws, authHeader.slice(7), 'header') === 'invalid') failedMethod ??= 'header';
     }
 
-    // Check query param auth for web clients (ws://host:port?token=xxx)
+    // Web IDE: login cookie from /api/login, only from pages on an allowed origin
     if (!ws.authenticated) {
+      const cookieToken = getSessionCookieToken(req);
+      if (cookieToken) {
+        if (isOriginAllowed(req, this.config)) {
+          // An expired or revoked login cookie is stale, not a guess; the client logs in again
+          if (this.tryAuth(ws, cookieToken, 'cookie') === 'invalid') failedMethod ??= 'cookie';
+        } else {
+          console.log(`[CCR Server] Ignoring login cookie from disallowed origin ${req.headers.origin ?? '(none)'}`);
+        }
+      }
+    }
+
+    // Query param auth (ws://host:port?token=xxx), off unless allowQueryTokenAuth is set
+    if (!ws.authenticated && this.config.allowQueryTokenAuth) {
       const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
       const queryToken = url.searchParams.get('token');
-      if (queryToken) {
-        const payload = verifyAccessToken(queryToken, this.config);
-        if (payload) {
-          ws.authenticated = true;
-          this.sendMessage(ws, encodeAuthOk());
-          this.sendSessionList(ws);
-        }
+      if (queryToken && this.tryAuth(ws, queryToken, 'query') === 'invalid') {
+        failedMethod ??= 'query';
       }
     }
+    if (!ws.authenticated && failedMethod) {
+      this.authGuard.recordFailure(ws.remoteAddress, failedMethod);
+    }
 
     // If not authenticated via header or query, wait for AUTH message
     if (!ws.authenticated) {
@@ -248,14 +417,21 @@ export class CCRServer {
         try {
           const msg = decodeMessage(buf);
           if (msg.type === MessageType.AUTH) {
+            // The address may have been locked out since this socket connected
+            const lockoutMs = this.authGuard.getLockout(ws.remoteAddress);
+            if (lockoutMs > 0) {
+              this.record(ws, { action: 'auth.locked', outcome: 'failure' });
+              this.sendMessage(ws, this.encodeAuthLocked(lockoutMs));
+              ws.terminate();
+              return;
+            }
+
             const { token } = decodeJsonPayload<AuthPayload>(msg.payload);
-            const payload = verifyAccessToken(token, this.config);
-            if (payload) {
-              ws.authenticated = true;
-              this.sendMessage(ws, encodeAuthOk());
-              this.sendSessionList(ws);
+            const rejection = this.tryAuth(ws, token, 'message');
+            if (!rejection) {
               ws.on('message', (data: Buffer | ArrayBuffer) => this.handleMessage(ws, data));
             } else {
+              if (rejection === 'invalid') this.authGuard.recordFailure(ws.remoteAddress, 'message');
               this.sendMessage(ws, encodeError('AUTH_FAILED', 'Invalid token'));
               ws.terminate();
             }
@@ -284,6 +460,50 @@ export class CCRServer {
     });
   }
 
+  /**
+   * Verifies a token presented by the socket. Returns why it was rejected, or null once
+   * the socket is authenticated. Only the caller counts failures against the address, so
+   * that a connection attempt counts once and stale tokens not at all.
+   */
+  private tryAuth(ws: AuthenticatedSocket, token: string, method: AuthMethod): TokenRejection | null {
+    const result = checkAccessToken(token, this.config);
+    if ('rejection' in result) {
+      this.record(ws, { action: 'auth.failure', outcome: 'failure', detail: `${method}, ${result.rejection}` });
+      return result.rejection;
+    }
+    this.authGuard.recordSuccess(ws.remoteAddress);
+    this.completeAuth(ws, result.payload);
+    this.record(ws, { action: 'auth.success', detail: method });
+    return null;
+  }
+
+  private record(ws: AuthenticatedSocket, event: AuditEvent): void {
+    this.audit.record({ token: ws.token, remoteAddress: ws.remoteAddress }, event);
+  }
+
+  private encodeAuthLocked(lockoutMs: number): Buffer {
+    const seconds = Math.ceil(lockoutMs / 1000);
+    return encodeError('AUTH_LOCKED', `Too many failed authentication attempts; try again in ${seconds}s`);
+  }
+
+  private completeAuth(ws: AuthenticatedSocket, payload: TokenPayload): void {
+    ws.authenticated = true;
+    ws.token = payload;
+    this.sendMessage(ws, encodeAuthOk(this.sessionManager.listProfiles(), getTokenScopes(payload)));
+    if (hasScope(payload, 'sessions:read')) {
+      this.sendSessionList(ws);
+    }
+  }
+
+  /**
+   * Sends a FORBIDDEN error and returns false if the socket's token lacks the scope.
+   */
+  private requireScope(ws: AuthenticatedSocket, scope: TokenScope): boolean {
+    if (hasScope(ws.token, scope)) return true;
+    this.sendMessage(ws, encodeError('FORBIDDEN', `Token lacks the ${scope} scope`, { scope }));
+    return false;
+  }
+
   private handleMessage(ws: AuthenticatedSocket, raw: Buffer | ArrayBuffer): void {
     if (!ws.authenticated) return;
 
@@ -301,11 +521,11 @@ export class CCRServer {
 
       switch (msg.type) {
         case MessageType.TERMINAL_DATA:
-          this.handleTerminalData(ws, msg.payload);
+          if (this.requireScope(ws, 'terminal:input')) this.handleTerminalData(ws, msg.payload);
           break;
 
         case MessageType.RESIZE:
-          this.handleResize(ws, msg.payload);
+          if (this.requireScope(ws, 'terminal:input')) this.handleResize(ws, msg.payload);
           break;
 
         case MessageType.PING:
@@ -317,15 +537,71 @@ export class CCRServer {
           break;
 
         case MessageType.FILE_LIST:
-          this.handleFileList(ws, msg.payload);
+          if (this.requireScope(ws, 'files:read')) this.handleFileList(ws, msg.payload);
           break;
 
         case MessageType.FILE_READ:
-          this.handleFileRead(ws, msg.payload);
+          if (this.requireScope(ws, 'files:read')) this.handleFileRead(ws, msg.payload);
           break;
 
         case MessageType.FILE_WRITE:
-          this.handleFileWrite(ws, msg.payload);
+          if (this.requireScope(ws, 'files:write')) this.handleFileWrite(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_DELETE:
+          if (this.requireScope(ws, 'files:write')) this.handleFileDelete(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_RENAME:
+          if (this.requireScope(ws, 'files:write')) this.handleFileMove(ws, msg.payload, 'rename');
+          break;
+
+        case MessageType.FILE_COPY:
+          if (this.requireScope(ws, 'files:write')) this.handleFileMove(ws, msg.payload, 'copy');
+          break;
+
+        case MessageType.FILE_MKDIR:
+          if (this.requireScope(ws, 'files:write')) this.handleFileMkdir(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_STAT:
+          if (this.requireScope(ws, 'files:read')) this.handleFileStat(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_WATCH:
+          if (this.requireScope(ws, 'files:read')) this.handleFileWatch(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_UNWATCH:
+          this.handleFileUnwatch(ws, msg.payload);
+          break;
+
+        case MessageType.SEARCH:
+          if (this.requireScope(ws, 'files:read')) this.handleSearch(ws, msg.payload);
+          break;
+
+        case MessageType.SEARCH_CANCEL:
+          this.handleSearchCancel(ws, msg.payload);
+          break;
+
+        case MessageType.FILE_FIND:
+          if (this.requireScope(ws, 'files:read')) this.handleFileFind(ws, msg.payload);
+          break;
+
+        case MessageType.TRANSFER_START:
+          this.handleTransferStart(ws, msg.payload);
+          break;
+
+        case MessageType.TRANSFER_CHUNK:
+          if (this.requireScope(ws, 'files:write')) this.handleTransferChunk(ws, msg.payload);
+          break;
+
+        case MessageType.TRANSFER_COMPLETE:
+          this.handleTransferComplete(ws, msg.payload);
+          break;
+
+        case MessageType.TRANSFER_CANCEL:
+          this.handleTransferCancel(ws, msg.payload);
           break;
 
         default:
@@ -343,7 +619,16 @@ export class CCRServer {
       return;
     }
 
+    if (!this.isController(ws)) {
+      this.sendMessage(ws, encodeError('READ_ONLY', 'Observers cannot send terminal input'));
+      return;
+    }
+
     const session = this.sessionManager.getSession(ws.currentSessionId);
+    if (session?.exited) {
+      this.sendMessage(ws, encodeError('SESSION_EXITED', `Session ${session.id} has exited`));
+      return;
+    }
     if (session) {
       session.write(payload);
     }
@@ -352,6 +637,11 @@ export class CCRServer {
   private handleResize(ws: AuthenticatedSocket, payload: Buffer): void {
     if (!ws.currentSessionId) return;
 
+    if (!this.isController(ws)) {
+      this.sendMessage(ws, encodeError('READ_ONLY', 'Observers cannot resize the terminal'));
+      return;
+    }
+
     const { cols, rows } = decodeJsonPayload<ResizePayload>(payload);
     const session = this.sessionManager.getSession(ws.currentSessionId);
     if (session) {
@@ -362,17 +652,43 @@ export class CCRServer {
   private handleSessionControl(ws: AuthenticatedSocket, payload: Buffer): void {
     const ctrl = decodeJsonPayload<SessionControlPayload>(payload);
 
+    const mutating = ctrl.action === SessionAction.CREATE
+      || ctrl.action === SessionAction.DESTROY
+      || ctrl.action === SessionAction.RESTART;
+    if (!this.requireScope(ws, mutating ? 'sessions:write' : 'sessions:read')) return;
+
     switch (ctrl.action) {
       case SessionAction.CREATE: {
-        const session = this.sessionManager.createSession({
-          name: ctrl.name,
-          cwd: ctrl.cwd,
-          cols: ctrl.cols,
-          rows: ctrl.rows,
-        });
+        if (ctrl.profile && !this.sessionManager.hasProfile(ctrl.profile)) {
+          this.sendMessage(ws, encodeError('PROFILE_NOT_FOUND', `Launch profile ${ctrl.profile} not found`));
+          return;
+        }
+        const cwd = ctrl.cwd ? this.sessionManager.resolveWorkspaceCwd(ctrl.cwd) : undefined;
+        if (cwd === null) {
+          this.record(ws, { action: 'session.create', target: ctrl.cwd, outcome: 'failure', detail: 'CWD_NOT_ALLOWED' });
+          this.sendMessage(ws, encodeError('CWD_NOT_ALLOWED', cwdNotAllowedMessage(ctrl.cwd!)));
+          return;
+        }
 
-        this.attachToSession(ws, session.id);
-        this.broadcastSessionList();
+        let session;
+        try {
+          session = this.sessionManager.createSession({
+            name: ctrl.name,
+            cwd,
+            cols: ctrl.cols,
+            rows: ctrl.rows,
+            profile: ctrl.profile,
+            record: ctrl.record,
+          });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          this.record(ws, { action: 'session.create', target: cwd, outcome: 'failure', detail: message });
+          this.sendMessage(ws, encodeError('SESSION_CREATE_FAILED', `Could not start the session: ${message}`));
+          return;
+        }
+        this.record(ws, { action: 'session.create', sessionId: session.id, target: session.cwd });
+
+        this.attachToSession(ws, session.id, ctrl.role);
         break;
       }
 
@@ -381,14 +697,19 @@ export class CCRServer {
           this.sendMessage(ws, encodeError('MISSING_SESSION_ID', 'sessionId is required'));
           return;
         }
-        this.attachToSession(ws, ctrl.sessionId);
+        const fromOffset = typeof ctrl.fromOffset === 'number' ? ctrl.fromOffset : undefined;
+        this.attachToSession(ws, ctrl.sessionId, ctrl.role, fromOffset);
         break;
       }
 
       case SessionAction.DETACH: {
         if (ws.currentSessionId) {
-          this.sessionManager.detachClient(ws.currentSessionId);
+          this.record(ws, { action: 'session.detach', sessionId: ws.currentSessionId });
+          this.sessionManager.detachClient(ws.currentSessionId, ws);
           ws.currentSessionId = null;
+          this.fileWatcher.unwatchAll(ws);
+          this.search.cancelAll(ws);
+          this.broadcastSessionList();
         }
         break;
       }
@@ -398,10 +719,30 @@ export class CCRServer {
           this.sendMessage(ws, encodeError('MISSING_SESSION_ID', 'sessionId is required'));
           return;
         }
-        if (ws.currentSessionId === ctrl.sessionId) {
-          ws.currentSessionId = null;
+        const destroyed = this.sessionManager.destroySession(ctrl.sessionId);
+        this.record(ws, {
+          action: 'session.destroy',
+          sessionId: ctrl.sessionId,
+          outcome: destroyed ? 'success' : 'failure',
+        });
+        break;
+      }
+
+      case SessionAction.RESTART: {
+        if (!ctrl.sessionId) {
+          this.sendMessage(ws, encodeError('MISSING_SESSION_ID', 'sessionId is required'));
+          return;
+        }
+        const restarted = this.sessionManager.restartSession(ctrl.sessionId);
+        this.record(ws, {
+          action: 'session.restart',
+          sessionId: ctrl.sessionId,
+          outcome: restarted ? 'success' : 'failure',
+        });
+        if (!restarted) {
+          this.sendMessage(ws, encodeError('SESSION_NOT_FOUND', `Session ${ctrl.sessionId} not found`));
+          return;
         }
-        this.sessionManager.destroySession(ctrl.sessionId);
         this.broadcastSessionList();
         break;
       }
@@ -413,19 +754,55 @@ export class CCRServer {
     }
   }
 
+  private handleSessionExited(sessionId: string, exitCode: number, signal: number | null): void {
+    console.log(`[CCR Server] Session ${sessionId} exited (code=${exitCode}, signal=${signal})`);
+
+    const data = encodeSessionExited(sessionId, exitCode, signal);
+    for (const client of this.sessionManager.getAttachedClients(sessionId)) {
+      this.sendMessage(client, data);
+    }
+    this.broadcastSessionList();
+  }
+
+  /**
+   * Runs for every removed session, whether through the WebSocket or HTTP API or by a
+   * cleanup: its watches and file index go, and clients still on it are told.
+   */
+  private handleSessionDestroyed(sessionId: string, exitCode: number, signal: number | null): void {
+    this.fileWatcher.closeOrphans((id) => this.sessionManager.getSession(id) !== undefined);
+    this.fileIndex.prune((id) => this.sessionManager.getSession(id) !== undefined);
+
+    const data = encodeSessionExited(sessionId, exitCode, signal, true);
+    this.wss?.clients.forEach((ws) => {
+      const authWs = ws as AuthenticatedSocket;
+      if (authWs.currentSessionId !== sessionId) return;
+      authWs.currentSessionId = null;
+      this.sendMessage(authWs, data);
+    });
+    this.broadcastSessionList();
+  }
+
   private handleFileList(ws: AuthenticatedSocket, payload: Buffer): void {
     if (!ws.currentSessionId) {
       this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
       return;
     }
-    const { path: reqPath } = decodeJsonPayload<{ path: string }>(payload);
-    try {
-      const files = this.fileHandler.listFiles(ws.currentSessionId, reqPath);
-      this.sendMessage(ws, encodeFileList(reqPath, files));
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      this.sendMessage(ws, encodeError('FILE_ERROR', message));
-    }
+    const { path: reqPath, depth, offset, limit } = decodeJsonPayload<FileListRequestPayload>(payload);
+    const sessionId = ws.currentSessionId;
+    this.fileHandler.listFiles(sessionId, reqPath, { depth, offset, limit }).then(
+      (listing) => {
+        this.record(ws, {
+          action: 'file.list',
+          sessionId,
+          target: reqPath,
+          detail: depth && depth > 1 ? `depth ${depth}` : undefined,
+        });
+        // The client may have attached elsewhere while the directory was read
+        if (ws.currentSessionId !== sessionId) return;
+        this.sendMessage(ws, encodeFileList({ path: reqPath, ...listing, truncated: listing.truncated || undefined }));
+      },
+      (err: unknown) => this.sendFileError(ws, 'file.list', sessionId, reqPath, err),
+    );
   }
 
   private handleFileRead(ws: AuthenticatedSocket, payload: Buffer): void {
@@ -436,10 +813,10 @@ export class CCRServer {
     const { path: reqPath } = decodeJsonPayload<FileReadPayload>(payload);
     try {
       const result = this.fileHandler.readFile(ws.currentSessionId, reqPath);
-      this.sendMessage(ws, encodeFileContent(reqPath, result.content, result.language));
+      this.record(ws, { action: 'file.read', sessionId: ws.currentSessionId, target: reqPath });
+      this.sendMessage(ws, encodeFileContent(reqPath, result.content, result.language, result.etag));
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      this.sendMessage(ws, encodeError('FILE_ERROR', message));
+      this.sendFileError(ws, 'file.read', ws.currentSessionId, reqPath, err);
     }
   }
 
@@ -448,47 +825,412 @@ export class CCRServer {
       this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
       return;
     }
-    const { path: reqPath, content } = decodeJsonPayload<{ path: string; content: string }>(payload);
+    const { path: reqPath, content, ifMatch, merge } = decodeJsonPayload<FileWritePayload>(payload);
     try {
-      this.fileHandler.writeFile(ws.currentSessionId, reqPath, content);
+      const etag = this.fileHandler.writeFile(ws.currentSessionId, reqPath, content, { ifMatch, merge });
+      this.fileIndex.invalidate(ws.currentSessionId);
+      this.record(ws, {
+        action: 'file.write',
+        sessionId: ws.currentSessionId,
+        target: reqPath,
+        detail: `${Buffer.byteLength(content)} bytes`,
+      });
+      this.sendMessage(ws, encodeFileAck({ op: 'write', path: reqPath, etag }));
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      this.sendMessage(ws, encodeError('FILE_ERROR', message));
+      this.sendFileError(ws, 'file.write', ws.currentSessionId, reqPath, err);
+    }
+  }
+
+  private handleFileDelete(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const { path: reqPath, recursive } = decodeJsonPayload<FileDeletePayload>(payload);
+    try {
+      this.fileHandler.deletePath(ws.currentSessionId, reqPath, recursive === true);
+      this.fileIndex.invalidate(ws.currentSessionId);
+      this.record(ws, {
+        action: 'file.delete',
+        sessionId: ws.currentSessionId,
+        target: reqPath,
+        detail: recursive ? 'recursive' : undefined,
+      });
+      this.sendMessage(ws, encodeFileAck({ op: 'delete', path: reqPath }));
+    } catch (err) {
+      this.sendFileError(ws, 'file.delete', ws.currentSessionId, reqPath, err);
+    }
+  }
+
+  private handleFileMove(ws: AuthenticatedSocket, payload: Buffer, op: 'rename' | 'copy'): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const { path: reqPath, newPath, overwrite } = decodeJsonPayload<FileMovePayload>(payload);
+    const target = `${reqPath} -> ${newPath}`;
+    try {
+      if (op === 'rename') {
+        this.fileHandler.renamePath(ws.currentSessionId, reqPath, newPath, overwrite === true);
+      } else {
+        this.fileHandler.copyPath(ws.currentSessionId, reqPath, newPath, overwrite === true);
+      }
+      this.fileIndex.invalidate(ws.currentSessionId);
+      this.record(ws, { action: `file.${op}`, sessionId: ws.currentSessionId, target });
+      this.sendMessage(ws, encodeFileAck({ op, path: reqPath, newPath }));
+    } catch (err) {
+      this.sendFileError(ws, `file.${op}`, ws.currentSessionId, target, err, { op, path: reqPath });
+    }
+  }
+
+  private handleFileMkdir(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const { path: reqPath, recursive } = decodeJsonPayload<FileMkdirPayload>(payload);
+    try {
+      this.fileHandler.makeDirectory(ws.currentSessionId, reqPath, recursive === true);
+      this.record(ws, { action: 'file.mkdir', sessionId: ws.currentSessionId, target: reqPath });
+      this.sendMessage(ws, encodeFileAck({ op: 'mkdir', path: reqPath }));
+    } catch (err) {
+      this.sendFileError(ws, 'file.mkdir', ws.currentSessionId, reqPath, err);
+    }
+  }
+
+  private handleFileStat(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const { path: reqPath } = decodeJsonPayload<FileReadPayload>(payload);
+    try {
+      const stat = this.fileHandler.stat(ws.currentSessionId, reqPath);
+      this.record(ws, { action: 'file.stat', sessionId: ws.currentSessionId, target: reqPath });
+      this.sendMessage(ws, encodeFileStat(stat));
+    } catch (err) {
+      this.sendFileError(ws, 'file.stat', ws.currentSessionId, reqPath, err);
+    }
+  }
+
+  private handleFileWatch(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    if (this.fileWatcher.countSubscriptions(ws) >= MAX_FILE_WATCHES_PER_CLIENT) {
+      this.sendMessage(ws, encodeError('WATCH_LIMIT', `At most ${MAX_FILE_WATCHES_PER_CLIENT} directories can be watched`));
+      return;
+    }
+    const { path: reqPath, recursive } = decodeJsonPayload<FileWatchPayload>(payload);
+    try {
+      const dir = this.fileHandler.resolveDirectory(ws.currentSessionId, reqPath);
+      this.fileWatcher.watch(ws, ws.currentSessionId, dir.relativePath, dir.fullPath, recursive === true, reqPath);
+      this.record(ws, {
+        action: 'file.watch',
+        sessionId: ws.currentSessionId,
+        target: reqPath,
+        detail: recursive ? 'recursive' : undefined,
+      });
+    } catch (err) {
+      this.sendFileError(ws, 'file.watch', ws.currentSessionId, reqPath, err);
+    }
+  }
+
+  private handleFileUnwatch(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) return;
+    const { path: reqPath } = decodeJsonPayload<FileWatchPayload>(payload);
+    // By the path it was watched with: the directory may be gone by now
+    this.fileWatcher.unwatch(ws, ws.currentSessionId, String(reqPath ?? ''));
+  }
+
+  private handleSearch(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const request = decodeJsonPayload<SearchPayload>(payload);
+    const target = request.path ? `${request.query} in ${request.path}` : request.query;
+    try {
+      this.search.start(ws, ws.currentSessionId, request);
+      this.record(ws, {
+        action: 'file.search',
+        sessionId: ws.currentSessionId,
+        target,
+        detail: request.regex ? 'regex' : undefined,
+      });
+    } catch (err) {
+      this.sendFileError(ws, 'file.search', ws.currentSessionId, target, err, { op: 'search', path: request.path ?? '.' });
+    }
+  }
+
+  private handleSearchCancel(ws: AuthenticatedSocket, payload: Buffer): void {
+    const { searchId } = decodeJsonPayload<SearchCancelPayload>(payload);
+    this.search.cancel(ws, searchId);
+  }
+
+  private handleFileFind(ws: AuthenticatedSocket, payload: Buffer): void {
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const { query, limit } = decodeJsonPayload<FileFindPayload>(payload);
+    const sessionId = ws.currentSessionId;
+    this.fileIndex.find(sessionId, String(query ?? ''), limit).then(
+      (results) => {
+        this.record(ws, { action: 'file.find', sessionId, target: results.query });
+        if (ws.currentSessionId !== sessionId) return;
+        this.sendMessage(ws, encodeFileFind(results));
+      },
+      (err: unknown) => this.sendFileError(ws, 'file.find', sessionId, String(query), err),
+    );
+  }
+
+  /**
+   * Starts a download or upload, or resumes one after a reconnect when transferId is set.
+   * Scope is checked per direction: downloads need files:read, uploads files:write.
+   */
+  private handleTransferStart(ws: AuthenticatedSocket, payload: Buffer): void {
+    const { direction, path: reqPath, size, overwrite, transferId, offset } =
+      decodeJsonPayload<TransferStartPayload>(payload);
+    const upload = direction === 'upload';
+    if (!this.requireScope(ws, upload ? 'files:write' : 'files:read')) return;
+    const owner = this.transferOwner(ws);
+
+    if (transferId) {
+      try {
+        this.transfers.resume(ws, owner, transferId, offset);
+      } catch (err) {
+        this.sendTransferError(ws, err);
+      }
+      return;
+    }
+
+    if (!ws.currentSessionId) {
+      this.sendMessage(ws, encodeError('NO_SESSION', 'No session attached'));
+      return;
+    }
+    const action = upload ? 'file.write' : 'file.read';
+    try {
+      if (upload) {
+        if (!Number.isSafeInteger(size) || size! < 0) {
+          throw new Error('Upload size must be a non-negative integer');
+        }
+        const fullPath = this.fileHandler.resolveUpload(ws.currentSessionId, reqPath, size!, overwrite === true);
+        this.transfers.startUpload(ws, owner, ws.currentSessionId, reqPath, fullPath, size!);
+      } else {
+        const fullPath = this.fileHandler.resolveDownload(ws.currentSessionId, reqPath);
+        this.transfers.startDownload(ws, owner, ws.currentSessionId, reqPath, fullPath);
+      }
+    } catch (err) {
+      this.sendFileError(ws, action, ws.currentSessionId, reqPath, err, { op: upload ? 'upload' : 'download', path: reqPath });
+    }
+  }
+
+  private handleTransferChunk(ws: AuthenticatedSocket, payload: Buffer): void {
+    try {
+      const { transferId, offset, data } = decodeTransferChunk(payload);
+      this.transfers.receiveChunk(ws, this.transferOwner(ws), transferId, offset, data);
+    } catch (err) {
+      this.sendTransferError(ws, err);
+    }
+  }
+
+  /**
+   * From the client, TRANSFER_COMPLETE either finishes an upload (files:write) or
+   * acknowledges a download it has received in full (files:read).
+   */
+  private handleTransferComplete(ws: AuthenticatedSocket, payload: Buffer): void {
+    const { transferId, sha256 } = decodeJsonPayload<TransferCompletePayload>(payload);
+    const owner = this.transferOwner(ws);
+    if (this.transfers.directionOf(owner, transferId) === 'download') {
+      if (!this.requireScope(ws, 'files:read')) return;
+      try {
+        this.transfers.acknowledgeDownload(owner, transferId);
+      } catch (err) {
+        this.sendTransferError(ws, err);
+      }
+      return;
+    }
+
+    if (!this.requireScope(ws, 'files:write')) return;
+    this.transfers.completeUpload(ws, owner, transferId, sha256).catch((err: unknown) => {
+      this.sendTransferError(ws, err);
+    });
+  }
+
+  private handleTransferCancel(ws: AuthenticatedSocket, payload: Buffer): void {
+    const { transferId } = decodeJsonPayload<TransferCancelPayload>(payload);
+    try {
+      this.transfers.cancel(this.transferOwner(ws), transferId);
+    } catch {
+      // Already finished or expired
     }
   }
 
-  private attachToSession(ws: AuthenticatedSocket, sessionId: string): void {
+  /**
+   * Transfers belong to the token that started them, by its id. Tokens minted before
+   * token ids existed fall back to their name.
+   */
+  private transferOwner(ws: AuthenticatedSocket): string {
+    return ws.token!.jti ?? `sub:${ws.token!.sub}`;
+  }
+
+  /**
+   * Reports a failure in a running transfer. These are not audited per chunk; the
+   * outcome of the transfer as a whole is.
+   */
+  private sendTransferError(ws: AuthenticatedSocket, err: unknown): void {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const code = err instanceof TransferError || err instanceof FileAccessError ? err.code : 'FILE_ERROR';
+    this.sendMessage(ws, encodeError(code, message));
+  }
+
+  /**
+   * Records and reports a failed file operation. Policy violations are sent with their
+   * own code; anything else is a plain FILE_ERROR.
+   */
+  private sendFileError(
+    ws: AuthenticatedSocket,
+    action: AuditEvent['action'],
+    sessionId: string,
+    target: string,
+    err: unknown,
+    request: { op: string; path: string } = { op: action.slice('file.'.length), path: target },
+  ): void {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const code = err instanceof FileAccessError || err instanceof TransferError || err instanceof SearchError
+      ? err.code
+      : 'FILE_ERROR';
+    this.record(ws, {
+      action,
+      sessionId,
+      target,
+      outcome: 'failure',
+      detail: code === 'FILE_ERROR' ? message : `${code}: ${message}`,
+    });
+    this.sendMessage(ws, encodeError(code, message, err instanceof FileAccessError ? err.details : undefined, request));
+  }
+
+  /**
+   * Attaches a socket to a session. With fromOffset the client only receives the output
+   * it missed (or an OUTPUT_GAP notice plus a screen snapshot if that output was evicted);
+   * without it the client gets a screen snapshot.
+   */
+  private attachToSession(
+    ws: AuthenticatedSocket,
+    sessionId: string,
+    role: ClientRole = 'controller',
+    fromOffset?: number,
+  ): void {
     if (ws.currentSessionId) {
-      this.sessionManager.detachClient(ws.currentSessionId);
+      this.sessionManager.detachClient(ws.currentSessionId, ws);
+      ws.currentSessionId = null;
     }
+    this.fileWatcher.unwatchAll(ws);
+    this.search.cancelAll(ws);
 
     const session = this.sessionManager.getSession(sessionId);
     if (!session) {
+      this.record(ws, { action: 'session.attach', sessionId, outcome: 'failure', detail: 'not found' });
       this.sendMessage(ws, encodeError('SESSION_NOT_FOUND', `Session ${sessionId} not found`));
       return;
     }
 
-    const success = this.sessionManager.attachClient(sessionId, ws, (data: Buffer) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        this.sendMessage(ws, encodeSessionOutput(sessionId, data));
-      }
+    // Tokens that cannot send input can only watch
+    if (!hasScope(ws.token, 'terminal:input')) {
+      role = 'observer';
+    }
+
+    // A slow client stops receiving output until its send buffer drains, then resyncs
+    // from a screen snapshot instead of the bytes it missed
+    const flow = new OutputFlowControl(ws, (droppedFromOffset) => {
+      const current = this.sessionManager.getSession(sessionId);
+      if (!current || ws.currentSessionId !== sessionId) return;
+      this.sendMessage(ws, encodeOutputGap(sessionId, droppedFromOffset, current.outputOffset));
+      this.sendMessage(ws, encodeTerminalData(current.getScreenSnapshot()));
+      flow.checkBuffer();
+    });
+
+    const onData = (data: Buffer, offset: number) => {
+      if (ws.readyState !== WebSocket.OPEN || !flow.accept(offset, data.length)) return;
+      this.sendOutput(ws, sessionId, data, offset, flow);
+    };
+    const success = this.sessionManager.attachClient(sessionId, ws, onData, {
+      id: ws.clientId,
+      role,
+      remoteAddress: ws.remoteAddress,
+      flow,
     });
 
+    this.record(ws, { action: 'session.attach', sessionId, outcome: success ? 'success' : 'failure', detail: role });
     if (success) {
       ws.currentSessionId = sessionId;
 
-      const scrollback = session.getScrollback();
-      if (scrollback.length > 0) {
-        this.sendMessage(ws, encodeTerminalData(scrollback));
+      if (fromOffset === undefined) {
+        // Redraw from the server-side screen model rather than replaying raw output history
+        this.sendMessage(ws, encodeTerminalData(session.getScreenSnapshot()));
+      } else {
+        const missed = session.getOutputFrom(fromOffset);
+        if (missed) {
+          if (missed.length > 0) {
+            this.sendOutput(ws, sessionId, missed, fromOffset, flow);
+          }
+        } else {
+          this.sendMessage(ws, encodeOutputGap(sessionId, fromOffset, session.outputOffset));
+          this.sendMessage(ws, encodeTerminalData(session.getScreenSnapshot()));
+        }
+      }
+      flow.checkBuffer();
+    }
+
+    // Attached client lists changed
+    this.broadcastSessionList();
+  }
+
+  private sendOutput(
+    ws: AuthenticatedSocket,
+    sessionId: string,
+    data: Buffer,
+    offset: number,
+    flow: OutputFlowControl,
+  ): void {
+    let payload = data;
+    let flags = 0;
+
+    if (ws.compressOutput && data.length >= PAYLOAD_COMPRESSION_MIN_BYTES) {
+      let compressed = this.compressedOutput.get(data);
+      if (compressed === undefined) {
+        compressed = deflateOutput(data);
+        this.compressedOutput.set(data, compressed);
+      }
+      if (compressed) {
+        payload = compressed;
+        flags = SESSION_OUTPUT_FLAG_DEFLATE;
       }
     }
+
+    this.sendMessage(ws, encodeSessionOutput(sessionId, payload, offset, flags));
+    flow.recordFrame(data.length, payload.length);
+    flow.checkBuffer();
+  }
+
+  private isController(ws: AuthenticatedSocket): boolean {
+    if (!ws.currentSessionId) return false;
+    return this.sessionManager.getClientRole(ws.currentSessionId, ws) === 'controller';
   }
 
   private handleDisconnect(ws: AuthenticatedSocket): void {
     if (ws.currentSessionId) {
-      this.sessionManager.detachClient(ws.currentSessionId);
+      this.record(ws, { action: 'session.detach', sessionId: ws.currentSessionId, detail: 'disconnect' });
+      this.sessionManager.detachClient(ws.currentSessionId, ws);
       ws.currentSessionId = null;
+      this.broadcastSessionList();
     }
+    this.fileWatcher.unwatchAll(ws);
+    this.search.cancelAll(ws);
+    // Transfers stay resumable from another connection until they go idle
+    this.transfers.detach(ws);
     // Clean up rate limiter
     const clientKey = (ws as any)._socket?.remoteAddress ?? 'unknown';
     this.rateLimiter.remove(clientKey);
@@ -511,7 +1253,7 @@ export class CCRServer {
     const data = encodeSessionList(sessions);
     this.wss.clients.forEach((ws) => {
       const authWs = ws as AuthenticatedSocket;
-      if (authWs.authenticated && ws.readyState === WebSocket.OPEN) {
+      if (authWs.authenticated && hasScope(authWs.token, 'sessions:read') && ws.readyState === WebSocket.OPEN) {
         ws.send(data);
       }
     });
@@ -539,10 +1281,95 @@ export class CCRServer {
       if (cleaned > 0) {
         console.log(`[CCR Server] Cleaned up ${cleaned} idle session(s)`);
       }
+      this.authGuard.cleanup();
+      const expired = this.sessionManager.cleanupExitedSessions();
+      if (expired > 0) {
+        console.log(`[CCR Server] Removed ${expired} exited session(s) past retention`);
+      }
+      // Indexes nobody has queried in a while
+      this.fileIndex.prune((id) => this.sessionManager.getSession(id) !== undefined);
+      this.transfers.cleanup();
     }, 5 * 60 * 1000);
   }
 
-  stop(): void {
+  private startSnapshots(): void {
+    this.snapshotInterval = setInterval(() => {
+      this.sessionManager.snapshotAll();
+    }, SESSION_SNAPSHOT_INTERVAL_MS);
+  }
+
+  /**
+   * Picks up `ccr server token revoke`, `ccr server token rotate`, `ccr server bans clear`
+   * and `ccr server workspaces` from another process: revoked tokens lose their live
+   * connections, a rotated secret is used for verification without a restart, and cleared
+   * lockouts and changed workspace roots take effect immediately.
+   */
+  private startAuthWatch(): void {
+    const opts = { interval: AUTH_FILE_WATCH_INTERVAL_MS };
+    watchFile(getRevocationListPath(), opts, () => this.disconnectRevokedClients());
+    watchFile(getConfigPath(), opts, () => this.reloadConfig());
+    watchFile(getBansPath(), opts, () => this.authGuard.reload());
+  }
+
+  private disconnectRevokedClients(): void {
+    if (!this.wss) return;
+
+    this.wss.clients.forEach((ws) => {
+      const authWs = ws as AuthenticatedSocket;
+      const jti = authWs.token?.jti;
+      if (!jti || !isTokenRevoked(jti)) return;
+
+      console.log(`[CCR Server] Disconnecting client ${authWs.clientId}: token ${authWs.token!.sub} was revoked`);
+      this.record(authWs, { action: 'auth.revoked', sessionId: authWs.currentSessionId ?? undefined });
+      this.sendMessage(ws, encodeError('AUTH_REVOKED', 'Token has been revoked'));
+      authWs.authenticated = false;
+      this.handleDisconnect(authWs);
+      ws.close();
+    });
+  }
+
+  private reloadConfig(): void {
+    let latest: ServerConfig;
+    try {
+      latest = loadServerConfig();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[CCR Server] Failed to reload config: ${message}`);
+      return;
+    }
+    this.config.workspaceRoots = latest.workspaceRoots;
+    this.sessionManager.setWorkspaceRoots(latest.workspaceRoots);
+    if (latest.jwtSecret === this.config.jwtSecret) return;
+
+    // Mutated in place: the HTTP API holds the same config object
+    this.config.jwtSecret = latest.jwtSecret;
+    this.config.previousJwtSecrets = latest.previousJwtSecrets;
+    this.config.jwtRotationGraceHours = latest.jwtRotationGraceHours;
+    console.log('[CCR Server] JWT signing secret rotated');
+  }
+
+  /**
+   * Swaps in renewed certificates. Only new TLS handshakes use them; open connections
+   * and their sessions are untouched.
+   */
+  reloadTls(tlsOptions: TLSOptions): void {
+    if (!this.tlsOptions || !this.httpServer) return;
+    this.tlsOptions = tlsOptions;
+    (this.httpServer as unknown as HttpsServer).setSecureContext({
+      cert: tlsOptions.cert,
+      key: tlsOptions.key,
+      ca: tlsOptions.ca,
+    });
+    console.log('[CCR Server] TLS certificates reloaded');
+  }
+
+  /**
+   * Resolves once session recordings and the audit log are flushed to disk.
+   */
+  stop(): Promise<void> {
+    unwatchFile(getRevocationListPath());
+    unwatchFile(getConfigPath());
+    unwatchFile(getBansPath());
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
@@ -551,8 +1378,16 @@ export class CCRServer {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
 
-    this.sessionManager.destroyAll();
+    // Keep snapshots on disk so sessions come back on the next start
+    const sessionsClosed = this.sessionManager.shutdown();
+    this.fileWatcher.closeAll();
+    this.transfers.closeAll();
+    const auditClosed = this.audit.close();
 
     if (this.wss) {
       this.wss.close();
@@ -562,6 +1397,7 @@ export class CCRServer {
       this.httpServer.close();
       this.httpServer = null;
     }
+    return Promise.all([sessionsClosed, auditClosed]).then(() => undefined);
   }
 
   getSessionManager(): SessionManager {
@@ -1,3 +1,5 @@
+import type { TokenScope } from './types.js';
+
 export const DEFAULT_PORT = 3100;
 export const DEFAULT_HOST = '0.0.0.0';
 
@@ -8,21 +10,121 @@ export const RECONNECT_MAX_DELAY_MS = 30_000;
 export const RECONNECT_MAX_ATTEMPTS = 10;
 
 export const SCROLLBACK_MAX_BYTES = 1024 * 1024; // 1MB
+export const SCREEN_SCROLLBACK_LINES = 1000;
+
+// Per-client output flow control (bytes queued in the WebSocket send buffer)
+export const OUTPUT_HIGH_WATER_MARK = 512 * 1024;
+export const OUTPUT_LOW_WATER_MARK = 64 * 1024;
+export const OUTPUT_DRAIN_CHECK_INTERVAL_MS = 100;
+
+// PTY output is coalesced into one frame per window, bounded by time and size
+export const DEFAULT_OUTPUT_COALESCE_MS = 5;
+export const DEFAULT_OUTPUT_COALESCE_MAX_BYTES = 32 * 1024;
+
+// SESSION_OUTPUT payload compression (negotiated with the x-ccr-accept-encoding header)
+export const ACCEPT_ENCODING_HEADER = 'x-ccr-accept-encoding';
+export const PAYLOAD_COMPRESSION_MIN_BYTES = 512;
 
 export const DEFAULT_PTY_COLS = 80;
 export const DEFAULT_PTY_ROWS = 24;
 
 export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+export const SESSION_SNAPSHOT_INTERVAL_MS = 60_000;
+export const EXITED_SESSION_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+export const API_MAX_BODY_BYTES = 1024 * 1024; // 1MB
 
 export const JWT_EXPIRY = '24h';
+export const TOKEN_SCOPES: readonly TokenScope[] = [
+  'sessions:read',
+  'sessions:write',
+  'terminal:input',
+  'files:read',
+  'files:write',
+  'admin',
+];
 export const JWT_ALGORITHM = 'HS256' as const;
+export const DEFAULT_JWT_ROTATION_GRACE_HOURS = 24;
 
 export const CONFIG_DIR_NAME = '.ccr';
 export const CONFIG_FILE_NAME = 'config.json';
 export const TOKEN_FILE_NAME = 'token';
+export const TOKENS_REGISTRY_FILE_NAME = 'tokens.json';
+export const REVOKED_TOKENS_FILE_NAME = 'revoked-tokens.json';
+export const AUTH_FILE_WATCH_INTERVAL_MS = 2_000;
+export const SESSION_COOKIE_NAME = 'ccr_session';
+export const BANS_FILE_NAME = 'bans.json';
+export const AUTH_MAX_FAILURES = 5;
+export const AUTH_LOCKOUT_BASE_MS = 30_000;
+export const AUTH_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+export const AUTH_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+export const PAIRING_FILE_NAME = 'pairing.json';
+export const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+/** Everything the Web IDE needs, short of admin */
+export const PAIRING_DEFAULT_SCOPES: readonly TokenScope[] = ['sessions:write', 'terminal:input', 'files:write'];
 export const PID_FILE_NAME = 'server.pid';
 
 export const SESSIONS_DIR = 'sessions';
+export const RECORDINGS_DIR = 'recordings';
+export const AUDIT_DIR = 'audit';
+
+export const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+export const DEFAULT_MAX_TRANSFER_SIZE = 2 * 1024 * 1024 * 1024;
+export const TRANSFER_CHUNK_SIZE = 256 * 1024;
+/** Interrupted transfers can be resumed for this long */
+export const TRANSFER_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+export const MAX_TRANSFERS_PER_CLIENT = 8;
+/** Recently read or written file contents kept as bases for merging a conflicting write */
+export const FILE_VERSION_CACHE_BYTES = 32 * 1024 * 1024;
+/** Edits further apart than this many lines are merged as one conflicting block */
+export const MERGE_MAX_EDIT_DISTANCE = 2000;
+export const SEARCH_MAX_RESULTS = 2000;
+/** Matches are sent once this many have accumulated, or SEARCH_BATCH_INTERVAL_MS after the first */
+export const SEARCH_BATCH_SIZE = 100;
+export const SEARCH_BATCH_INTERVAL_MS = 100;
+/** Larger files are skipped, as are files that look binary */
+export const SEARCH_MAX_FILE_SIZE = 1024 * 1024;
+export const SEARCH_PREVIEW_MAX_CHARS = 200;
+/** A regex search stops with SEARCH_TIMEOUT if matching one file takes longer */
+export const SEARCH_REGEX_TIMEOUT_MS = 2000;
+/** Regular expressions only see this much of each line */
+export const SEARCH_REGEX_MAX_LINE_LENGTH = 4096;
+export const MAX_SEARCHES_PER_CLIENT = 4;
+/** Default and maximum number of entries in one FILE_LIST page */
+export const FILE_LIST_PAGE_SIZE = 5000;
+export const FILE_LIST_MAX_DEPTH = 8;
+/** A recursive listing stops collecting entries past this many */
+export const FILE_LIST_MAX_ENTRIES = 50_000;
+/** Files kept in a session's quick-open index; the rest of a huge tree is left out */
+export const FILE_INDEX_MAX_FILES = 200_000;
+/** An index older than this is rescanned in the background the next time it is queried */
+export const FILE_INDEX_MAX_AGE_MS = 30_000;
+/** Indexes not queried for this long are dropped */
+export const FILE_INDEX_IDLE_MS = 10 * 60_000;
+export const FILE_FIND_MAX_RESULTS = 100;
+/** Changes seen by a file watcher within this window are sent as one FILE_CHANGED */
+export const FILE_WATCH_DEBOUNCE_MS = 150;
+export const MAX_FILE_WATCHES_PER_CLIENT = 64;
+/** A recursive watch watches at most this many directories */
+export const FILE_WATCH_MAX_DIRECTORIES = 4096;
+/** Directory names whose contents never produce FILE_CHANGED and aren't descended into by recursive listings */
+export const FILE_WATCH_IGNORED_NAMES: readonly string[] = ['node_modules', '.git'];
+/** Secrets that shouldn't be one click away in the file explorer */
+export const DEFAULT_FILE_DENY_GLOBS: readonly string[] = [
+  '**/.env',
+  '**/.env.*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  'id_rsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '**/.ssh/**',
+  '**/.aws/**',
+  '**/.gnupg/**',
+];
+
+export const DEFAULT_PROFILE_NAME = 'claude';
 
 export const APP_NAME = 'claude-code-remote-cli';
 export const APP_VERSION = '0.1.0';
@@ -1,4 +1,19 @@
-import { MessageType } from './types.js';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import {
+  MessageType,
+  type TokenScope,
+  type FileAckPayload,
+  type FileStatPayload,
+  type FileChange,
+  type TransferReadyPayload,
+  type TransferCompletePayload,
+  type SearchPayload,
+  type SearchResultsPayload,
+  type FileListRequestPayload,
+  type FileListPayload,
+  type FileFindResultsPayload,
+  type ErrorPayload,
+} from './types.js';
 
 /**
  * Binary message protocol:
@@ -72,39 +87,171 @@ export function encodeAuth(token: string): Buffer {
   return encodeMessage(MessageType.AUTH, { token });
 }
 
-export function encodeAuthOk(): Buffer {
-  return encodeMessage(MessageType.AUTH_OK, { status: 'ok' });
+export function encodeAuthOk(profiles: string[] = [], scopes: TokenScope[] = []): Buffer {
+  return encodeMessage(MessageType.AUTH_OK, { status: 'ok', profiles, scopes });
 }
 
-export function encodeError(code: string, message: string): Buffer {
-  return encodeMessage(MessageType.ERROR, { code, message });
+export function encodeError(
+  code: string,
+  message: string,
+  details?: unknown,
+  request?: Pick<ErrorPayload, 'op' | 'path'>,
+): Buffer {
+  return encodeMessage(MessageType.ERROR, { code, message, details, ...request });
 }
 
 export function encodeSessionList(sessions: unknown[]): Buffer {
   return encodeMessage(MessageType.SESSION_LIST, sessions);
 }
 
-export function encodeFileList(path: string, files: unknown[]): Buffer {
-  return encodeMessage(MessageType.FILE_LIST, { path, files });
+export function encodeSessionExited(sessionId: string, exitCode: number, signal: number | null, destroyed?: boolean): Buffer {
+  return encodeMessage(MessageType.SESSION_EXITED, { sessionId, exitCode, signal, destroyed });
+}
+
+export function encodeOutputGap(sessionId: string, requestedOffset: number, offset: number): Buffer {
+  return encodeMessage(MessageType.OUTPUT_GAP, { sessionId, requestedOffset, offset });
+}
+
+export function encodeFileListRequest(request: FileListRequestPayload): Buffer {
+  return encodeMessage(MessageType.FILE_LIST, request);
+}
+
+export function encodeFileList(listing: FileListPayload): Buffer {
+  return encodeMessage(MessageType.FILE_LIST, listing);
 }
 
 export function encodeFileRead(path: string): Buffer {
   return encodeMessage(MessageType.FILE_READ, { path });
 }
 
-export function encodeFileContent(path: string, content: string, language: string): Buffer {
-  return encodeMessage(MessageType.FILE_CONTENT, { path, content, language });
+export function encodeFileContent(path: string, content: string, language: string, etag: string): Buffer {
+  return encodeMessage(MessageType.FILE_CONTENT, { path, content, language, etag });
+}
+
+export function encodeFileWrite(path: string, content: string, ifMatch?: string, merge?: boolean): Buffer {
+  return encodeMessage(MessageType.FILE_WRITE, { path, content, ifMatch, merge });
+}
+
+export function encodeFileDelete(path: string, recursive = false): Buffer {
+  return encodeMessage(MessageType.FILE_DELETE, { path, recursive });
+}
+
+export function encodeFileRename(path: string, newPath: string, overwrite = false): Buffer {
+  return encodeMessage(MessageType.FILE_RENAME, { path, newPath, overwrite });
+}
+
+export function encodeFileMkdir(path: string, recursive = false): Buffer {
+  return encodeMessage(MessageType.FILE_MKDIR, { path, recursive });
+}
+
+export function encodeFileCopy(path: string, newPath: string, overwrite = false): Buffer {
+  return encodeMessage(MessageType.FILE_COPY, { path, newPath, overwrite });
+}
+
+export function encodeFileStatRequest(path: string): Buffer {
+  return encodeMessage(MessageType.FILE_STAT, { path });
+}
+
+export function encodeFileStat(stat: FileStatPayload): Buffer {
+  return encodeMessage(MessageType.FILE_STAT, stat);
+}
+
+export function encodeFileAck(ack: FileAckPayload): Buffer {
+  return encodeMessage(MessageType.FILE_ACK, ack);
+}
+
+export function encodeFileWatch(path: string, recursive = false): Buffer {
+  return encodeMessage(MessageType.FILE_WATCH, { path, recursive });
+}
+
+export function encodeFileUnwatch(path: string): Buffer {
+  return encodeMessage(MessageType.FILE_UNWATCH, { path });
+}
+
+export function encodeFileChanged(sessionId: string, changes: FileChange[]): Buffer {
+  return encodeMessage(MessageType.FILE_CHANGED, { sessionId, changes });
+}
+
+export function encodeTransferReady(ready: TransferReadyPayload): Buffer {
+  return encodeMessage(MessageType.TRANSFER_READY, ready);
 }
 
-export function encodeFileWrite(path: string, content: string): Buffer {
-  return encodeMessage(MessageType.FILE_WRITE, { path, content });
+export function encodeTransferComplete(complete: TransferCompletePayload): Buffer {
+  return encodeMessage(MessageType.TRANSFER_COMPLETE, complete);
+}
+
+export function encodeTransferCancel(transferId: string): Buffer {
+  return encodeMessage(MessageType.TRANSFER_CANCEL, { transferId });
+}
+
+export function encodeSearch(search: SearchPayload): Buffer {
+  return encodeMessage(MessageType.SEARCH, search);
+}
+
+export function encodeSearchResults(results: SearchResultsPayload): Buffer {
+  return encodeMessage(MessageType.SEARCH_RESULTS, results);
+}
+
+export function encodeSearchCancel(searchId: string): Buffer {
+  return encodeMessage(MessageType.SEARCH_CANCEL, { searchId });
+}
+
+export function encodeFileFindRequest(query: string, limit?: number): Buffer {
+  return encodeMessage(MessageType.FILE_FIND, { query, limit });
+}
+
+export function encodeFileFind(results: FileFindResultsPayload): Buffer {
+  return encodeMessage(MessageType.FILE_FIND, results);
 }
 
 /**
- * Encodes terminal output data along with the sessionId it belongs to.
- * Format: [1 byte type][8 bytes sessionId length (LE uint32) + sessionId string][terminal data]
+ * Encodes one chunk of a file transfer as raw bytes rather than JSON.
+ * Format: [1 byte type][4 bytes transferId length (LE uint32)][transferId string][8 bytes offset (LE uint64)][data]
  */
-export function encodeSessionOutput(sessionId: string, data: Buffer | string): Buffer {
+export function encodeTransferChunk(transferId: string, offset: number, data: Buffer): Buffer {
+  const typeBuf = Buffer.alloc(1);
+  typeBuf[0] = MessageType.TRANSFER_CHUNK;
+
+  const idBuf = Buffer.from(transferId, 'utf-8');
+  const header = Buffer.alloc(4 + idBuf.length + 8);
+  header.writeUInt32LE(idBuf.length, 0);
+  idBuf.copy(header, 4);
+  header.writeBigUInt64LE(BigInt(offset), 4 + idBuf.length);
+
+  return Buffer.concat([typeBuf, header, data]);
+}
+
+export function decodeTransferChunk(payload: Buffer): { transferId: string; offset: number; data: Buffer } {
+  if (payload.length < 12) {
+    throw new Error('Transfer chunk too short');
+  }
+  const idLen = payload.readUInt32LE(0);
+  if (payload.length < 4 + idLen + 8) {
+    throw new Error('Transfer chunk too short');
+  }
+  const transferId = payload.subarray(4, 4 + idLen).toString('utf-8');
+  const offset = Number(payload.readBigUInt64LE(4 + idLen));
+  return { transferId, offset, data: payload.subarray(4 + idLen + 8) };
+}
+
+/** SESSION_OUTPUT flag: the terminal data is deflate-raw compressed */
+export const SESSION_OUTPUT_FLAG_DEFLATE = 0x01;
+
+/**
+ * Compresses terminal data for a SESSION_OUTPUT frame. Returns null when compression
+ * would not make the payload smaller.
+ */
+export function deflateOutput(data: Buffer): Buffer | null {
+  const compressed = deflateRawSync(data, { level: 1 });
+  return compressed.length < data.length ? compressed : null;
+}
+
+/**
+ * Encodes terminal output data along with the sessionId it belongs to and the
+ * output stream offset of its first byte.
+ * Format: [1 byte type][4 bytes sessionId length (LE uint32)][sessionId string][8 bytes offset (LE uint64)][1 byte flags][terminal data]
+ */
+export function encodeSessionOutput(sessionId: string, data: Buffer | string, offset: number, flags = 0): Buffer {
   const typeBuf = Buffer.alloc(1);
   typeBuf[0] = MessageType.SESSION_OUTPUT;
 
@@ -112,17 +259,25 @@ export function encodeSessionOutput(sessionId: string, data: Buffer | string): B
   const sessionIdLenBuf = Buffer.alloc(4);
   sessionIdLenBuf.writeUInt32LE(sessionIdBuf.length, 0);
 
+  const headerBuf = Buffer.alloc(9);
+  headerBuf.writeBigUInt64LE(BigInt(offset), 0);
+  headerBuf[8] = flags;
+
   const dataBuf = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
 
-  return Buffer.concat([typeBuf, sessionIdLenBuf, sessionIdBuf, dataBuf]);
+  return Buffer.concat([typeBuf, sessionIdLenBuf, sessionIdBuf, headerBuf, dataBuf]);
 }
 
 /**
- * Decodes a SESSION_OUTPUT message payload into sessionId and terminal data.
+ * Decodes a SESSION_OUTPUT message payload into sessionId, stream offset and terminal data,
+ * inflating the data if it was sent compressed.
  */
-export function decodeSessionOutput(payload: Buffer): { sessionId: string; data: Buffer } {
+export function decodeSessionOutput(payload: Buffer): { sessionId: string; offset: number; data: Buffer } {
   const sessionIdLen = payload.readUInt32LE(0);
   const sessionId = payload.subarray(4, 4 + sessionIdLen).toString('utf-8');
-  const data = payload.subarray(4 + sessionIdLen);
-  return { sessionId, data };
+  const offset = Number(payload.readBigUInt64LE(4 + sessionIdLen));
+  const flags = payload[4 + sessionIdLen + 8];
+  const raw = payload.subarray(4 + sessionIdLen + 9);
+  const data = flags & SESSION_OUTPUT_FLAG_DEFLATE ? inflateRawSync(raw) : raw;
+  return { sessionId, offset, data };
 }
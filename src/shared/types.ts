@@ -13,6 +13,26 @@ export enum MessageType {
   FILE_READ = 0x0b,
   FILE_CONTENT = 0x0c,
   FILE_WRITE = 0x0d,
+  SESSION_EXITED = 0x0e,
+  OUTPUT_GAP = 0x0f,
+  FILE_DELETE = 0x10,
+  FILE_RENAME = 0x11,
+  FILE_MKDIR = 0x12,
+  FILE_COPY = 0x13,
+  FILE_STAT = 0x14,
+  FILE_ACK = 0x15,
+  FILE_WATCH = 0x16,
+  FILE_UNWATCH = 0x17,
+  FILE_CHANGED = 0x18,
+  TRANSFER_START = 0x19,
+  TRANSFER_READY = 0x1a,
+  TRANSFER_CHUNK = 0x1b,
+  TRANSFER_COMPLETE = 0x1c,
+  TRANSFER_CANCEL = 0x1d,
+  SEARCH = 0x1e,
+  SEARCH_RESULTS = 0x1f,
+  SEARCH_CANCEL = 0x20,
+  FILE_FIND = 0x21,
 }
 
 export enum SessionAction {
@@ -21,6 +41,66 @@ export enum SessionAction {
   DETACH = 'detach',
   DESTROY = 'destroy',
   LIST = 'list',
+  RESTART = 'restart',
+}
+
+export type ClientRole = 'controller' | 'observer';
+
+/**
+ * Permissions carried by an access token. 'admin' implies every other scope and
+ * a ':write' scope implies the matching ':read' scope.
+ */
+export type TokenScope =
+  | 'sessions:read'
+  | 'sessions:write'
+  | 'terminal:input'
+  | 'files:read'
+  | 'files:write'
+  | 'admin';
+
+export type AuditAction =
+  | 'auth.success'
+  | 'auth.failure'
+  | 'auth.locked'
+  | 'auth.revoked'
+  | 'pair.redeem'
+  | 'login'
+  | 'logout'
+  | 'session.create'
+  | 'session.attach'
+  | 'session.detach'
+  | 'session.destroy'
+  | 'session.restart'
+  | 'file.list'
+  | 'file.read'
+  | 'file.write'
+  | 'file.delete'
+  | 'file.rename'
+  | 'file.mkdir'
+  | 'file.copy'
+  | 'file.stat'
+  | 'file.watch'
+  | 'file.search'
+  | 'file.find'
+  | 'api.request';
+
+/**
+ * One line of the audit log in ~/.ccr/audit.
+ */
+export interface AuditEntry {
+  timestamp: string;
+  action: AuditAction;
+  /** Token subject (name) and jti; absent when no valid token was presented */
+  tokenName?: string;
+  tokenId?: string;
+  remoteAddress: string;
+  /** Session the action applied to or was performed in */
+  sessionId?: string;
+  /** File path, REST route, or other object of the action */
+  target?: string;
+  outcome: 'success' | 'failure';
+  /** Failure reason, auth method, HTTP status and similar */
+  detail?: string;
 }
 
 export interface ResizePayload {
@@ -35,36 +115,182 @@ export interface SessionControlPayload {
   cwd?: string;
   cols?: number;
   rows?: number;
+  /** Attach role for CREATE/ATTACH; defaults to 'controller' */
+  role?: ClientRole;
+  /** Launch profile name for CREATE; defaults to the server's default profile */
+  profile?: string;
+  /** Record the session for CREATE; defaults to the server's recordSessions setting */
+  record?: boolean;
+  /** Output stream offset to resume from on ATTACH; omit to get a full screen snapshot */
+  fromOffset?: number;
 }
 
 export interface AuthPayload {
   token: string;
 }
 
+export interface AuthOkPayload {
+  status: 'ok';
+  /** Launch profile names available for CREATE */
+  profiles: string[];
+  /** Scopes granted to the authenticated token */
+  scopes: TokenScope[];
+}
+
 export interface ErrorPayload {
   code: string;
   message: string;
+  /** Extra data for errors a client can act on, such as FileConflictDetails for FILE_CONFLICT */
+  details?: unknown;
+  /**
+   * On errors answering a file request, the request's operation ('write', 'rename',
+   * 'upload', 'find', ...) and path (the source, for renames and copies), so a client
+   * can tell which of its requests failed
+   */
+  op?: string;
+  path?: string;
+}
+
+/** Error body of the HTTP API; codes match ErrorPayload codes sent over WebSocket */
+export interface ApiErrorBody {
+  error: ErrorPayload;
+}
+
+/** Response of GET /api/sessions/:id/scrollback */
+export interface ScrollbackResponse {
+  sessionId: string;
+  /** Output stream offset of the first byte in data (before ANSI stripping) */
+  startOffset: number;
+  endOffset: number;
+  data: string;
+}
+
+/** Response of POST /api/pair */
+export interface PairResponse {
+  token: string;
+  name: string;
+  scopes: TokenScope[];
+  expiresAt: string;
+}
+
+/** Response of GET/POST /api/login */
+export interface LoginResponse {
+  name: string;
+  scopes: TokenScope[];
+  expiresAt: string;
+}
+
+/** Response of PUT /api/sessions/:id/files/<path> */
+export interface FileUploadResponse {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface SessionExitedPayload {
+  sessionId: string;
+  exitCode: number;
+  signal: number | null;
+  /** The session was removed, so it can't be restarted; exitCode is 0 if it was still running */
+  destroyed?: boolean;
+}
+
+/**
+ * Sent instead of missed output when an ATTACH fromOffset is no longer in the
+ * scrollback buffer; a full screen snapshot follows as TERMINAL_DATA.
+ */
+export interface OutputGapPayload {
+  sessionId: string;
+  requestedOffset: number;
+  /** Current end of the output stream; the snapshot reflects the screen at this offset */
+  offset: number;
 }
 
 export interface SessionInfo {
   id: string;
   name: string;
   cwd: string;
+  profile: string;
   createdAt: string;
   lastActivity: string;
-  connected: boolean;
+  clients: AttachedClientInfo[];
   pid: number;
+  recording: boolean;
+  /** True once the process has exited; the session is kept (with scrollback) until destroyed or expired */
+  exited: boolean;
+  exitCode?: number;
+  signal?: number | null;
+  exitedAt?: string;
+}
+
+export interface AttachedClientInfo {
+  id: string;
+  role: ClientRole;
+  remoteAddress: string;
+  attachedAt: string;
+  flow: ClientFlowStats;
+}
+
+/**
+ * Output flow-control state for one attached client.
+ */
+export interface ClientFlowStats {
+  /** Bytes currently queued in the client's WebSocket send buffer */
+  bufferedAmount: number;
+  /** True while output is being dropped until the client drains */
+  stalled: boolean;
+  /** Number of times the client crossed the high water mark */
+  stalls: number;
+  /** Total time spent stalled, including the current stall */
+  stalledMs: number;
+  /** Output bytes skipped while stalled (replaced by resync snapshots) */
+  droppedBytes: number;
+  /** SESSION_OUTPUT frames sent */
+  frames: number;
+  /** Terminal output bytes sent, before payload compression */
+  rawBytes: number;
+  /** Terminal output bytes sent, after payload compression */
+  sentBytes: number;
+  /** rawBytes / sentBytes: the opt-in payload deflate only (1 when nothing was compressed) */
+  payloadCompressionRatio: number;
+  /**
+   * permessage-deflate was negotiated, so frames are compressed on the wire on top of
+   * sentBytes. ws doesn't expose the compressed size, so there is no ratio for it.
+   */
+  perMessageDeflate: boolean;
 }
 
 export interface FileEntry {
   name: string;
   type: 'file' | 'directory';
   size: number;
+  /** Path relative to the listed directory; only set in listings deeper than one level */
+  path?: string;
 }
 
+/** FILE_LIST request */
+export interface FileListRequestPayload {
+  path: string;
+  /** Levels to descend, 1 (the default) for the directory's own entries; capped by FILE_LIST_MAX_DEPTH */
+  depth?: number;
+  /** Index of the first entry to send, for paging through large listings */
+  offset?: number;
+  /** Entries per page; defaults to and is capped by FILE_LIST_PAGE_SIZE */
+  limit?: number;
+}
+
+/**
+ * FILE_LIST reply. Recursive listings are flattened depth-first, each directory followed
+ * by its contents, directories before files.
+ */
 export interface FileListPayload {
   path: string;
   files: FileEntry[];
+  offset: number;
+  /** Entries in the whole listing; more pages follow while offset + files.length < total */
+  total: number;
+  /** The listing stopped at FILE_LIST_MAX_ENTRIES, so total is a lower bound */
+  truncated?: boolean;
 }
 
 export interface FileReadPayload {
@@ -75,19 +301,308 @@ export interface FileContentPayload {
   path: string;
   content: string;
   language: string;
+  /** Version of the content (a hash of it), to send back as ifMatch when saving */
+  etag: string;
 }
 
 export interface FileWritePayload {
   path: string;
   content: string;
+  /** Only write if the file is still at this version; otherwise fail with FILE_CONFLICT */
+  ifMatch?: string;
+  /** On a conflict, include a three-way merge of the edit with the current content */
+  merge?: boolean;
+}
+
+/** Result of merging an edit with changes made to the file since it was read */
+export interface FileMergeResult {
+  /** Merged text; regions both sides changed are wrapped in conflict markers */
+  content: string;
+  conflicts: number;
+}
+
+/** Details of a FILE_CONFLICT error: the file's current version */
+export interface FileConflictDetails {
+  path: string;
+  etag: string;
+  content: string;
+  /** Present when the write asked for a merge and the version it was based on was still known */
+  merge?: FileMergeResult;
+}
+
+export interface FileDeletePayload {
+  path: string;
+  /** Required to delete a non-empty directory */
+  recursive?: boolean;
+}
+
+/** FILE_RENAME moves path to newPath; FILE_COPY copies it there (directories recursively) */
+export interface FileMovePayload {
+  path: string;
+  newPath: string;
+  /** Replace newPath if it already exists */
+  overwrite?: boolean;
+}
+
+export interface FileMkdirPayload {
+  path: string;
+  /** Also create missing parent directories */
+  recursive?: boolean;
+}
+
+/** FILE_STAT request is { path }; the reply is a FILE_STAT carrying this */
+export interface FileStatPayload {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  /** Last modification time, ISO 8601 */
+  mtime: string;
+  /** Permission bits, e.g. 0o644 */
+  mode: number;
+  /** Matches the file policy's readOnly globs */
+  readOnly: boolean;
+}
+
+export type FileOperation = 'write' | 'delete' | 'rename' | 'mkdir' | 'copy';
+
+/** FILE_WATCH subscribes to changes in a directory; FILE_UNWATCH ({ path }) undoes it */
+export interface FileWatchPayload {
+  path: string;
+  /** Also report changes in subdirectories, at any depth */
+  recursive?: boolean;
+}
+
+export type FileChangeKind = 'created' | 'modified' | 'deleted' | 'renamed';
+
+export interface FileChange {
+  /** Path relative to the session root, like FILE_LIST paths */
+  path: string;
+  kind: FileChangeKind;
+  /** Previous path of a renamed entry */
+  oldPath?: string;
+}
+
+export interface FileChangedPayload {
+  sessionId: string;
+  changes: FileChange[];
+}
+
+export type TransferDirection = 'download' | 'upload';
+
+/**
+ * TRANSFER_START: begins a chunked transfer of a file of any size, or resumes one
+ * (e.g. after a reconnect) when transferId is set.
+ */
+export interface TransferStartPayload {
+  direction: TransferDirection;
+  path: string;
+  /** Upload: total size in bytes */
+  size?: number;
+  /** Upload: replace an existing file */
+  overwrite?: boolean;
+  /** Resume this transfer instead of starting a new one */
+  transferId?: string;
+  /** Resuming a download: the first byte still needed */
+  offset?: number;
+}
+
+/** TRANSFER_READY: reply to TRANSFER_START */
+export interface TransferReadyPayload {
+  transferId: string;
+  direction: TransferDirection;
+  path: string;
+  size: number;
+  /** Download: offset of the first chunk that follows. Upload: bytes already received, so the next chunk starts here */
+  offset: number;
+  /** Largest chunk the server sends or accepts */
+  chunkSize: number;
+}
+
+/**
+ * TRANSFER_COMPLETE: for a download, sent by the server after the last chunk and echoed
+ * back with just the transferId once the client has every byte; until then the download
+ * can be resumed. For an upload, sent by the client after its last chunk, then by the
+ * server once the file is in place.
+ */
+export interface TransferCompletePayload {
+  transferId: string;
+  path?: string;
+  size?: number;
+  /** Hex SHA-256 of the whole file; optional from an uploading client, which skips verification */
+  sha256?: string;
+}
+
+/** TRANSFER_CANCEL: either side abandons a transfer; a partial upload is discarded */
+export interface TransferCancelPayload {
+  transferId: string;
+}
+
+/** SEARCH: full-text search of the attached session's working directory */
+export interface SearchPayload {
+  /** Chosen by the client; results and SEARCH_CANCEL refer to it */
+  searchId: string;
+  query: string;
+  /** Treat query as a JavaScript regular expression rather than literal text */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Directory to search, relative to the session root; defaults to the root */
+  path?: string;
+  /** Only search files matching one of these globs */
+  include?: string[];
+  /** Skip files matching any of these globs, on top of .gitignore */
+  exclude?: string[];
+  /** Stop after this many matches; capped by SEARCH_MAX_RESULTS */
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  /** Path relative to the session root */
+  path: string;
+  /** 1-based line and column of the first match on the line */
+  line: number;
+  column: number;
+  /** The matching line, shortened around the match if it is long */
+  preview: string;
+}
+
+/** SEARCH_RESULTS: a batch of matches; the last one for a search has done set */
+export interface SearchResultsPayload {
+  searchId: string;
+  matches: SearchMatch[];
+  done: boolean;
+  /** On the last batch: the result cap was reached, so there may be more matches */
+  truncated?: boolean;
+  /** On the last batch: how many files were searched */
+  filesSearched?: number;
+}
+
+/** SEARCH_CANCEL: stop a running search; no further batches are sent for it */
+export interface SearchCancelPayload {
+  searchId: string;
+}
+
+/** FILE_FIND request: fuzzy "quick open" lookup of file paths in the attached session */
+export interface FileFindPayload {
+  query: string;
+  /** Results to send; defaults to and is capped by FILE_FIND_MAX_RESULTS */
+  limit?: number;
+}
+
+export interface FileFindMatch {
+  /** Path relative to the session root */
+  path: string;
+  score: number;
+  /** Indexes into path of the characters that matched the query, for highlighting */
+  positions: number[];
+}
+
+/** FILE_FIND reply, best match first */
+export interface FileFindResultsPayload {
+  query: string;
+  results: FileFindMatch[];
+  /** Indexed files that matched, of which the best are in results */
+  total: number;
+  /** Files in the index */
+  indexed: number;
+  /** The index stopped at FILE_INDEX_MAX_FILES, so some files can't be found */
+  truncated?: boolean;
+}
+
+/** Sent once a FILE_WRITE, FILE_DELETE, FILE_RENAME, FILE_MKDIR or FILE_COPY has completed */
+export interface FileAckPayload {
+  op: FileOperation;
+  path: string;
+  /** Destination of a rename or copy */
+  newPath?: string;
+  /** New version of a written file */
+  etag?: string;
+}
+
+export interface LaunchProfile {
+  /** Executable to spawn; defaults to the resolved claude binary */
+  command?: string;
+  args?: string[];
+  /** Extra environment variables merged over the server's environment */
+  env?: Record<string, string>;
+  /** Default working directory for sessions created with this profile */
+  cwd?: string;
+  /** Added to the server's file policy for sessions created with this profile */
+  filePolicy?: Partial<FilePolicy>;
+}
+
+/**
+ * Limits on what the file explorer and editor may touch. Globs are matched against
+ * paths relative to the session root; a glob without '/' matches the name at any depth.
+ * A glob that matches a directory covers everything in it.
+ */
+export interface FilePolicy {
+  /** Never listed, read or written, e.g. '.env', '*.pem', 'secrets/**' */
+  deny: string[];
+  /** Readable but not writable */
+  readOnly: string[];
+  /** Largest file that may be read or written as a whole (FILE_READ/FILE_WRITE), in bytes */
+  maxFileSize: number;
+  /** Largest file that may be uploaded with a chunked transfer, in bytes */
+  maxTransferSize: number;
+}
+
+export interface RetiredJwtSecret {
+  secret: string;
+  /** ISO time the secret was rotated out; its tokens stay valid for jwtRotationGraceHours */
+  retiredAt: string;
 }
 
 export interface ServerConfig {
   port: number;
   host: string;
   jwtSecret: string;
+  /** Secrets replaced by `ccr server token rotate`, newest last */
+  previousJwtSecrets: RetiredJwtSecret[];
+  /** How long tokens signed with a rotated-out secret are still accepted */
+  jwtRotationGraceHours: number;
+  profiles: Record<string, LaunchProfile>;
+  defaultProfile: string;
+  /** Record every new session to ~/.ccr/recordings unless CREATE opts out */
+  recordSessions: boolean;
+  /** Coalescing window for PTY output in milliseconds; 0 sends every chunk immediately */
+  outputCoalesceMs: number;
+  /** Flush the coalescing window early once this many bytes are pending */
+  outputCoalesceMaxBytes: number;
+  /**
+   * Offer permessage-deflate on the WebSocket server. On by default: browsers can't ask
+   * for payloadCompression, so this is the only compression the Web IDE gets.
+   */
+  perMessageDeflate: boolean;
+  /** Deflate SESSION_OUTPUT payloads for clients that send x-ccr-accept-encoding: deflate */
+  payloadCompression: boolean;
+  /**
+   * Origins, besides the server's own, whose pages may open a WebSocket with the
+   * login cookie (e.g. 'https://ide.example.com')
+   */
+  allowedOrigins: string[];
+  /** Accept ws://host?token=... (the token ends up in proxy and access logs) */
+  allowQueryTokenAuth: boolean;
+  /** PEM certificate and key to serve instead of the ones issued by the local CA */
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+  /** Extra names for the local CA's server certificate, e.g. 'DNS:devbox.lan' or 'IP:10.0.0.5' */
+  tlsSubjectAltNames: string[];
+  /**
+   * Client certificates signed by the local CA authenticate as the named token matching
+   * their CN. 'required' rejects TLS connections without one.
+   */
+  tlsClientAuth: TlsClientAuthMode;
+  filePolicy: FilePolicy;
+  /**
+   * Directories a CREATE request may start a session in (or below), e.g. '~/projects'.
+   * Managed with `ccr server workspaces`; empty by default, so an explicit cwd is refused
+   * until one is added. Sessions without a cwd always get their own folder under sessions/.
+   */
+  workspaceRoots: string[];
 }
 
+export type TlsClientAuthMode = 'off' | 'optional' | 'required';
+
 export interface ClientConfig {
   host: string;
   port: number;
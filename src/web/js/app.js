@@ -7,6 +7,8 @@
   let wsClient;
   let terminal;
   let fileTree;
+  let searchPanel;
+  let quickOpen;
   let editor;
   let sessionBar;
   let ctrlActive = false;
@@ -16,28 +18,59 @@
   const authToken = document.getElementById('auth-token');
   const btnConnect = document.getElementById('btn-connect');
   const authError = document.getElementById('auth-error');
+  const btnLogout = document.getElementById('btn-logout');
   const toggleExplorer = document.getElementById('btn-toggle-explorer');
+  const btnQuickOpen = document.getElementById('btn-quick-open');
   const filePanel = document.getElementById('file-panel');
   const resizerLeft = document.getElementById('resizer-left');
   const resizerRight = document.getElementById('resizer-right');
   const mobileKeys = document.getElementById('mobile-keys');
   const mobileTabBar = document.getElementById('mobile-tab-bar');
 
-  // Check for saved token
-  const savedToken = sessionStorage.getItem('ccr-token');
-  if (savedToken) {
-    initApp(savedToken);
+  // Pairing codes look like ABCD-EFGH; anything longer is a token
+  const PAIRING_CODE_PATTERN = /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/;
+
+  // A ?pair= link from `ccr server pair` logs in with a fresh token; otherwise
+  // reuse the login cookie if it is still valid
+  const params = new URLSearchParams(location.search);
+  const pairCode = params.get('pair');
+  if (pairCode) {
+    // Drop the code from the address bar and history; it is single-use anyway
+    params.delete('pair');
+    const query = params.toString();
+    history.replaceState(null, '', location.pathname + (query ? `?${query}` : '') + location.hash);
+    redeemPairingCode(pairCode);
+  } else {
+    fetch('/api/login')
+      .then((res) => {
+        if (res.ok) startApp();
+      })
+      .catch(() => {});
   }
 
   // Auth dialog handlers
   btnConnect.addEventListener('click', () => {
-    const token = authToken.value.trim();
-    if (!token) {
-      authError.textContent = 'Token is required';
-      authError.classList.remove('hidden');
+    const value = authToken.value.trim();
+    if (!value) {
+      showAuthError('Token is required');
       return;
     }
-    initApp(token);
+    if (PAIRING_CODE_PATTERN.test(value)) {
+      redeemPairingCode(value);
+      return;
+    }
+    login(value);
+  });
+
+  btnLogout.addEventListener('click', async () => {
+    try {
+      await fetch('/api/logout', { method: 'POST' });
+    } catch {
+      // The cookie stays until it expires; still drop the connection
+    }
+    if (wsClient) wsClient.disconnect();
+    authError.classList.add('hidden');
+    authDialog.classList.remove('hidden');
   });
 
   authToken.addEventListener('keydown', (e) => {
@@ -46,15 +79,77 @@
     }
   });
 
-  function initApp(token) {
-    // Save token for session
-    sessionStorage.setItem('ccr-token', token);
+  function showAuthError(message) {
+    authDialog.classList.remove('hidden');
+    authError.textContent = message;
+    authError.classList.remove('hidden');
+  }
+
+  /**
+   * Exchanges a one-time pairing code for a token, then logs in with it.
+   */
+  async function redeemPairingCode(code) {
+    btnConnect.disabled = true;
+    try {
+      const res = await fetch('/api/pair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        showAuthError(body.error?.message ?? 'Pairing failed');
+        return;
+      }
+      await login(body.token);
+    } catch {
+      showAuthError('Could not reach the server to pair');
+    } finally {
+      btnConnect.disabled = false;
+    }
+  }
+
+  /**
+   * Trades the token for an HttpOnly login cookie, so the token itself is
+   * never kept by the page or sent in the WebSocket URL.
+   */
+  async function login(token) {
+    try {
+      const res = await fetch('/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      if (!res.ok) {
+        const body = await res.json();
+        showAuthError(body.error?.message ?? 'Login failed');
+        return;
+      }
+      authToken.value = '';
+      startApp();
+    } catch {
+      showAuthError('Could not reach the server to log in');
+    }
+  }
+
+  function startApp() {
+    if (wsClient) {
+      authDialog.classList.add('hidden');
+      wsClient.reconnect();
+    } else {
+      initApp();
+    }
+  }
 
+  function initApp() {
     // Hide auth dialog
     authDialog.classList.add('hidden');
 
-    // Create WebSocket client
+    // Create WebSocket client (?observe opens sessions read-only)
     wsClient = new WSClient();
+    if (new URLSearchParams(location.search).has('observe')) {
+      wsClient.role = 'observer';
+    }
 
     // Init components
     terminal = new TerminalPanel(
@@ -67,6 +162,16 @@
       wsClient,
     );
 
+    searchPanel = new SearchPanel(
+      document.getElementById('search-panel'),
+      wsClient,
+    );
+
+    quickOpen = new QuickOpen(
+      document.getElementById('quick-open'),
+      wsClient,
+    );
+
     editor = new EditorPanel(wsClient);
     sessionBar = new SessionBar(wsClient);
 
@@ -82,33 +187,50 @@
       if (sessions.length === 0 && !sessionBar.activeSessionId) {
         // Create a new session with terminal dimensions
         const dims = terminal.getDimensions();
-        wsClient.createSession(undefined, undefined, dims.cols, dims.rows);
+        wsClient.createSession(undefined, sessionBar.cwd, dims.cols, dims.rows);
+      }
+    });
+
+    // Tell the user when the attached session's process ends, or the session is closed
+    wsClient.addEventListener('session-exited', (e) => {
+      const { sessionId, exitCode, signal, destroyed } = e.detail;
+      if (sessionId !== sessionBar.activeSessionId) return;
+      if (destroyed) {
+        sessionBar.sessionDestroyed(sessionId);
+        terminal.writeNotice('[Session was closed]');
+        return;
       }
+      const reason = signal ? `signal ${signal}` : `code ${exitCode}`;
+      terminal.writeNotice(`[Process exited with ${reason} - use \u21bb on the tab to restart]`);
     });
 
     // When a session becomes active, refresh file tree
     sessionBar.onSessionChange = () => {
       fileTree.refresh();
+      searchPanel.clear();
     };
 
     // Handle auth errors
     wsClient.addEventListener('server-error', (e) => {
       const err = e.detail;
-      if (err.code === 'AUTH_FAILED' || err.code === 'AUTH_TIMEOUT') {
-        sessionStorage.removeItem('ccr-token');
-        authDialog.classList.remove('hidden');
-        authError.textContent = err.message;
-        authError.classList.remove('hidden');
+      if (['AUTH_FAILED', 'AUTH_TIMEOUT', 'AUTH_REVOKED', 'AUTH_LOCKED'].includes(err.code)) {
+        // Stop retrying with the rejected cookie until the user logs in again
+        wsClient.disconnect();
+        showAuthError(err.message);
       }
     });
 
     // Connect
-    wsClient.connect(token);
+    wsClient.connect();
 
     // Focus terminal
     setTimeout(() => terminal.focus(), 100);
   }
 
+  btnQuickOpen.addEventListener('click', () => {
+    if (quickOpen) quickOpen.open();
+  });
+
   // Explorer toggle
   toggleExplorer.addEventListener('click', () => {
     filePanel.classList.toggle('hidden');
@@ -7,8 +7,14 @@ class EditorPanel {
     this.currentPath = null;
     this.currentContent = null;
     this.currentLanguage = null;
+    // Version of currentContent; saves are rejected if the file has moved on since
+    this.currentEtag = null;
     this.editMode = false;
     this.modified = false;
+    // Content sent by save() and not yet acknowledged
+    this.pendingSave = null;
+    // Set while re-reading the open file after it changed on disk
+    this.reloading = false;
 
     this.titleEl = document.getElementById('editor-title');
     this.welcomeEl = document.getElementById('editor-welcome');
@@ -24,8 +30,60 @@ class EditorPanel {
 
   _setupListeners() {
     this.wsClient.addEventListener('file-content', (e) => {
-      const { path, content, language } = e.detail;
-      this.openFile(path, content, language);
+      const { path, content, language, etag } = e.detail;
+      if (this.reloading && path === this.currentPath) {
+        this.reloading = false;
+        // Our own save, or a touch that didn't change anything
+        if (content === this.currentContent) return;
+        // Don't throw away unsaved edits; saving them will be merged with the other change
+        if (this.modified || this.editMode) {
+          this._markStale('changed on disk');
+          return;
+        }
+      }
+      this.openFile(path, content, language, etag);
+    });
+
+    this.wsClient.addEventListener('file-changed', (e) => {
+      for (const change of e.detail.changes) {
+        const moved = change.kind === 'renamed' ? this._pathAfterMove(change.oldPath, change.path) : undefined;
+        if (moved) {
+          this._setPath(moved);
+        } else if (change.kind === 'deleted' && this._pathAfterMove(change.path, null) === null) {
+          this._markStale('deleted');
+        } else if (change.path !== this.currentPath) {
+          continue;
+        } else {
+          this.reloading = true;
+          this.wsClient.requestFileRead(this.currentPath);
+        }
+      }
+    });
+
+    this.wsClient.addEventListener('file-ack', (e) => {
+      const { op, path, newPath } = e.detail;
+      // Renaming or deleting a folder moves or removes the open file with it
+      if (op === 'rename' || op === 'delete') {
+        const moved = this._pathAfterMove(path, op === 'rename' ? newPath : null);
+        if (moved) this._setPath(moved);
+        else if (moved === null) this.close();
+        return;
+      }
+      if (op === 'write' && path === this.currentPath) this._onSaved(e.detail.etag);
+    });
+
+    // A failed save leaves the changes in the editor so they can be retried
+    this.wsClient.addEventListener('server-error', (e) => {
+      if (this.pendingSave === null) return;
+      const { code, details, op, path } = e.detail;
+      const forbidden = code === 'FORBIDDEN' && details && details.scope === 'files:write';
+      if (!forbidden && (op !== 'write' || path !== this.currentPath)) return;
+      if (code === 'FILE_CONFLICT' && details) {
+        this._onConflict(details);
+        return;
+      }
+      this.pendingSave = null;
+      this.saveBtn.disabled = !this.modified;
     });
 
     this.editBtn.addEventListener('click', () => {
@@ -56,16 +114,15 @@ class EditorPanel {
     });
   }
 
-  openFile(path, content, language) {
-    this.currentPath = path;
+  openFile(path, content, language, etag) {
+    this._setPath(path);
     this.currentContent = content;
     this.currentLanguage = language;
+    this.currentEtag = etag ?? null;
     this.modified = false;
+    this.pendingSave = null;
     this.editMode = false;
 
-    const fileName = path.split('/').pop();
-    this.titleEl.textContent = fileName;
-
     this.welcomeEl.classList.add('hidden');
     this.textareaEl.classList.add('hidden');
     this.saveBtn.disabled = true;
@@ -116,21 +173,54 @@ class EditorPanel {
   save() {
     if (!this.currentPath || !this.modified) return;
 
-    const content = this.textareaEl.value;
-    this.wsClient.sendFileWrite(this.currentPath, content);
-    this.currentContent = content;
-    this.modified = false;
+    this.pendingSave = this.textareaEl.value;
+    this.wsClient.sendFileWrite(this.currentPath, this.pendingSave, this.currentEtag ?? undefined, true);
     this.saveBtn.disabled = true;
   }
 
+  _onSaved(etag) {
+    if (this.pendingSave === null) return;
+    this.currentContent = this.pendingSave;
+    this.currentEtag = etag ?? null;
+    this.pendingSave = null;
+    // Saving settles any conflict with a change made on disk
+    this.titleEl.textContent = this.currentPath.split('/').pop();
+    // Keep the modified state if the user kept typing while the save was in flight
+    this.modified = this.textareaEl.value !== this.currentContent;
+    this.saveBtn.disabled = !this.modified;
+  }
+
+  /**
+   * The file changed on disk after it was opened, so the save was refused. The merge of
+   * both edits goes into the editor for review; saving it again overwrites the file.
+   */
+  _onConflict({ etag, content, merge }) {
+    this.pendingSave = null;
+    this.currentContent = content;
+    this.currentEtag = etag;
+    this.saveBtn.disabled = false;
+
+    if (!merge) {
+      this._markStale('changed on disk - save again to overwrite');
+      return;
+    }
+    this.textareaEl.value = merge.content;
+    this.modified = true;
+    if (!this.editMode) this.toggleEditMode();
+    this._markStale(merge.conflicts > 0
+      ? `${merge.conflicts} conflict${merge.conflicts === 1 ? '' : 's'} with changes on disk`
+      : 'merged with changes on disk');
+  }
+
   close() {
-    this.currentPath = null;
+    this._setPath(null);
+    this.pendingSave = null;
     this.currentContent = null;
     this.currentLanguage = null;
+    this.currentEtag = null;
     this.editMode = false;
     this.modified = false;
 
-    this.titleEl.textContent = 'No file open';
     this.contentEl.classList.add('hidden');
     this.textareaEl.classList.add('hidden');
     this.previewEl.classList.add('hidden');
@@ -138,6 +228,40 @@ class EditorPanel {
     this.saveBtn.disabled = true;
   }
 
+  /**
+   * Switches the open path, moving the watch on its folder along with it so external
+   * changes to the file are noticed.
+   */
+  _setPath(path) {
+    const parentOf = (p) => (p.includes('/') ? p.slice(0, p.lastIndexOf('/')) : '.');
+    if (this.currentPath && (!path || parentOf(path) !== parentOf(this.currentPath))) {
+      this.wsClient.unwatchDirectory(parentOf(this.currentPath));
+    }
+    if (path && (!this.currentPath || parentOf(path) !== parentOf(this.currentPath))) {
+      this.wsClient.watchDirectory(parentOf(path));
+    }
+
+    this.currentPath = path;
+    this.reloading = false;
+    this.titleEl.textContent = path ? path.split('/').pop() : 'No file open';
+  }
+
+  /**
+   * Where the open file ends up when `from` is renamed to `to`, or deleted for a `to` of
+   * null: the new path, null if it is gone, or undefined if it isn't affected. `from` may
+   * be the file itself or a folder above it.
+   */
+  _pathAfterMove(from, to) {
+    if (!this.currentPath) return undefined;
+    if (this.currentPath === from) return to;
+    if (!this.currentPath.startsWith(`${from}/`)) return undefined;
+    return to === null ? null : to + this.currentPath.slice(from.length);
+  }
+
+  _markStale(reason) {
+    this.titleEl.textContent = `${this.currentPath.split('/').pop()} (${reason})`;
+  }
+
   _renderMarkdown(md) {
     // Simple markdown rendering (no external dependency)
     return md
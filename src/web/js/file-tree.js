@@ -7,16 +7,34 @@ class FileTree {
     this.wsClient = wsClient;
     this.currentPath = '.';
     this.openFolders = new Set(['.']);
+    this.watched = new Set();
     this.activeFile = null;
     this.onFileSelect = null; // callback
+    // Context menu actions waiting for FILE_ACK, by operation and path, so an error
+    // answering one of them can be shown with its name
+    this.pendingActions = new Map();
+    // Folder the file picker uploads into
+    this.uploadFolder = '.';
+    // Entries received so far of directories listed in several pages
+    this.partialListings = new Map();
 
+    this.menu = this._createMenu();
+    this.uploadInput = this._createUploadInput();
     this._setupListeners();
   }
 
   _setupListeners() {
     this.wsClient.addEventListener('file-list', (e) => {
-      const { path, files } = e.detail;
-      this._renderDirectory(path, files);
+      const { path, files, offset = 0, total = files.length } = e.detail;
+      // Large directories arrive in pages; render once the last one is in
+      const received = offset > 0 ? (this.partialListings.get(path) || []).concat(files) : files;
+      if (files.length > 0 && received.length < total) {
+        this.partialListings.set(path, received);
+        this.wsClient.requestFileList(path, { offset: received.length });
+        return;
+      }
+      this.partialListings.delete(path);
+      this._renderDirectory(path, received);
     });
 
     this.container.addEventListener('click', (e) => {
@@ -32,9 +50,268 @@ class FileTree {
         this._selectFile(path);
       }
     });
+
+    this.container.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      const item = e.target.closest('.tree-item');
+      this._showMenu(e.clientX, e.clientY, item ? { path: item.dataset.path, type: item.dataset.type } : null);
+    });
+
+    document.addEventListener('click', () => this._hideMenu());
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this._hideMenu();
+    });
+
+    this.wsClient.addEventListener('file-ack', (e) => {
+      const { op, path, newPath } = e.detail;
+      this.pendingActions.delete(this._actionKey(op, path));
+      // Saving a file that is already listed doesn't change the tree
+      if (op === 'write' && this._isListed(path)) return;
+
+      if (op === 'delete' || op === 'rename') {
+        this._forgetFolder(path, op === 'rename' ? newPath : null);
+        if (this.activeFile === path) {
+          this.activeFile = op === 'rename' ? newPath : null;
+        } else if (this.activeFile && this.activeFile.startsWith(`${path}/`)) {
+          // The open file was inside a renamed or deleted folder
+          this.activeFile = op === 'rename' ? newPath + this.activeFile.slice(path.length) : null;
+        }
+      }
+      this.refresh();
+    });
+
+    this.wsClient.addEventListener('file-changed', (e) => {
+      // Re-list each open folder whose contents changed
+      const folders = new Set();
+      for (const change of e.detail.changes) {
+        if (change.kind === 'deleted' && this.openFolders.has(change.path)) {
+          this._forgetFolder(change.path, null);
+        }
+        folders.add(this._parentOf(change.path));
+        if (change.oldPath) folders.add(this._parentOf(change.oldPath));
+      }
+      for (const folder of folders) {
+        if (this.openFolders.has(folder)) this.wsClient.requestFileList(folder);
+      }
+    });
+
+    this.wsClient.addEventListener('transfer-complete', (e) => {
+      const { direction, path, blob } = e.detail;
+      if (direction === 'download') {
+        this._saveBlob(blob, path.split('/').pop());
+      } else if (!this._isListed(path)) {
+        this.refresh();
+      }
+    });
+
+    this.wsClient.addEventListener('transfer-error', (e) => {
+      const { direction, path, message } = e.detail;
+      alert(`${direction === 'upload' ? 'Upload' : 'Download'} of ${path} failed: ${message}`);
+    });
+
+    this.wsClient.addEventListener('server-error', (e) => {
+      const { code, message, op, path, details } = e.detail;
+      if (code === 'FORBIDDEN' && details && details.scope === 'files:write' && this.pendingActions.size > 0) {
+        // Every menu action that can be waiting needs files:write
+        alert(`${[...this.pendingActions.values()].join(', ')} failed: ${message}`);
+        this.pendingActions.clear();
+        return;
+      }
+      const key = this._actionKey(op, path);
+      const action = this.pendingActions.get(key);
+      if (!action) return;
+      alert(`${action} of ${path} failed: ${message}`);
+      this.pendingActions.delete(key);
+    });
+  }
+
+  _actionKey(op, path) {
+    return `${op}\0${path}`;
+  }
+
+  _createMenu() {
+    const menu = document.createElement('div');
+    menu.className = 'context-menu hidden';
+    menu.addEventListener('click', (e) => {
+      const button = e.target.closest('button');
+      if (!button) return;
+      e.stopPropagation();
+      this._hideMenu();
+      this._runAction(button.dataset.action, this.menuTarget);
+    });
+    document.body.appendChild(menu);
+    return menu;
+  }
+
+  _createUploadInput() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.hidden = true;
+    input.addEventListener('change', () => {
+      for (const file of input.files) {
+        const path = this.uploadFolder === '.' ? file.name : `${this.uploadFolder}/${file.name}`;
+        const overwrite = this._isListed(path);
+        if (overwrite && !confirm(`${file.name} already exists. Replace it?`)) continue;
+        this.wsClient.uploadFile(path, file, overwrite);
+      }
+      input.value = '';
+    });
+    document.body.appendChild(input);
+    return input;
+  }
+
+  _saveBlob(blob, name) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * target is the right-clicked entry, or null for the empty area (the root folder).
+   */
+  _showMenu(x, y, target) {
+    this.menuTarget = target;
+    const actions = [
+      ['new-file', 'New File...'],
+      ['new-folder', 'New Folder...'],
+      ['upload', 'Upload Files...'],
+    ];
+    if (target && target.type !== 'directory') {
+      actions.push(['download', 'Download']);
+    }
+    if (target) {
+      actions.push(['rename', 'Rename...'], ['duplicate', 'Duplicate'], ['delete', 'Delete']);
+    }
+    this.menu.innerHTML = actions
+      .map(([action, label]) => `<button data-action="${action}">${label}</button>`)
+      .join('');
+
+    this.menu.style.left = `${Math.min(x, window.innerWidth - 180)}px`;
+    this.menu.style.top = `${Math.min(y, window.innerHeight - actions.length * 30 - 8)}px`;
+    this.menu.classList.remove('hidden');
+  }
+
+  _hideMenu() {
+    this.menu.classList.add('hidden');
+  }
+
+  _runAction(action, target) {
+    // New entries go inside a right-clicked folder, or next to a right-clicked file
+    const folder = !target ? '.' : target.type === 'directory' ? target.path : this._parentOf(target.path);
+    const join = (dir, name) => (dir === '.' ? name : `${dir}/${name}`);
+
+    switch (action) {
+      case 'new-file': {
+        const name = prompt('New file name');
+        if (!name) return;
+        if (this._isListed(join(folder, name)) && !confirm(`${name} already exists. Replace it with an empty file?`)) return;
+        this.pendingActions.set(this._actionKey('write', join(folder, name)), 'Create file');
+        this.wsClient.sendFileWrite(join(folder, name), '');
+        break;
+      }
+
+      case 'new-folder': {
+        const name = prompt('New folder name');
+        if (!name) return;
+        this.pendingActions.set(this._actionKey('mkdir', join(folder, name)), 'Create folder');
+        this.wsClient.makeDirectory(join(folder, name), true);
+        break;
+      }
+
+      case 'upload':
+        this.uploadFolder = folder;
+        this.uploadInput.click();
+        break;
+
+      case 'download':
+        this.wsClient.downloadFile(target.path);
+        break;
+
+      case 'rename': {
+        const oldName = target.path.split('/').pop();
+        const name = prompt('Rename to', oldName);
+        if (!name || name === oldName) return;
+        this.pendingActions.set(this._actionKey('rename', target.path), 'Rename');
+        this.wsClient.renameFile(target.path, join(this._parentOf(target.path), name));
+        break;
+      }
+
+      case 'duplicate': {
+        this.pendingActions.set(this._actionKey('copy', target.path), 'Duplicate');
+        this.wsClient.copyFile(target.path, this._copyName(target.path));
+        break;
+      }
+
+      case 'delete': {
+        const what = target.type === 'directory' ? 'folder and everything in it' : 'file';
+        if (!confirm(`Delete the ${what} ${target.path}?`)) return;
+        this.pendingActions.set(this._actionKey('delete', target.path), 'Delete');
+        this.wsClient.deleteFile(target.path, target.type === 'directory');
+        break;
+      }
+    }
+  }
+
+  /**
+   * Open folders are watched so changes made by Claude or the shell show up without a refresh.
+   */
+  _watch(path) {
+    if (this.watched.has(path)) return;
+    this.watched.add(path);
+    this.wsClient.watchDirectory(path);
+  }
+
+  _unwatch(path) {
+    if (!this.watched.delete(path)) return;
+    this.wsClient.unwatchDirectory(path);
+  }
+
+  _parentOf(path) {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '.' : path.slice(0, slash);
+  }
+
+  /**
+   * 'src/app.js' -> 'src/app copy.js', 'src/lib' -> 'src/lib copy'
+   */
+  _copyName(path) {
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    if (dot > slash + 1) {
+      return `${path.slice(0, dot)} copy${path.slice(dot)}`;
+    }
+    return `${path} copy`;
+  }
+
+  _isListed(path) {
+    return this.container.querySelector(`[data-path="${CSS.escape(path)}"]`) !== null;
+  }
+
+  /**
+   * Drops a deleted or renamed folder (and its subfolders) from the open set, reopening
+   * it under its new path after a rename.
+   */
+  _forgetFolder(path, newPath) {
+    for (const folder of [...this.openFolders]) {
+      if (folder === path || folder.startsWith(`${path}/`)) {
+        this.openFolders.delete(folder);
+        this._unwatch(folder);
+        if (newPath) {
+          this.openFolders.add(newPath + folder.slice(path.length));
+          this._watch(newPath + folder.slice(path.length));
+        }
+      }
+    }
   }
 
   refresh() {
+    for (const folder of this.openFolders) {
+      this._watch(folder);
+    }
     // Re-request all open folders
     this.container.innerHTML = '';
     this.wsClient.requestFileList('.');
@@ -48,6 +325,7 @@ class FileTree {
   _toggleFolder(path) {
     if (this.openFolders.has(path)) {
       this.openFolders.delete(path);
+      this._unwatch(path);
       // Remove children from DOM
       const children = this.container.querySelectorAll(`[data-parent="${path}"]`);
       children.forEach(el => el.remove());
@@ -59,6 +337,7 @@ class FileTree {
       }
     } else {
       this.openFolders.add(path);
+      this._watch(path);
       this.wsClient.requestFileList(path);
       // Update icon
       const item = this.container.querySelector(`[data-path="${CSS.escape(path)}"]`);
@@ -0,0 +1,170 @@
+/**
+ * "Go to file" dialog: fuzzy-matches paths against the session's file index on the
+ * server as you type. Opens with Ctrl+P (outside the terminal, where it is shell history).
+ */
+
+// Results asked for per query
+const QUICK_OPEN_LIMIT = 50;
+
+class QuickOpen {
+  constructor(dialogEl, wsClient) {
+    this.dialog = dialogEl;
+    this.wsClient = wsClient;
+    this.input = dialogEl.querySelector('#quick-open-input');
+    this.resultsEl = dialogEl.querySelector('#quick-open-results');
+    this.statusEl = dialogEl.querySelector('#quick-open-status');
+    this.onFileSelect = null; // callback(path)
+    this.results = [];
+    this.selected = 0;
+    // Query sent last; replies to older ones are ignored
+    this.query = null;
+
+    this._setupListeners();
+  }
+
+  _setupListeners() {
+    document.addEventListener('keydown', (e) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'p' && !e.target.closest('#terminal-container')) {
+        e.preventDefault();
+        this.open();
+      }
+    });
+
+    this.input.addEventListener('input', () => this._find());
+    this.input.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (this.results.length === 0) return;
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        this._select((this.selected + step + this.results.length) % this.results.length);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        if (this.results[this.selected]) this._choose(this.results[this.selected].path);
+      } else if (e.key === 'Escape') {
+        this.close();
+      }
+    });
+
+    this.resultsEl.addEventListener('click', (e) => {
+      const item = e.target.closest('.quick-open-item');
+      if (item) this._choose(item.dataset.path);
+    });
+
+    // Clicking outside the box closes it
+    this.dialog.addEventListener('mousedown', (e) => {
+      if (e.target === this.dialog) this.close();
+    });
+
+    this.wsClient.addEventListener('file-find', (e) => {
+      const found = e.detail;
+      if (found.query !== this.query) return;
+      this.results = found.results;
+      this._render();
+      this.statusEl.textContent = found.total > found.results.length
+        ? `${found.results.length} of ${found.total} matches`
+        : '';
+      if (found.truncated) this.statusEl.textContent += ' (index is partial: the workspace is too large)';
+    });
+
+    this.wsClient.addEventListener('server-error', (e) => {
+      if (e.detail.op !== 'find' || this.query === null || this.dialog.classList.contains('hidden')) return;
+      this.statusEl.textContent = e.detail.message;
+    });
+  }
+
+  open() {
+    this.dialog.classList.remove('hidden');
+    this.input.value = '';
+    this.input.focus();
+    this._find();
+  }
+
+  close() {
+    this.dialog.classList.add('hidden');
+    this.query = null;
+    this.results = [];
+    this.resultsEl.innerHTML = '';
+    this.statusEl.textContent = '';
+  }
+
+  _find() {
+    this.query = this.input.value;
+    this.wsClient.findFiles(this.query, QUICK_OPEN_LIMIT);
+  }
+
+  _choose(path) {
+    this.close();
+    this.wsClient.requestFileRead(path);
+    if (this.onFileSelect) {
+      this.onFileSelect(path);
+    }
+  }
+
+  _select(index) {
+    const items = this.resultsEl.querySelectorAll('.quick-open-item');
+    items[this.selected]?.classList.remove('active');
+    this.selected = index;
+    items[index]?.classList.add('active');
+    items[index]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  _render() {
+    this.resultsEl.innerHTML = '';
+    this.selected = 0;
+    if (this.results.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'quick-open-empty';
+      empty.textContent = 'No matching files';
+      this.resultsEl.appendChild(empty);
+      return;
+    }
+
+    for (const [index, result] of this.results.entries()) {
+      const item = document.createElement('div');
+      item.className = index === 0 ? 'quick-open-item active' : 'quick-open-item';
+      item.dataset.path = result.path;
+
+      // File name first, then its directory, with the matched characters highlighted
+      const slash = result.path.lastIndexOf('/');
+      const name = document.createElement('span');
+      name.className = 'quick-open-name';
+      this._appendHighlighted(name, result.path, slash + 1, result.path.length, result.positions);
+      item.appendChild(name);
+      if (slash > 0) {
+        const dir = document.createElement('span');
+        dir.className = 'quick-open-dir';
+        this._appendHighlighted(dir, result.path, 0, slash, result.positions);
+        item.appendChild(dir);
+      }
+      this.resultsEl.appendChild(item);
+    }
+  }
+
+  _appendHighlighted(el, text, start, end, positions) {
+    const matched = new Set(positions);
+    let run = '';
+    let runMatched = false;
+    const flush = () => {
+      if (!run) return;
+      if (runMatched) {
+        const mark = document.createElement('span');
+        mark.className = 'quick-open-match';
+        mark.textContent = run;
+        el.appendChild(mark);
+      } else {
+        el.appendChild(document.createTextNode(run));
+      }
+      run = '';
+    };
+    for (let i = start; i < end; i++) {
+      if (matched.has(i) !== runMatched) {
+        flush();
+        runMatched = !runMatched;
+      }
+      run += text[i];
+    }
+    flush();
+  }
+}
+
+window.QuickOpen = QuickOpen;
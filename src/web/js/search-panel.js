@@ -0,0 +1,162 @@
+/**
+ * Workspace search box above the file tree. Results stream in while the server
+ * searches and are grouped by file; clicking a match opens the file.
+ */
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+class SearchPanel {
+  constructor(containerEl, wsClient) {
+    this.container = containerEl;
+    this.wsClient = wsClient;
+    this.input = containerEl.querySelector('#search-input');
+    this.includeInput = containerEl.querySelector('#search-include');
+    this.regexToggle = containerEl.querySelector('#search-regex');
+    this.caseToggle = containerEl.querySelector('#search-case');
+    this.statusEl = containerEl.querySelector('#search-status');
+    this.resultsEl = containerEl.querySelector('#search-results');
+    this.onResultSelect = null; // callback(path, line)
+    // Id of the search whose results are shown, while the server is still sending them
+    this.searchId = null;
+    this.matchCount = 0;
+    // Result group element per file path
+    this.groups = new Map();
+    this.debounceTimer = null;
+
+    this._setupListeners();
+  }
+
+  _setupListeners() {
+    this.input.addEventListener('input', () => this._scheduleSearch());
+    this.includeInput.addEventListener('input', () => this._scheduleSearch());
+    this.input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this._search();
+      if (e.key === 'Escape') {
+        this.input.value = '';
+        this.clear();
+      }
+    });
+
+    for (const toggle of [this.regexToggle, this.caseToggle]) {
+      toggle.addEventListener('click', () => {
+        toggle.classList.toggle('active');
+        this._search();
+      });
+    }
+
+    this.resultsEl.addEventListener('click', (e) => {
+      const item = e.target.closest('.search-match');
+      if (!item) return;
+      this.resultsEl.querySelectorAll('.search-match.active').forEach(el => el.classList.remove('active'));
+      item.classList.add('active');
+
+      const { path, line } = item.dataset;
+      this.wsClient.requestFileRead(path);
+      if (this.onResultSelect) {
+        this.onResultSelect(path, Number(line));
+      }
+    });
+
+    this.wsClient.addEventListener('search-results', (e) => {
+      const results = e.detail;
+      if (results.searchId !== this.searchId) return;
+      for (const match of results.matches) {
+        this._renderMatch(match);
+      }
+      this.matchCount += results.matches.length;
+      if (results.done) {
+        this.searchId = null;
+        this._showStatus(results);
+      }
+    });
+
+    this.wsClient.addEventListener('server-error', (e) => {
+      if (!this.searchId || !e.detail.code.startsWith('SEARCH_')) return;
+      this.searchId = null;
+      this.statusEl.textContent = e.detail.message;
+      this.statusEl.classList.add('search-error');
+    });
+  }
+
+  /**
+   * Stops the running search and empties the results, e.g. when the session changes.
+   */
+  clear() {
+    clearTimeout(this.debounceTimer);
+    if (this.searchId) this.wsClient.cancelSearch(this.searchId);
+    this.searchId = null;
+    this.matchCount = 0;
+    this.groups.clear();
+    this.resultsEl.innerHTML = '';
+    this.statusEl.textContent = '';
+    this.statusEl.classList.remove('search-error');
+  }
+
+  _scheduleSearch() {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this._search(), SEARCH_DEBOUNCE_MS);
+  }
+
+  _search() {
+    const query = this.input.value;
+    this.clear();
+    if (!query) return;
+
+    const include = this.includeInput.value
+      .split(',')
+      .map((glob) => glob.trim())
+      .filter(Boolean);
+    this.searchId = this.wsClient.search(query, {
+      regex: this.regexToggle.classList.contains('active'),
+      caseSensitive: this.caseToggle.classList.contains('active'),
+      include: include.length > 0 ? include : undefined,
+    });
+    this.statusEl.textContent = 'Searching...';
+  }
+
+  _showStatus(results) {
+    const files = this.groups.size;
+    if (this.matchCount === 0) {
+      this.statusEl.textContent = `No results in ${results.filesSearched ?? 0} files`;
+      return;
+    }
+    const matches = `${this.matchCount} result${this.matchCount === 1 ? '' : 's'}`;
+    this.statusEl.textContent = `${matches} in ${files} file${files === 1 ? '' : 's'}` +
+      (results.truncated ? ' (limit reached, refine the search)' : '');
+  }
+
+  _renderMatch(match) {
+    let group = this.groups.get(match.path);
+    if (!group) {
+      group = document.createElement('div');
+      group.className = 'search-group';
+      const header = document.createElement('div');
+      header.className = 'search-file';
+      header.textContent = match.path;
+      header.title = match.path;
+      group.appendChild(header);
+      this.resultsEl.appendChild(group);
+      this.groups.set(match.path, group);
+    }
+
+    const item = document.createElement('div');
+    item.className = 'search-match';
+    item.dataset.path = match.path;
+    item.dataset.line = String(match.line);
+    item.title = `${match.path}:${match.line}:${match.column}`;
+
+    const line = document.createElement('span');
+    line.className = 'search-line';
+    line.textContent = String(match.line);
+    const preview = document.createElement('span');
+    preview.className = 'search-preview';
+    preview.textContent = match.preview.trim();
+
+    item.appendChild(line);
+    item.appendChild(preview);
+    group.appendChild(item);
+  }
+}
+
+window.SearchPanel = SearchPanel;
@@ -10,6 +10,9 @@ class SessionBar {
 
     this.tabsEl = document.getElementById('session-tabs');
     this.newBtn = document.getElementById('btn-new-session');
+    this.profileSelect = document.getElementById('profile-select');
+    this.cwdInput = document.getElementById('cwd-input');
+    this.cwdHint = this.cwdInput.title;
     this.statusDot = document.getElementById('status-dot');
     this.statusText = document.getElementById('status-text');
 
@@ -23,7 +26,7 @@ class SessionBar {
 
       // Auto-select first session if none active
       if (!this.activeSessionId && this.sessions.length > 0) {
-        const target = this.sessions.find(s => !s.connected) || this.sessions[0];
+        const target = this.sessions.find(s => s.clients.length === 0) || this.sessions[0];
         this.selectSession(target.id);
       }
     });
@@ -36,6 +39,7 @@ class SessionBar {
     this.wsClient.addEventListener('authenticated', () => {
       this.statusDot.className = 'dot online';
       this.statusText.textContent = 'Connected';
+      this._renderProfiles();
     });
 
     this.wsClient.addEventListener('disconnected', () => {
@@ -52,6 +56,19 @@ class SessionBar {
       this.createSession();
     });
 
+    this.cwdInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.createSession();
+    });
+    this.cwdInput.addEventListener('input', () => this._clearCwdError());
+
+    // A session that couldn't be started in the chosen folder
+    this.wsClient.addEventListener('server-error', (e) => {
+      const { code, message } = e.detail;
+      if (code !== 'CWD_NOT_ALLOWED' && code !== 'SESSION_CREATE_FAILED') return;
+      this.cwdInput.classList.add('invalid');
+      this.cwdInput.title = message;
+    });
+
     this.tabsEl.addEventListener('click', (e) => {
       const tab = e.target.closest('.session-tab');
       if (!tab) return;
@@ -63,16 +80,30 @@ class SessionBar {
         return;
       }
 
+      if (e.target.classList.contains('restart-btn')) {
+        this.wsClient.restartSession(tab.dataset.sessionId);
+        return;
+      }
+
       const id = tab.dataset.sessionId;
       this.selectSession(id);
     });
   }
 
+  /**
+   * Folder entered for new sessions, or undefined to let the server pick one.
+   */
+  get cwd() {
+    return this.cwdInput.value.trim() || undefined;
+  }
+
   createSession() {
     // Use terminal dimensions if available
     const cols = 80;
     const rows = 24;
-    this.wsClient.createSession(undefined, undefined, cols, rows);
+    const profile = this.profileSelect.value || undefined;
+    this._clearCwdError();
+    this.wsClient.createSession(undefined, this.cwd, cols, rows, profile);
   }
 
   selectSession(sessionId) {
@@ -94,20 +125,42 @@ class SessionBar {
     }
   }
 
+  /**
+   * Forgets the active session once the server has removed it, so the next session list
+   * selects another one.
+   */
+  sessionDestroyed(sessionId) {
+    if (this.activeSessionId === sessionId) {
+      this.activeSessionId = null;
+    }
+  }
+
   _render() {
     this.tabsEl.innerHTML = '';
 
     this.sessions.forEach((session) => {
       const tab = document.createElement('div');
-      tab.className = 'session-tab' + (session.id === this.activeSessionId ? ' active' : '');
+      tab.className = 'session-tab'
+        + (session.id === this.activeSessionId ? ' active' : '')
+        + (session.exited ? ' exited' : '');
       tab.dataset.sessionId = session.id;
 
       const name = session.name.length > 16
         ? session.name.slice(0, 16) + '...'
         : session.name;
 
+      const clientCount = session.clients.length > 1
+        ? `<span class="client-count" title="${session.clients.length} clients attached">${session.clients.length}</span>`
+        : '';
+
+      const restartBtn = session.exited
+        ? '<button class="restart-btn" title="Restart session">&#x21bb;</button>'
+        : '';
+
       tab.innerHTML = `
         <span>${this._escapeHtml(name)}</span>
+        ${clientCount}
+        ${restartBtn}
         <button class="close-btn" title="Close session">&times;</button>
       `;
 
@@ -115,6 +168,28 @@ class SessionBar {
     });
   }
 
+  _renderProfiles() {
+    const profiles = this.wsClient.profiles;
+    const selected = this.profileSelect.value;
+    this.profileSelect.innerHTML = '';
+
+    profiles.forEach((name) => {
+      const option = document.createElement('option');
+      option.value = name;
+      option.textContent = name;
+      option.selected = name === selected;
+      this.profileSelect.appendChild(option);
+    });
+
+    // Only worth showing when there is a choice to make
+    this.profileSelect.classList.toggle('hidden', profiles.length < 2);
+  }
+
+  _clearCwdError() {
+    this.cwdInput.classList.remove('invalid');
+    this.cwdInput.title = this.cwdHint;
+  }
+
   _escapeHtml(text) {
     const div = document.createElement('div');
     div.textContent = text;
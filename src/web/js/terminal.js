@@ -124,6 +124,13 @@ class TerminalPanel {
     this.term.clear();
   }
 
+  /**
+   * Write a dimmed status line that is not part of the session output
+   */
+  writeNotice(text) {
+    this.term.write(`\r\n\x1b[2m${text}\x1b[0m\r\n`);
+  }
+
   /**
    * Send a special key from the mobile key bar
    */
@@ -19,28 +19,72 @@ const MessageType = {
   FILE_READ: 0x0b,
   FILE_CONTENT: 0x0c,
   FILE_WRITE: 0x0d,
+  SESSION_EXITED: 0x0e,
+  OUTPUT_GAP: 0x0f,
+  FILE_DELETE: 0x10,
+  FILE_RENAME: 0x11,
+  FILE_MKDIR: 0x12,
+  FILE_COPY: 0x13,
+  FILE_STAT: 0x14,
+  FILE_ACK: 0x15,
+  FILE_WATCH: 0x16,
+  FILE_UNWATCH: 0x17,
+  FILE_CHANGED: 0x18,
+  TRANSFER_START: 0x19,
+  TRANSFER_READY: 0x1a,
+  TRANSFER_CHUNK: 0x1b,
+  TRANSFER_COMPLETE: 0x1c,
+  TRANSFER_CANCEL: 0x1d,
+  SEARCH: 0x1e,
+  SEARCH_RESULTS: 0x1f,
+  SEARCH_CANCEL: 0x20,
+  FILE_FIND: 0x21,
 };
 
+const MAX_RECONNECT_ATTEMPTS = 10;
+// Uploads pause while more than this is queued on the socket
+const TRANSFER_HIGH_WATER_MARK = 1024 * 1024;
+// crypto.subtle can only hash a whole buffer, so larger files skip checksum verification
+const TRANSFER_MAX_VERIFY_BYTES = 256 * 1024 * 1024;
+
 class WSClient extends EventTarget {
   constructor() {
     super();
     this.ws = null;
     this.authenticated = false;
     this.reconnectAttempts = 0;
-    this.maxReconnectAttempts = 10;
+    this.maxReconnectAttempts = MAX_RECONNECT_ATTEMPTS;
     this.reconnectBaseDelay = 1000;
     this.reconnectMaxDelay = 30000;
     this.reconnectTimer = null;
     this.pingInterval = null;
-    this.token = null;
+    // 'controller' or 'observer' (read-only)
+    this.role = 'controller';
+    // Launch profile names advertised by the server
+    this.profiles = [];
+    // Scopes granted to the token
+    this.scopes = [];
+    // Attached session and the output offset just past the last byte received,
+    // used to resume the stream after a reconnect
+    this.sessionId = null;
+    this.lastOffset = null;
+    // Watched directory -> number of components watching it. The server drops watches
+    // when the socket attaches elsewhere, so they are sent again after every attach.
+    this.watches = new Map();
+    // Transfers by transferId, and ones still waiting for TRANSFER_READY. Both survive
+    // a reconnect; running transfers are resumed once the socket authenticates again.
+    this.transfers = new Map();
+    this.pendingTransfers = [];
+    this.nextSearchId = 1;
   }
 
-  connect(token) {
-    this.token = token;
+  /**
+   * Opens the WebSocket. The server authenticates the upgrade with the login
+   * cookie set by /api/login.
+   */
+  connect() {
     const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const url = `${protocol}//${location.host}?token=${encodeURIComponent(token)}`;
-
-    this.ws = new WebSocket(url);
+    this.ws = new WebSocket(`${protocol}//${location.host}`);
     this.ws.binaryType = 'arraybuffer';
 
     this.ws.onopen = () => {
@@ -65,6 +109,15 @@ class WSClient extends EventTarget {
     };
   }
 
+  /**
+   * Connects again after disconnect(), e.g. once the user has logged in again.
+   */
+  reconnect() {
+    this.maxReconnectAttempts = MAX_RECONNECT_ATTEMPTS;
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
   disconnect() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -81,6 +134,7 @@ class WSClient extends EventTarget {
   // --- Send methods ---
 
   sendTerminalData(data) {
+    if (this.role === 'observer') return;
     if (typeof data === 'string') {
       data = new TextEncoder().encode(data);
     }
@@ -88,49 +142,299 @@ class WSClient extends EventTarget {
   }
 
   sendResize(cols, rows) {
+    if (this.role === 'observer') return;
     this._sendJson(MessageType.RESIZE, { cols, rows });
   }
 
-  createSession(name, cwd, cols, rows) {
+  createSession(name, cwd, cols, rows, profile) {
     this._sendJson(MessageType.SESSION_CONTROL, {
-      action: 'create', name, cwd, cols, rows,
+      action: 'create', name, cwd, cols, rows, role: this.role, profile,
     });
   }
 
-  attachSession(sessionId) {
+  attachSession(sessionId, fromOffset) {
+    this.sessionId = sessionId;
+    this.lastOffset = fromOffset ?? null;
     this._sendJson(MessageType.SESSION_CONTROL, {
-      action: 'attach', sessionId,
+      action: 'attach', sessionId, role: this.role, fromOffset,
     });
+    for (const path of this.watches.keys()) {
+      this._sendJson(MessageType.FILE_WATCH, { path });
+    }
   }
 
   detachSession() {
+    this.sessionId = null;
+    this.lastOffset = null;
     this._sendJson(MessageType.SESSION_CONTROL, { action: 'detach' });
   }
 
   destroySession(sessionId) {
+    if (sessionId === this.sessionId) {
+      this.sessionId = null;
+      this.lastOffset = null;
+    }
     this._sendJson(MessageType.SESSION_CONTROL, {
       action: 'destroy', sessionId,
     });
   }
 
+  restartSession(sessionId) {
+    this._sendJson(MessageType.SESSION_CONTROL, {
+      action: 'restart', sessionId,
+    });
+  }
+
   listSessions() {
     this._sendJson(MessageType.SESSION_CONTROL, { action: 'list' });
   }
 
-  requestFileList(path) {
-    this._sendJson(MessageType.FILE_LIST, { path: path || '.' });
+  /**
+   * options are depth, for a recursive listing, and offset and limit for paging.
+   */
+  requestFileList(path, options = {}) {
+    this._sendJson(MessageType.FILE_LIST, { path: path || '.', ...options });
   }
 
   requestFileRead(path) {
     this._sendJson(MessageType.FILE_READ, { path });
   }
 
-  sendFileWrite(path, content) {
-    this._sendJson(MessageType.FILE_WRITE, { path, content });
+  /**
+   * With ifMatch (the etag the edit started from) the write fails with FILE_CONFLICT if
+   * the file changed in the meantime; merge asks for a three-way merge in that error.
+   */
+  sendFileWrite(path, content, ifMatch, merge = false) {
+    this._sendJson(MessageType.FILE_WRITE, { path, content, ifMatch, merge });
+  }
+
+  deleteFile(path, recursive = false) {
+    this._sendJson(MessageType.FILE_DELETE, { path, recursive });
+  }
+
+  renameFile(path, newPath, overwrite = false) {
+    this._sendJson(MessageType.FILE_RENAME, { path, newPath, overwrite });
+  }
+
+  copyFile(path, newPath, overwrite = false) {
+    this._sendJson(MessageType.FILE_COPY, { path, newPath, overwrite });
+  }
+
+  makeDirectory(path, recursive = false) {
+    this._sendJson(MessageType.FILE_MKDIR, { path, recursive });
+  }
+
+  requestFileStat(path) {
+    this._sendJson(MessageType.FILE_STAT, { path });
+  }
+
+  /**
+   * Downloads a file of any size in chunks. Emits 'transfer-ready' when it starts and
+   * 'transfer-complete' with the file as a Blob, or 'transfer-error'.
+   */
+  downloadFile(path) {
+    this.pendingTransfers.push({ direction: 'download', path, chunks: [], received: 0 });
+    this._sendJson(MessageType.TRANSFER_START, { direction: 'download', path });
+  }
+
+  /**
+   * Uploads a File or Blob to path in chunks, with the same events as downloadFile().
+   */
+  uploadFile(path, file, overwrite = false) {
+    this.pendingTransfers.push({ direction: 'upload', path, file, offset: 0, run: 0 });
+    this._sendJson(MessageType.TRANSFER_START, { direction: 'upload', path, size: file.size, overwrite });
+  }
+
+  cancelTransfer(transferId) {
+    if (!this.transfers.delete(transferId)) return;
+    this._sendJson(MessageType.TRANSFER_CANCEL, { transferId });
+  }
+
+  /**
+   * Searches file contents in the attached session. options are regex, caseSensitive,
+   * path, include, exclude and maxResults. Matches arrive in 'search-results' events
+   * carrying the returned searchId; the last one has done set.
+   */
+  search(query, options = {}) {
+    const searchId = String(this.nextSearchId++);
+    this._sendJson(MessageType.SEARCH, { searchId, query, ...options });
+    return searchId;
+  }
+
+  cancelSearch(searchId) {
+    this._sendJson(MessageType.SEARCH_CANCEL, { searchId });
+  }
+
+  /**
+   * Fuzzy-matches file paths in the attached session. The ranked matches arrive in a
+   * 'file-find' event echoing the query.
+   */
+  findFiles(query, limit) {
+    this._sendJson(MessageType.FILE_FIND, { query, limit });
+  }
+
+  /**
+   * Asks for FILE_CHANGED notifications for a directory's direct children.
+   * Calls are counted, so each watchDirectory needs a matching unwatchDirectory.
+   */
+  watchDirectory(path) {
+    const count = this.watches.get(path) || 0;
+    this.watches.set(path, count + 1);
+    if (count === 0 && this.sessionId) {
+      this._sendJson(MessageType.FILE_WATCH, { path });
+    }
+  }
+
+  unwatchDirectory(path) {
+    const count = this.watches.get(path) || 0;
+    if (count > 1) {
+      this.watches.set(path, count - 1);
+    } else if (count === 1) {
+      this.watches.delete(path);
+      this._sendJson(MessageType.FILE_UNWATCH, { path });
+    }
   }
 
   // --- Internal ---
 
+  /**
+   * Asks the server to continue transfers, e.g. on a new socket. Each is answered with
+   * TRANSFER_READY carrying the offset to continue from.
+   */
+  _resumeTransfers(direction) {
+    for (const transfer of this.transfers.values()) {
+      if (direction && transfer.direction !== direction) continue;
+      this._sendJson(MessageType.TRANSFER_START, {
+        direction: transfer.direction,
+        path: transfer.path,
+        transferId: transfer.id,
+        offset: transfer.direction === 'download' ? transfer.received : undefined,
+      });
+    }
+  }
+
+  _onTransferReady(ready) {
+    let transfer = this.transfers.get(ready.transferId);
+    if (!transfer) {
+      const index = this.pendingTransfers.findIndex(
+        (t) => t.direction === ready.direction && t.path === ready.path,
+      );
+      if (index === -1) return;
+      transfer = this.pendingTransfers.splice(index, 1)[0];
+      transfer.id = ready.transferId;
+      transfer.size = ready.size;
+      this.transfers.set(transfer.id, transfer);
+      this._emit('transfer-ready', { transferId: transfer.id, direction: transfer.direction, path: transfer.path });
+    }
+
+    if (transfer.direction === 'upload') {
+      transfer.offset = ready.offset;
+      transfer.chunkSize = ready.chunkSize;
+      this._pumpUpload(transfer);
+    }
+  }
+
+  /**
+   * Sends an upload's chunks from transfer.offset. Each READY starts a new run and any
+   * older one stops, so a resume never sends the same bytes twice.
+   */
+  async _pumpUpload(transfer) {
+    const run = ++transfer.run;
+    const active = () => transfer.run === run && this.transfers.has(transfer.id)
+      && this.ws && this.ws.readyState === WebSocket.OPEN;
+    const idBytes = new TextEncoder().encode(transfer.id);
+
+    while (transfer.offset < transfer.size) {
+      while (active() && this.ws.bufferedAmount > TRANSFER_HIGH_WATER_MARK) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      if (!active()) return;
+
+      // Encode: [4-byte LE length][transferId][8-byte LE offset][data]
+      const end = Math.min(transfer.offset + transfer.chunkSize, transfer.size);
+      const data = new Uint8Array(await transfer.file.slice(transfer.offset, end).arrayBuffer());
+      if (!active()) return;
+      const chunk = new Uint8Array(4 + idBytes.length + 8 + data.length);
+      const view = new DataView(chunk.buffer);
+      view.setUint32(0, idBytes.length, true);
+      chunk.set(idBytes, 4);
+      view.setBigUint64(4 + idBytes.length, BigInt(transfer.offset), true);
+      chunk.set(data, 4 + idBytes.length + 8);
+      this._send(MessageType.TRANSFER_CHUNK, chunk);
+      transfer.offset = end;
+    }
+
+    const sha256 = transfer.size <= TRANSFER_MAX_VERIFY_BYTES
+      ? await this._sha256(await transfer.file.arrayBuffer())
+      : undefined;
+    if (!active()) return;
+    this._sendJson(MessageType.TRANSFER_COMPLETE, { transferId: transfer.id, sha256 });
+  }
+
+  _onTransferChunk(payload) {
+    // Decode: [4-byte LE length][transferId][8-byte LE offset][data]
+    if (payload.length < 4) return;
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.length);
+    const idLen = view.getUint32(0, true);
+    const transferId = new TextDecoder().decode(payload.slice(4, 4 + idLen));
+    const offset = Number(view.getBigUint64(4 + idLen, true));
+    const transfer = this.transfers.get(transferId);
+    // Chunks already received before a resume can arrive twice
+    if (!transfer || offset !== transfer.received) return;
+    const data = payload.slice(4 + idLen + 8);
+    transfer.chunks.push(data);
+    transfer.received += data.length;
+  }
+
+  async _onTransferComplete(complete) {
+    const transfer = this.transfers.get(complete.transferId);
+    if (!transfer) return;
+
+    if (transfer.direction === 'upload') {
+      this.transfers.delete(transfer.id);
+      this._emit('transfer-complete', { direction: 'upload', path: transfer.path, size: complete.size });
+      return;
+    }
+
+    // Chunks queued before a reconnect were lost: ask for the rest again
+    if (transfer.received < complete.size) {
+      this._sendJson(MessageType.TRANSFER_START, {
+        direction: 'download',
+        path: transfer.path,
+        transferId: transfer.id,
+        offset: transfer.received,
+      });
+      return;
+    }
+    // The server keeps the download resumable until it hears we have all of it
+    this.transfers.delete(transfer.id);
+    this._sendJson(MessageType.TRANSFER_COMPLETE, { transferId: transfer.id });
+
+    const blob = new Blob(transfer.chunks);
+    if (blob.size !== complete.size) {
+      this._emit('transfer-error', { direction: 'download', path: transfer.path, message: 'Download incomplete' });
+      return;
+    }
+    if (blob.size <= TRANSFER_MAX_VERIFY_BYTES) {
+      const sha256 = await this._sha256(await blob.arrayBuffer());
+      if (sha256 && sha256 !== complete.sha256) {
+        this._emit('transfer-error', { direction: 'download', path: transfer.path, message: 'Checksum mismatch' });
+        return;
+      }
+    }
+    this._emit('transfer-complete', { direction: 'download', path: transfer.path, size: blob.size, blob });
+  }
+
+  /**
+   * Hex SHA-256, or undefined where crypto.subtle is unavailable (plain http to a
+   * non-localhost address).
+   */
+  async _sha256(buffer) {
+    if (!window.crypto || !crypto.subtle) return undefined;
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+    return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+
   _send(type, payload) {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 
@@ -167,33 +471,69 @@ class WSClient extends EventTarget {
     const payload = buf.slice(1);
 
     switch (type) {
-      case MessageType.AUTH_OK:
+      case MessageType.AUTH_OK: {
+        const info = JSON.parse(new TextDecoder().decode(payload));
         this.authenticated = true;
-        this._emit('authenticated');
+        this.profiles = info.profiles || [];
+        this.scopes = info.scopes || [];
+        // The server attaches tokens without terminal:input as observers
+        if (!this.scopes.includes('admin') && !this.scopes.includes('terminal:input')) {
+          this.role = 'observer';
+        }
+        this._emit('authenticated', info);
+
+        // After a reconnect, resume the attached session from where the stream left off
+        if (this.sessionId) {
+          this.attachSession(this.sessionId, this.lastOffset ?? undefined);
+        }
+        // A start the server never answered is dropped rather than repeated
+        this.pendingTransfers = [];
+        this._resumeTransfers();
         break;
+      }
 
       case MessageType.TERMINAL_DATA:
         this._emit('terminal-data', payload);
         break;
 
       case MessageType.SESSION_OUTPUT: {
-        // Decode: [4-byte LE length][sessionId][data]
+        // Decode: [4-byte LE length][sessionId][8-byte LE offset][1-byte flags][data]
+        // Browsers can't send x-ccr-accept-encoding, so the server never deflates the
+        // payload itself and flags are always 0 here; output is compressed by
+        // permessage-deflate instead, unless the server has perMessageDeflate turned off
         if (payload.length < 4) break;
         const view = new DataView(payload.buffer, payload.byteOffset, payload.length);
         const idLen = view.getUint32(0, true);
         const sessionId = new TextDecoder().decode(payload.slice(4, 4 + idLen));
-        const termData = payload.slice(4 + idLen);
+        const offset = Number(view.getBigUint64(4 + idLen, true));
+        const termData = payload.slice(4 + idLen + 9);
+        this.sessionId = sessionId;
+        this.lastOffset = offset + termData.length;
         this._emit('terminal-data', termData);
         this._emit('session-output', { sessionId, data: termData });
         break;
       }
 
+      case MessageType.OUTPUT_GAP: {
+        // Missed output was evicted; a full screen snapshot follows as terminal data
+        const gap = JSON.parse(new TextDecoder().decode(payload));
+        this.lastOffset = gap.offset;
+        this._emit('output-gap', gap);
+        break;
+      }
+
       case MessageType.SESSION_LIST: {
         const sessions = JSON.parse(new TextDecoder().decode(payload));
         this._emit('sessions', sessions);
         break;
       }
 
+      case MessageType.SESSION_EXITED: {
+        const exited = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('session-exited', exited);
+        break;
+      }
+
       case MessageType.FILE_LIST: {
         const fileList = JSON.parse(new TextDecoder().decode(payload));
         this._emit('file-list', fileList);
@@ -206,8 +546,79 @@ class WSClient extends EventTarget {
         break;
       }
 
+      case MessageType.FILE_STAT: {
+        const stat = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('file-stat', stat);
+        break;
+      }
+
+      case MessageType.FILE_ACK: {
+        // A write, delete, rename, mkdir or copy completed
+        const ack = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('file-ack', ack);
+        break;
+      }
+
+      case MessageType.FILE_CHANGED: {
+        const changed = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('file-changed', changed);
+        break;
+      }
+
+      case MessageType.FILE_FIND: {
+        const found = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('file-find', found);
+        break;
+      }
+
+      case MessageType.SEARCH_RESULTS: {
+        const results = JSON.parse(new TextDecoder().decode(payload));
+        this._emit('search-results', results);
+        break;
+      }
+
+      case MessageType.TRANSFER_READY:
+        this._onTransferReady(JSON.parse(new TextDecoder().decode(payload)));
+        break;
+
+      case MessageType.TRANSFER_CHUNK:
+        this._onTransferChunk(payload);
+        break;
+
+      case MessageType.TRANSFER_COMPLETE:
+        this._onTransferComplete(JSON.parse(new TextDecoder().decode(payload)));
+        break;
+
+      case MessageType.TRANSFER_CANCEL: {
+        // The server gave up on a transfer (file changed, checksum mismatch, idle too long)
+        const { transferId } = JSON.parse(new TextDecoder().decode(payload));
+        const transfer = this.transfers.get(transferId);
+        if (!transfer) break;
+        this.transfers.delete(transferId);
+        this._emit('transfer-error', {
+          direction: transfer.direction,
+          path: transfer.path,
+          message: 'Cancelled by the server',
+        });
+        break;
+      }
+
       case MessageType.ERROR: {
         const error = JSON.parse(new TextDecoder().decode(payload));
+        // A dropped or rate-limited chunk: ask where each upload stands and carry on from there
+        if (error.code === 'TRANSFER_OFFSET_MISMATCH' || error.code === 'TRANSFER_INCOMPLETE') {
+          this._resumeTransfers('upload');
+          break;
+        }
+        // A transfer the server refused to start fails like one that broke off
+        if (error.op === 'upload' || error.op === 'download') {
+          const index = this.pendingTransfers.findIndex((t) => t.direction === error.op && t.path === error.path);
+          if (index !== -1) {
+            this.pendingTransfers.splice(index, 1);
+            this._emit('transfer-error', { direction: error.op, path: error.path, message: error.message });
+            break;
+          }
+        }
         this._emit('server-error', error);
         break;
       }
@@ -253,9 +664,7 @@ class WSClient extends EventTarget {
     this._emit('reconnecting', { attempt: this.reconnectAttempts, delay });
 
     this.reconnectTimer = setTimeout(() => {
-      if (this.token) {
-        this.connect(this.token);
-      }
+      this.connect();
     }, delay);
   }
 }